@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { attribution, licenseReference, unknownPlaceholders } from "../src/attribution.js";
+import { parse } from "../src/parser.js";
+import { generate } from "../src/generator.js";
+import { parseJSON } from "../src/parser-json.js";
+import { generateJSON } from "../src/generator-json.js";
+
+const DOC = parse(`Site-Name: News Daily
+Site-URL: https://news.example
+Training: deny
+Training-License: CC-BY-SA-4.0
+Attribution: required
+`).document!;
+
+const PAGE = "https://news.example/2026/cycling";
+
+describe("licenseReference", () => {
+  it("names Creative Commons licenses and links their deeds", () => {
+    expect(licenseReference("CC-BY-SA-4.0")).toEqual({
+      id: "CC-BY-SA-4.0",
+      name: "CC BY-SA 4.0",
+      url: "https://creativecommons.org/licenses/by-sa/4.0/",
+    });
+    expect(licenseReference("cc-by-nc-nd-4.0").url).toBe("https://creativecommons.org/licenses/by-nc-nd/4.0/");
+    expect(licenseReference("CC0-1.0").name).toBe("CC0 1.0");
+  });
+
+  it("links other SPDX licenses to the SPDX list and custom ones to the fee page", () => {
+    expect(licenseReference("MIT")).toEqual({ id: "MIT", name: "MIT", url: "https://spdx.org/licenses/MIT.html" });
+    expect(licenseReference("LicenseRef-News", "https://news.example/licensing")).toEqual({
+      id: "LicenseRef-News",
+      name: "custom license terms",
+      url: "https://news.example/licensing",
+    });
+    expect(licenseReference("LicenseRef-News").url).toBeUndefined();
+  });
+});
+
+describe("attribution", () => {
+  it("builds a citation in every format, following the license", () => {
+    const citation = attribution(DOC, PAGE, { title: "Council backs cycling network", author: "Jo Reporter" });
+    expect(citation.text).toBe(`Source: News Daily (${PAGE}), licensed under CC BY-SA 4.0`);
+    expect(citation.markdown).toBe(
+      `Source: News Daily ([${PAGE}](${PAGE})), licensed under [CC BY-SA 4.0](https://creativecommons.org/licenses/by-sa/4.0/)`,
+    );
+    expect(citation.html).toBe(
+      `Source: News Daily (<a href="${PAGE}">${PAGE}</a>), licensed under ` +
+        `<a href="https://creativecommons.org/licenses/by-sa/4.0/">CC BY-SA 4.0</a>`,
+    );
+    expect(citation.tasl).toBe(
+      `"Council backs cycling network" by Jo Reporter (${PAGE}) is licensed under CC BY-SA 4.0 (https://creativecommons.org/licenses/by-sa/4.0/).`,
+    );
+    expect(citation.license?.id).toBe("CC-BY-SA-4.0");
+    expect(citation.requirement).toBe("required");
+  });
+
+  it("resolves paths against the site URL and defaults to the site name", () => {
+    const doc = { ...DOC, licensing: undefined, content: undefined };
+    const citation = attribution(doc, "/2026/cycling");
+    expect(citation.text).toBe(`Source: News Daily (${PAGE})`);
+    expect(citation.tasl).toBe(`"News Daily" by News Daily (${PAGE}).`);
+    expect(citation.license).toBeUndefined();
+    expect(citation.requirement).toBeUndefined();
+    expect(() => attribution({ ...doc, site: { name: "A", url: "not a url" } }, "/x")).toThrow(RangeError);
+  });
+
+  it("uses the site's template and escapes every format", () => {
+    const doc = parse(`Site-Name: <Tom & Jerry's>
+Site-URL: https://toons.example
+Training-License: MIT
+Attribution-Template: {title} - from [{site}] via {url} ({license}) {unknown}
+`).document!;
+    const citation = attribution(doc, "/a_b", { title: "*Chase*" });
+    expect(citation.text).toBe("*Chase* - from [<Tom & Jerry's>] via https://toons.example/a_b (MIT) {unknown}");
+    expect(citation.markdown).toBe(
+      "\\*Chase\\* - from \\[\\<Tom & Jerry's\\>\\] via [https://toons.example/a\\_b](https://toons.example/a_b) " +
+        "([MIT](https://spdx.org/licenses/MIT.html)) {unknown}",
+    );
+    expect(citation.html).toBe(
+      '*Chase* - from [&#60;Tom &#38; Jerry&#39;s&#62;] via <a href="https://toons.example/a_b">https://toons.example/a_b</a> ' +
+        '(<a href="https://spdx.org/licenses/MIT.html">MIT</a>) {unknown}',
+    );
+  });
+});
+
+describe("Attribution-Template", () => {
+  it("warns about unknown placeholders and round-trips", () => {
+    expect(unknownPlaceholders("{site} {url} {date}")).toEqual(["date"]);
+    const result = parse("Site-Name: A\nSite-URL: https://a.example\nAttribution-Template: Via {site} on {date}\n");
+    expect(result.warnings).toMatchObject([{ code: "INVALID_ATTRIBUTION_TEMPLATE", message: "Unknown placeholder in Attribution-Template: {date}" }]);
+
+    const doc = result.document!;
+    expect(doc.content?.attributionTemplate).toBe("Via {site} on {date}");
+    expect(parse(generate(doc)).document?.content).toEqual(doc.content);
+    expect(parseJSON(generateJSON(doc)).document?.content).toEqual(doc.content);
+  });
+
+  it("keeps a template with a newline on one line", () => {
+    const doc = parse("Site-Name: A\nSite-URL: https://a.example\nTraining: deny\n").document!;
+    const injected = { ...doc, content: { attributionTemplate: "Via {site}\nTraining: allow" } };
+    const roundTripped = parse(generate(injected)).document!;
+    expect(roundTripped.policies.training).toBe("deny");
+    expect(roundTripped.content?.attributionTemplate).toBe("Via {site} Training: allow");
+  });
+});
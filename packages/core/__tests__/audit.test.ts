@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { createReceipt, serializeReceipt, verifyReceipt, RER_ARTIFACT_FORMAT } from "../src/audit.js";
+import type { AuditReceipt } from "../src/audit.js";
+import { canAccess, resolve } from "../src/resolver.js";
+import { parse } from "../src/parser.js";
+
+const DOC = parse(`Site-Name: Audited
+Site-URL: https://audited.example
+Training: conditional
+Training-Allow: /open/**
+Training-Usage: research
+Training-Embargo: /open/news/** 7d
+Audit: required
+Audit-Format: rer-artifact/0.1
+`).document!;
+
+const OPTIONS = { profile: { usage: "research" as const }, publishedAt: "2026-01-01" };
+const ACCESSED = new Date("2026-03-01T12:00:00Z");
+
+async function receiptFor(path: string): Promise<AuditReceipt> {
+  const access = canAccess(DOC, "ClaudeBot", "training", path, { ...OPTIONS, now: ACCESSED });
+  return createReceipt(DOC, {
+    agent: "ClaudeBot",
+    url: `https://audited.example${path}`,
+    purpose: "training",
+    policy: resolve(DOC, "ClaudeBot"),
+    access,
+    options: OPTIONS,
+    accessedAt: ACCESSED,
+  });
+}
+
+describe("createReceipt", () => {
+  it("records the access in the declared format", async () => {
+    const receipt = await receiptFor("/open/news/a");
+    expect(receipt.format).toBe(RER_ARTIFACT_FORMAT);
+    expect(receipt.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(receipt.digest).toMatch(/^sha-256:[A-Za-z0-9_-]{43}$/);
+    expect(receipt.record).toMatchObject({
+      agent: "ClaudeBot",
+      url: "https://audited.example/open/news/a",
+      purpose: "training",
+      accessedAt: "2026-03-01T12:00:00.000Z",
+      site: "https://audited.example",
+      access: { allowed: true },
+      profile: { usage: "research" },
+      publishedAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(receipt.record.policy.training).toBe("conditional");
+  });
+
+  it("rejects unsupported formats", async () => {
+    const doc = { ...DOC, compliance: { audit: "required" as const, auditFormat: "other/2.0" } };
+    await expect(createReceipt(doc, { agent: "A", url: "https://audited.example/", purpose: "training", policy: resolve(doc, "A") }))
+      .rejects.toThrow(RangeError);
+  });
+});
+
+describe("verifyReceipt", () => {
+  it("accepts an untouched receipt, serialized or not", async () => {
+    const receipt = await receiptFor("/open/a");
+    expect(await verifyReceipt(receipt, DOC)).toEqual({ valid: true, errors: [], warnings: [] });
+    expect((await verifyReceipt(serializeReceipt(receipt), DOC)).valid).toBe(true);
+    expect((await verifyReceipt(JSON.stringify(receipt))).valid).toBe(true);
+  });
+
+  it("detects altered records", async () => {
+    const receipt = await receiptFor("/open/a");
+    const altered = { ...receipt, record: { ...receipt.record, purpose: "scraping" } };
+    expect((await verifyReceipt(altered)).errors).toEqual([
+      { path: "digest", code: "DIGEST_MISMATCH", message: "Receipt digest does not match its record" },
+    ]);
+  });
+
+  it("checks the decision and site against the site's document", async () => {
+    const forged = await createReceipt(DOC, {
+      agent: "ClaudeBot",
+      url: "https://audited.example/private/a",
+      purpose: "training",
+      policy: resolve(DOC, "ClaudeBot"),
+      access: { allowed: true, reason: "training is allowed" },
+      options: OPTIONS,
+    });
+    const result = await verifyReceipt(forged, DOC);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatchObject({ code: "DECISION_MISMATCH", path: "record.access.allowed" });
+
+    const other = { ...DOC, site: { name: "Other", url: "https://other.example" } };
+    expect((await verifyReceipt(await receiptFor("/open/a"), other)).errors[0].code).toBe("SITE_MISMATCH");
+  });
+
+  it("rejects malformed receipts and unknown formats", async () => {
+    expect((await verifyReceipt("{")).errors[0].code).toBe("INVALID_RECEIPT");
+    expect((await verifyReceipt(JSON.stringify({ format: RER_ARTIFACT_FORMAT }))).errors[0]).toMatchObject({
+      code: "INVALID_RECEIPT",
+      path: "id",
+    });
+    const receipt = await receiptFor("/open/a");
+    expect((await verifyReceipt({ ...receipt, format: "other/2.0" })).errors[0].code).toBe("UNSUPPORTED_FORMAT");
+  });
+});
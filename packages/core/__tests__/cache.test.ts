@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryCacheStore, serializeCacheEntry, deserializeCacheEntry, cacheDirectives, parseCacheControl } from "../src/cache.js";
+import type { CacheEntry } from "../src/cache.js";
+import { FileCacheStore } from "../src/fs-cache.js";
+import { AiTxtClient } from "../src/client.js";
+import { parse } from "../src/parser.js";
+
+const TEXT = "Site-Name: Cached\nSite-URL: https://cached.example\nTraining: deny\n";
+const ENTRY: CacheEntry = { result: parse(TEXT), etag: '"v1"', expiresAt: 1_800_000_000_000 };
+
+describe("serializeCacheEntry", () => {
+  it("round-trips the result, ETag and expiry", () => {
+    expect(deserializeCacheEntry(serializeCacheEntry(ENTRY))).toEqual(ENTRY);
+    const { etag: _etag, ...untagged } = ENTRY;
+    expect(deserializeCacheEntry(serializeCacheEntry(untagged))).toEqual(untagged);
+  });
+
+  it("rejects anything else", () => {
+    expect(deserializeCacheEntry("{")).toBeUndefined();
+    expect(deserializeCacheEntry("null")).toBeUndefined();
+    expect(deserializeCacheEntry(JSON.stringify({ version: 2, expiresAt: 1, result: ENTRY.result }))).toBeUndefined();
+    expect(deserializeCacheEntry(JSON.stringify({ version: 1, expiresAt: "soon", result: ENTRY.result }))).toBeUndefined();
+  });
+});
+
+describe("cacheDirectives", () => {
+  const directives = (cacheControl: string, age?: string) =>
+    cacheDirectives(new Headers({ "Cache-Control": cacheControl, ...(age ? { Age: age } : {}) }));
+
+  it("parses Cache-Control", () => {
+    expect(parseCacheControl('Max-Age=60, no-cache="Set-Cookie", public')).toEqual(
+      new Map<string, string | true>([["max-age", "60"], ["no-cache", "Set-Cookie"], ["public", true]]),
+    );
+    expect(parseCacheControl(null).size).toBe(0);
+  });
+
+  it("reads freshness like a shared cache", () => {
+    expect(cacheDirectives(new Headers())).toEqual({ store: true });
+    expect(directives("max-age=600")).toEqual({ store: true, ttl: 600_000 });
+    expect(directives("max-age=600, s-maxage=1200", "200")).toEqual({ store: true, ttl: 1_000_000 });
+    expect(directives("max-age=5")).toEqual({ store: true, ttl: 60_000 });
+    expect(directives("max-age=600", "3600")).toEqual({ store: true, ttl: 60_000 });
+    expect(directives("max-age=600, no-cache")).toEqual({ store: true, ttl: 0 });
+    expect(directives("no-store, max-age=600")).toEqual({ store: false });
+    expect(directives("private, max-age=600")).toEqual({ store: false });
+    expect(directives("max-age=soon")).toEqual({ store: true });
+  });
+
+  it("reads stale windows", () => {
+    expect(directives("max-age=60, stale-while-revalidate=30, stale-if-error=86400")).toEqual({
+      store: true,
+      ttl: 60_000,
+      staleWhileRevalidate: 30_000,
+      staleIfError: 86_400_000,
+    });
+    expect(directives("max-age=60, stale-if-error=600, must-revalidate")).toEqual({ store: true, ttl: 60_000 });
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("evicts the least recently used entry", () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    store.set("a", ENTRY);
+    store.set("b", ENTRY);
+    store.get("a");
+    store.set("c", ENTRY);
+    expect(store.size).toBe(2);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("a")).toBe(ENTRY);
+    store.delete("a");
+    expect(store.get("a")).toBeUndefined();
+    expect(() => new MemoryCacheStore({ maxEntries: 0 })).toThrow(RangeError);
+  });
+});
+
+describe("FileCacheStore", () => {
+  it("stores one file per entry and survives a new instance", async () => {
+    const directory = join(await mkdtemp(join(tmpdir(), "ai-txt-cache-")), "nested");
+    try {
+      await new FileCacheStore(directory).set("https://cached.example", ENTRY);
+      const store = new FileCacheStore(directory);
+      expect(await store.get("https://cached.example")).toEqual(ENTRY);
+      expect(await store.get("https://other.example")).toBeUndefined();
+      expect(await readdir(directory)).toHaveLength(1);
+
+      // Corrupt files read as misses
+      const [file] = await readdir(directory);
+      await writeFile(join(directory, file), "not json");
+      expect(await store.get("https://cached.example")).toBeUndefined();
+
+      await store.set("https://a.example", ENTRY);
+      await store.delete("https://a.example");
+      expect(await store.get("https://a.example")).toBeUndefined();
+      await store.clear();
+      expect(await readdir(directory)).toEqual([]);
+    } finally {
+      await rm(join(directory, ".."), { recursive: true, force: true });
+    }
+  });
+});
+
+describe("AiTxtClient cache option", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("shares cached documents and their ETags between clients", async () => {
+    const fetchMock = vi.fn(async (url: string, init: { headers: Record<string, string> }) => {
+      if (!url.endsWith("/ai.txt")) return { ok: false, status: 404, text: async () => "", headers: new Headers() };
+      if (init.headers["If-None-Match"] === '"v1"') return { ok: false, status: 304, text: async () => "", headers: new Headers() };
+      return { ok: true, status: 200, text: async () => TEXT, headers: new Headers({ ETag: '"v1"' }) };
+    });
+    globalThis.fetch = fetchMock as any;
+
+    const store = new MemoryCacheStore();
+    const first = new AiTxtClient({ cache: store });
+    expect((await first.discover("https://cached.example")).success).toBe(true);
+    const calls = fetchMock.mock.calls.length;
+
+    // A second client reads the first one's entry without fetching
+    expect((await new AiTxtClient({ cache: store }).discover("https://cached.example")).success).toBe(true);
+    expect(fetchMock.mock.calls.length).toBe(calls);
+
+    // After expiry it revalidates with the stored ETag
+    const entry = store.get("https://cached.example/.well-known/ai.txt")!;
+    store.set("https://cached.example/.well-known/ai.txt", { ...entry, expiresAt: 0 });
+    const revalidated = await new AiTxtClient({ cache: store }).discover("https://cached.example");
+    expect(revalidated.document?.site.name).toBe("Cached");
+    expect(fetchMock.mock.calls.at(-1)![1].headers["If-None-Match"]).toBe('"v1"');
+  });
+
+  it("treats a failing store as a miss", async () => {
+    globalThis.fetch = vi.fn(async (url: string) =>
+      url.endsWith("/ai.txt")
+        ? { ok: true, status: 200, text: async () => TEXT, headers: new Headers() }
+        : { ok: false, status: 404, text: async () => "", headers: new Headers() },
+    ) as any;
+    const broken = {
+      get: async () => {
+        throw new Error("store offline");
+      },
+      set: async () => {
+        throw new Error("store offline");
+      },
+      delete: () => {},
+    };
+    const result = await new AiTxtClient({ cache: broken }).discover("https://cached.example");
+    expect(result.success).toBe(true);
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { AiTxtClient } from "../src/client.js";
+import { verifyReceipt } from "../src/audit.js";
+import { sign, signText, publicKey } from "../src/signature.js";
+import { generateKeyPairSync } from "node:crypto";
 
 const VALID_JSON = JSON.stringify({
   specVersion: "1.0",
@@ -123,7 +126,8 @@ describe("AiTxtClient", () => {
     const client = new AiTxtClient();
 
     await client.discover("https://test.com");
-    client.clearCache();
+    // Not awaited: the memory store clears during the call, as before clearCache() was async
+    void client.clearCache();
     await client.discover("https://test.com");
 
     expect(fetchMock).toHaveBeenCalledTimes(2);
@@ -217,6 +221,58 @@ describe("AiTxtClient", () => {
     expect(access?.allowed).toBe(false); // training: deny
   });
 
+  it("applies the jurisdiction section for the client's jurisdiction", async () => {
+    globalThis.fetch = mockFetch({
+      "https://test.com/.well-known/ai.txt": {
+        status: 200,
+        body: VALID_TEXT + "\nJurisdiction: EU\n  Training: allow\n  TDM-Reservation: no\n",
+      },
+    }) as any;
+
+    const client = new AiTxtClient({ jurisdiction: "DE" });
+    const { policy } = await client.check("https://test.com");
+    expect(policy).toMatchObject({ jurisdiction: "EU", training: "allow", tdmReservation: false });
+    expect((await client.checkAccess("https://test.com", "training")).access?.allowed).toBe(true);
+    const us = await client.checkAccess("https://test.com", "training", undefined, { jurisdiction: "US" });
+    expect(us.access?.allowed).toBe(false);
+  });
+
+  it("checkAccess() creates audit receipts when the site requires them", async () => {
+    globalThis.fetch = mockFetch({
+      "https://test.com/.well-known/ai.txt": { status: 200, body: VALID_TEXT + "Audit: required\n" },
+      "https://other.com/.well-known/ai.txt": { status: 200, body: VALID_TEXT },
+    }) as any;
+
+    const receipts: unknown[] = [];
+    const client = new AiTxtClient({ userAgent: "ClaudeBot", onReceipt: (r) => { receipts.push(r); } });
+    const { access, receipt } = await client.checkAccess("https://test.com", "scraping", "/posts/1");
+    expect(access?.allowed).toBe(true);
+    expect(receipt?.record).toMatchObject({ agent: "ClaudeBot", url: "https://test.com/posts/1", purpose: "scraping" });
+    expect(receipts).toEqual([receipt]);
+    expect((await verifyReceipt(receipt!, (await client.discover("https://test.com")).document)).valid).toBe(true);
+
+    expect((await client.checkAccess("https://other.com", "scraping")).receipt).toBeUndefined();
+    expect(receipts).toHaveLength(1);
+  });
+
+  it("attribution() builds a citation from the page's site", async () => {
+    globalThis.fetch = mockFetch({
+      "https://test.com/.well-known/ai.txt": {
+        status: 200,
+        body: VALID_TEXT + "Training-License: CC-BY-4.0\nAttribution: required\n",
+      },
+    }) as any;
+
+    const client = new AiTxtClient();
+    const { success, citation } = await client.attribution("https://test.com/posts/1?ref=x", { title: "Post" });
+    expect(success).toBe(true);
+    expect(citation?.text).toBe("Source: Test (https://test.com/posts/1?ref=x), licensed under CC BY 4.0");
+    expect(citation?.requirement).toBe("required");
+
+    const invalid = await client.attribution("/posts/1");
+    expect(invalid).toEqual({ success: false, errors: [{ message: "Invalid page URL: /posts/1" }] });
+  });
+
   it("strips trailing slashes from base URL", async () => {
     globalThis.fetch = mockFetch({
       "https://test.com/.well-known/ai.json": { status: 200, body: VALID_JSON },
@@ -234,13 +290,584 @@ describe("AiTxtClient", () => {
     expect(result.errors[0].message).toContain("HTTPS");
   });
 
-  it("allows localhost over HTTP (for development)", async () => {
+  it("allows localhost over HTTP when it is a development host", async () => {
     globalThis.fetch = mockFetch({
       "http://localhost:3000/.well-known/ai.json": { status: 200, body: VALID_JSON },
     }) as any;
 
-    const client = new AiTxtClient();
+    const client = new AiTxtClient({ devHosts: ["localhost"] });
     const result = await client.discover("http://localhost:3000");
     expect(result.success).toBe(true);
+
+    expect((await new AiTxtClient().discover("http://localhost:3000")).success).toBe(false);
+  });
+
+  describe("signatures", () => {
+    const signingKey = { ...generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey.export({ format: "jwk" }), kid: "k1" } as JsonWebKey;
+    const JWKS = JSON.stringify({ keys: [publicKey(signingKey)] });
+
+    it("accepts ai.json with a valid detached signature from the published keys", async () => {
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.json": { status: 200, body: VALID_JSON },
+        "https://test.com/.well-known/ai.json.sig": { status: 200, body: await sign(JSON.parse(VALID_JSON), signingKey) },
+        "https://test.com/.well-known/ai-txt-jwks.json": { status: 200, body: JWKS },
+      }) as any;
+
+      const result = await new AiTxtClient({ requireSignature: true }).discover("https://test.com");
+      expect(result.success).toBe(true);
+    });
+
+    it("verifies inline ai.txt signatures against trusted keys", async () => {
+      const fetchMock = mockFetch({
+        "https://test.com/.well-known/ai.txt": { status: 200, body: await signText(VALID_TEXT, signingKey) },
+      });
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient({ requireSignature: true, trustedKeys: { "https://test.com": JSON.parse(JWKS) } });
+      expect((await client.discover("https://test.com")).success).toBe(true);
+      expect(fetchMock.mock.calls.map(([url]) => url)).not.toContain("https://test.com/.well-known/ai-txt-jwks.json");
+    });
+
+    it("rejects unsigned and tampered documents without caching them", async () => {
+      const signed = await signText(VALID_TEXT, signingKey);
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.json": { status: 200, body: VALID_JSON },
+        "https://test.com/.well-known/ai-txt-jwks.json": { status: 200, body: JWKS },
+      }) as any;
+
+      const client = new AiTxtClient({ requireSignature: true });
+      const result = await client.discover("https://test.com");
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toMatchObject({ code: "MISSING_SIGNATURE", field: "ai.json.sig" });
+
+      expect((await client.discoverJSON("https://test.com")).errors[0].code).toBe("MISSING_SIGNATURE");
+
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.txt": { status: 200, body: signed.replace("deny", "allow") },
+        "https://test.com/.well-known/ai-txt-jwks.json": { status: 200, body: JWKS },
+      }) as any;
+      const tampered = await client.discover("https://test.com");
+      expect(tampered.errors[0]).toMatchObject({ code: "INVALID_SIGNATURE", message: "Invalid signature: Signature does not match the document" });
+
+      // Unsigned documents are still accepted by default
+      expect((await new AiTxtClient().discover("https://test.com")).success).toBe(true);
+    });
+
+    it("reports hostile signatures and key sets as invalid instead of throwing", async () => {
+      const signed = await signText(VALID_TEXT, signingKey);
+      const nullHeader = VALID_TEXT + `Signature: ${Buffer.from("null").toString("base64url")}..AA\n`;
+      for (const [body, jwks] of [[nullHeader, JWKS], [signed, '{"keys":[null]}']]) {
+        globalThis.fetch = mockFetch({
+          "https://test.com/.well-known/ai.txt": { status: 200, body },
+          "https://test.com/.well-known/ai-txt-jwks.json": { status: 200, body: jwks },
+        }) as any;
+        const result = await new AiTxtClient({ requireSignature: true }).discover("https://test.com");
+        expect(result.errors[0]).toMatchObject({ code: "INVALID_SIGNATURE" });
+      }
+    });
+  });
+
+  describe("HTTP caching", () => {
+    const JSON_URL = "https://test.com/.well-known/ai.json";
+    const TXT_URL = "https://test.com/.well-known/ai.txt";
+    type Reply = { status: number; body?: string; headers?: Record<string, string> };
+
+    /** A fetch mock answering from `reply`, which sees each request's URL and headers. */
+    function serve(reply: (url: string, headers: Record<string, string>) => Reply | Error) {
+      return vi.fn(async (url: string, init: { headers: Record<string, string> }) => {
+        const resp = reply(url, init.headers);
+        if (resp instanceof Error) throw resp;
+        return {
+          ok: resp.status >= 200 && resp.status < 300,
+          status: resp.status,
+          text: async () => resp.body ?? "",
+          headers: new Headers(resp.headers ?? {}),
+        };
+      });
+    }
+
+    const minutes = (n: number) => vi.advanceTimersByTime(n * 60_000);
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("keeps validators per URL", async () => {
+      let jsonGone = false;
+      const fetchMock = serve((url) => {
+        if (url === JSON_URL) return jsonGone ? { status: 404 } : { status: 200, body: VALID_JSON, headers: { ETag: '"json"' } };
+        return { status: 200, body: VALID_TEXT, headers: { ETag: '"text"' } };
+      });
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient();
+      await client.discover("https://test.com");
+      jsonGone = true;
+      minutes(10);
+      expect((await client.discover("https://test.com")).document?.site.name).toBe("Test");
+
+      // The ai.json ETag is sent for ai.json only, never for ai.txt
+      const [, json, txt] = fetchMock.mock.calls;
+      expect(json[1].headers["If-None-Match"]).toBe('"json"');
+      expect(txt[0]).toBe(TXT_URL);
+      expect(txt[1].headers["If-None-Match"]).toBeUndefined();
+
+      minutes(10);
+      await client.discover("https://test.com");
+      expect(fetchMock.mock.calls.at(-1)![1].headers["If-None-Match"]).toBe('"text"');
+    });
+
+    it("does not store no-store or private responses", async () => {
+      for (const cacheControl of ["no-store", "private, max-age=600"]) {
+        const fetchMock = serve(() => ({ status: 200, body: VALID_JSON, headers: { "Cache-Control": cacheControl } }));
+        globalThis.fetch = fetchMock as any;
+
+        const client = new AiTxtClient();
+        await client.discover("https://test.com");
+        await client.discover("https://test.com");
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      }
+    });
+
+    it("revalidates no-cache responses before every use", async () => {
+      const fetchMock = serve((_url, headers) =>
+        headers["If-None-Match"] === '"v1"'
+          ? { status: 304 }
+          : { status: 200, body: VALID_JSON, headers: { "Cache-Control": "no-cache", ETag: '"v1"' } },
+      );
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient();
+      await client.discover("https://test.com");
+      const result = await client.discover("https://test.com");
+      expect(result.success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1].headers["If-None-Match"]).toBe('"v1"');
+    });
+
+    it("refetches once when a 304 arrives with no cached copy", async () => {
+      let notModified = 1;
+      const fetchMock = serve(() => (notModified-- > 0 ? { status: 304 } : { status: 200, body: VALID_JSON }));
+      globalThis.fetch = fetchMock as any;
+
+      const result = await new AiTxtClient().discover("https://test.com");
+      expect(result.success).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1].headers["Cache-Control"]).toBe("no-cache");
+    });
+
+    it("fails rather than reporting no file when 304s keep coming with no cached copy", async () => {
+      const fetchMock = serve(() => ({ status: 304 }));
+      globalThis.fetch = fetchMock as any;
+
+      const result = await new AiTxtClient().discover("https://test.com");
+      expect(result.success).toBe(false);
+      expect(result.errors[0].code).toBe("HTTP_ERROR");
+      expect(result.errors[0].message).toContain("no cached copy");
+    });
+
+    it("enforces the 60-second minimum and subtracts Age", async () => {
+      const fetchMock = serve(() => ({ status: 200, body: VALID_JSON, headers: { "Cache-Control": "max-age=5" } }));
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient();
+      await client.discover("https://test.com");
+      vi.advanceTimersByTime(30_000);
+      await client.discover("https://test.com");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      vi.advanceTimersByTime(31_000);
+      await client.discover("https://test.com");
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      // s-maxage wins over max-age; 600s less an Age of 300s leaves 5 minutes
+      globalThis.fetch = serve(() => ({
+        status: 200,
+        body: VALID_JSON,
+        headers: { "Cache-Control": "max-age=60, s-maxage=600", Age: "300" },
+      })) as any;
+      await client.clearCache();
+      await client.discover("https://test.com");
+      minutes(4);
+      await client.discover("https://test.com");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+      minutes(2);
+      await client.discover("https://test.com");
+      expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("serves stale documents while revalidating in the background", async () => {
+      let version = "Old";
+      const fetchMock = serve(() => ({
+        status: 200,
+        body: JSON.stringify({ ...JSON.parse(VALID_JSON), site: { name: version, url: "https://test.com" } }),
+        headers: { "Cache-Control": "max-age=60, stale-while-revalidate=600" },
+      }));
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient();
+      await client.discover("https://test.com");
+      version = "New";
+      minutes(5);
+      expect((await client.discover("https://test.com")).document?.site.name).toBe("Old");
+      await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+      await vi.waitFor(async () => expect((await client.discover("https://test.com")).document?.site.name).toBe("New"));
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      // Past the window, the stale copy is not served
+      minutes(20);
+      version = "Newest";
+      expect((await client.discover("https://test.com")).document?.site.name).toBe("Newest");
+    });
+
+    it("serves stale documents when the site errors, within stale-if-error", async () => {
+      let failure: Reply | Error | undefined;
+      const fetchMock = serve(() => failure ?? { status: 200, body: VALID_JSON, headers: { "Cache-Control": "max-age=60, stale-if-error=3600" } });
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient({ retry: { retries: 0 } });
+      await client.discover("https://test.com");
+      minutes(5);
+      failure = { status: 503 };
+      const stale = await client.discover("https://test.com");
+      expect(stale.success).toBe(true);
+      expect(stale.warnings).toContainEqual({ code: "STALE_DOCUMENT", message: `Using a stale copy of ${JSON_URL}: HTTP 503` });
+
+      failure = new Error("ECONNRESET");
+      expect((await client.discover("https://test.com")).warnings.at(-1)?.message).toContain("ECONNRESET");
+
+      // A 404 is an answer, not an error
+      failure = { status: 404 };
+      expect((await client.discover("https://test.com")).success).toBe(false);
+
+      // And past the window the policy is no longer known
+      failure = undefined;
+      await client.discover("https://test.com");
+      minutes(120);
+      failure = { status: 503 };
+      expect((await client.discover("https://test.com")).success).toBe(false);
+    });
+  });
+
+  describe("concurrency and negative caching", () => {
+    it("shares one discovery between concurrent callers", async () => {
+      const fetchMock = mockFetch({ "https://test.com/.well-known/ai.txt": { status: 200, body: VALID_TEXT } });
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient();
+      const results = await Promise.all(Array.from({ length: 200 }, () => client.discover("https://test.com/")));
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("remembers sites without ai.txt for notFoundTtl", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        const fetchMock = mockFetch({});
+        globalThis.fetch = fetchMock as any;
+
+        const client = new AiTxtClient({ notFoundTtl: 30_000 });
+        const result = await client.discover("https://test.com");
+        expect(result.errors).toEqual([{ code: "NOT_FOUND", message: "No ai.txt found at https://test.com" }]);
+        expect(await client.discover("https://test.com")).toEqual(result);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        vi.advanceTimersByTime(30_000);
+        await client.discover("https://test.com");
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("reports failed requests by category and does not cache them", async () => {
+      const fetchMock = vi.fn(async (url: string) => {
+        if (url.endsWith("/ai.json")) throw new TypeError("fetch failed");
+        return { ok: false, status: 503, text: async () => "", headers: new Headers() };
+      });
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient({ retry: { retries: 0 } });
+      const result = await client.discover("https://test.com");
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([{ code: "CONNECTION_ERROR", message: "Could not fetch https://test.com/.well-known/ai.json: fetch failed" }]);
+
+      await client.discover("https://test.com");
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it("does not take a 403 for a missing file or remember it", async () => {
+      const fetchMock = mockFetch({
+        "https://test.com/.well-known/ai.json": { status: 403, body: "" },
+        "https://test.com/.well-known/ai.txt": { status: 403, body: "" },
+      });
+      globalThis.fetch = fetchMock as any;
+
+      const client = new AiTxtClient();
+      const result = await client.discover("https://test.com");
+      expect(result.errors).toEqual([{ code: "HTTP_ERROR", message: "Could not fetch https://test.com/.well-known/ai.json: HTTP 403" }]);
+
+      await client.discover("https://test.com");
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe("retries and failures", () => {
+    const failing = (status: number, headers: Record<string, string> = {}) =>
+      ({ ok: false, status, text: async () => "", headers: new Headers(headers) });
+    const ok = (body: string) => ({ ok: true, status: 200, text: async () => body, headers: new Headers() });
+
+    it("retries 429 and 503 after their Retry-After", async () => {
+      vi.useFakeTimers();
+      try {
+        const fetchMock = vi.fn()
+          .mockResolvedValueOnce(failing(429, { "Retry-After": "2" }))
+          .mockResolvedValueOnce(ok(VALID_JSON));
+        globalThis.fetch = fetchMock as any;
+
+        const pending = new AiTxtClient().discover("https://test.com");
+        await vi.advanceTimersByTimeAsync(1_999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect((await pending).success).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("does not wait for a Retry-After beyond maxDelay", async () => {
+      const fetchMock = vi.fn(async () => failing(503, { "Retry-After": "3600" }));
+      globalThis.fetch = fetchMock as any;
+
+      const result = await new AiTxtClient().discover("https://test.com");
+      expect(result.errors).toEqual([{ code: "HTTP_ERROR", message: "Could not fetch https://test.com/.well-known/ai.json: HTTP 503" }]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("backs off and reports DNS and connection failures", async () => {
+      const fetchMock = vi.fn(async () => {
+        throw Object.assign(new TypeError("fetch failed"), { cause: { code: "ENOTFOUND" } });
+      });
+      globalThis.fetch = fetchMock as any;
+
+      const result = await new AiTxtClient({ retry: { retries: 2, baseDelay: 5 } }).discover("https://test.com");
+      expect(result.errors[0]).toEqual({ code: "CONNECTION_ERROR", message: "Could not fetch https://test.com/.well-known/ai.json: ENOTFOUND" });
+      expect(fetchMock).toHaveBeenCalledTimes(6);
+    });
+
+    it("reports timeouts", async () => {
+      globalThis.fetch = vi.fn((_url: string, init: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => init.signal.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError")))),
+      ) as any;
+
+      const result = await new AiTxtClient({ timeout: 20, retry: { retries: 0 } }).discover("https://test.com");
+      expect(result.errors[0]).toEqual({ code: "FETCH_TIMEOUT", message: "Could not fetch https://test.com/.well-known/ai.json: no response within 20 ms" });
+    });
+
+    it("reports a file that does not parse instead of 'not found'", async () => {
+      globalThis.fetch = mockFetch({ "https://test.com/.well-known/ai.json": { status: 200, body: "{ not json" } }) as any;
+
+      const result = await new AiTxtClient().discover("https://test.com");
+      expect(result.success).toBe(false);
+      expect(result.errors[0].code).toBe("INVALID_JSON");
+    });
+
+    it("cancels the bodies of error responses", async () => {
+      const cancelled: number[] = [];
+      globalThis.fetch = vi.fn(async (url: string) => {
+        const status = url.endsWith("/ai.json") ? 503 : 403;
+        const body = new ReadableStream({ cancel: () => void cancelled.push(status) });
+        return new Response(body, { status });
+      }) as any;
+
+      await new AiTxtClient({ retry: { retries: 0 } }).discover("https://test.com");
+      expect(cancelled).toEqual([503, 403]);
+    });
+
+    it("stops contacting a failing host until its circuit breaker's cooldown ends", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+        let status = 503;
+        const fetchMock = vi.fn(async () => (status === 200 ? ok(VALID_JSON) : failing(status)));
+        globalThis.fetch = fetchMock as any;
+
+        const client = new AiTxtClient({ retry: { retries: 0 }, circuitBreaker: { threshold: 2, cooldown: 60_000 } });
+        expect((await client.discover("https://test.com")).errors[0].code).toBe("HTTP_ERROR");
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        const open = await client.discover("https://test.com");
+        expect(open.errors[0]).toEqual({
+          code: "CIRCUIT_OPEN",
+          message: "Could not fetch https://test.com/.well-known/ai.json: test.com keeps failing, so requests to it are paused until 2026-01-01T00:01:00.000Z",
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        // After the cooldown one trial request goes through; it succeeds and closes the circuit
+        vi.advanceTimersByTime(60_000);
+        status = 200;
+        expect((await client.discover("https://test.com")).success).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("reports a trial request in progress rather than a cooldown that has ended", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      try {
+        let answer = (_: unknown) => {};
+        const fetchMock = vi.fn(async () => failing(503));
+        globalThis.fetch = fetchMock as any;
+
+        const client = new AiTxtClient({ retry: { retries: 0 }, circuitBreaker: { threshold: 1, cooldown: 60_000 } });
+        await client.discover("https://test.com");
+        vi.advanceTimersByTime(60_000);
+
+        fetchMock.mockImplementationOnce(() => new Promise((resolve) => (answer = resolve)));
+        const probe = client.discover("https://test.com");
+        await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+
+        const refused = await client.discoverJSON("https://test.com");
+        expect(refused.errors[0]).toEqual({
+          code: "CIRCUIT_OPEN",
+          message: "Could not fetch https://test.com/.well-known/ai.json: test.com keeps failing, so requests to it wait for a trial request in progress",
+        });
+
+        answer(ok(VALID_JSON));
+        expect((await probe).success).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("network safety", () => {
+    it("follows redirects to public HTTPS targets only", async () => {
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.json": { status: 301, body: "", headers: { Location: "https://cdn.test.com/ai.json" } },
+        "https://cdn.test.com/ai.json": { status: 200, body: VALID_JSON },
+      }) as any;
+      expect((await new AiTxtClient().discover("https://test.com")).success).toBe(true);
+
+      for (const location of ["http://cdn.test.com/ai.json", "https://169.254.169.254/latest/meta-data", "https://[::1]/"]) {
+        globalThis.fetch = mockFetch({
+          "https://test.com/.well-known/ai.json": { status: 302, body: "", headers: { Location: location } },
+        }) as any;
+        const result = await new AiTxtClient().discoverJSON("https://test.com");
+        expect(result.errors[0].code, location).toBe("UNSAFE_URL");
+      }
+    });
+
+    it("limits redirect hops", async () => {
+      const fetchMock = vi.fn(async (url: string) => ({
+        ok: false,
+        status: 307,
+        text: async () => "",
+        headers: new Headers({ Location: `${url}x` }),
+      }));
+      globalThis.fetch = fetchMock as any;
+
+      const result = await new AiTxtClient({ maxRedirects: 2 }).discoverJSON("https://test.com");
+      expect(result.errors).toEqual([{ code: "TOO_MANY_REDIRECTS", message: "Could not fetch https://test.com/.well-known/ai.json: more than 2 redirects" }]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: "manual" });
+    });
+
+    it("refuses bodies over maxBodySize without retrying", async () => {
+      const fetchMock = vi.fn(async () => new Response(VALID_JSON.padEnd(5_000)));
+      globalThis.fetch = fetchMock as any;
+
+      const result = await new AiTxtClient({ maxBodySize: 4_096 }).discoverJSON("https://test.com");
+      expect(result.errors).toEqual([{ code: "BODY_TOO_LARGE", message: "Could not fetch https://test.com/.well-known/ai.json: body exceeds 4096 bytes" }]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("warns when the Content-Type does not match the format", async () => {
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.txt": { status: 200, body: VALID_TEXT, headers: { "Content-Type": "text/html" } },
+      }) as any;
+
+      const result = await new AiTxtClient().discover("https://test.com");
+      expect(result.success).toBe(true);
+      expect(result.warnings).toContainEqual({
+        code: "UNEXPECTED_CONTENT_TYPE",
+        message: "https://test.com/.well-known/ai.txt is served as text/html, not text/plain",
+      });
+    });
+  });
+
+  describe("validity window", () => {
+    const withWindow = (window: Record<string, string>) =>
+      JSON.stringify({ ...JSON.parse(VALID_JSON), ...window });
+
+    it("flags an expired document and does not cache it", async () => {
+      const fetchMock = mockFetch({
+        "https://test.com/.well-known/ai.json": { status: 200, body: withWindow({ expires: "2020-01-01T00:00:00Z" }) },
+      }) as any;
+      globalThis.fetch = fetchMock;
+
+      const client = new AiTxtClient({ cacheTtl: 60_000 });
+      const result = await client.discover("https://test.com");
+      expect(result.success).toBe(true);
+      expect(result.warnings).toContainEqual(expect.objectContaining({ code: "DOCUMENT_EXPIRED", field: "Expires" }));
+
+      await client.discover("https://test.com");
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it("rejects documents outside their window when configured to", async () => {
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.json": { status: 200, body: withWindow({ validFrom: "2999-01-01" }) },
+      }) as any;
+
+      const client = new AiTxtClient({ expiredDocuments: "reject" });
+      const result = await client.discover("https://test.com");
+      expect(result.success).toBe(false);
+      expect(result.errors[0].code).toBe("DOCUMENT_NOT_YET_VALID");
+    });
+
+    it("does not cache past the document's Expires time", async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+        const fetchMock = mockFetch({
+          "https://test.com/.well-known/ai.json": { status: 200, body: withWindow({ expires: "2026-01-01T00:01:00Z" }) },
+        }) as any;
+        globalThis.fetch = fetchMock;
+
+        const client = new AiTxtClient({ cacheTtl: 300_000 });
+        expect((await client.discover("https://test.com")).warnings).toEqual([]);
+        await client.discover("https://test.com");
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+
+        vi.setSystemTime(new Date("2026-01-01T00:02:00Z"));
+        const result = await client.discover("https://test.com");
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(result.warnings[0].code).toBe("DOCUMENT_EXPIRED");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("checkAccess() passes embargo options through", async () => {
+      globalThis.fetch = mockFetch({
+        "https://test.com/.well-known/ai.txt": {
+          status: 200,
+          body: VALID_TEXT + "Scraping: allow\nScraping-Embargo: /news/** 1d\n",
+        },
+      }) as any;
+
+      const client = new AiTxtClient();
+      const now = new Date("2026-03-02T00:00:00Z");
+      const fresh = await client.checkAccess("https://test.com", "scraping", "/news/a", { now, publishedAt: "2026-03-01T12:00:00Z" });
+      expect(fresh.access?.allowed).toBe(false);
+      const old = await client.checkAccess("https://test.com", "scraping", "/news/a", { now, publishedAt: "2026-02-01" });
+      expect(old.access?.allowed).toBe(true);
+    });
   });
 });
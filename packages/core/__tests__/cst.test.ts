@@ -0,0 +1,269 @@
+import { describe, it, expect } from "vitest";
+import { parseCST, printCST, cstLines, AiTxtEditor } from "../src/cst.js";
+import type { CstAgentBlock, CstLine } from "../src/cst.js";
+
+const HAND_WRITTEN = `# ai.txt for News Daily
+# Reviewed by legal 2026-01-15 - do not change without sign-off
+spec-version: 1.0
+
+Site-Name:   News Daily
+Site-URL: https://newsdaily.com
+
+# Training is off until the licensing deal closes
+Training: deny
+Scraping: allow
+
+Agent: *
+  Rate-Limit: 30/minute
+
+# ClaudeBot has a signed agreement (contract #1234)
+Agent: ClaudeBot
+  # Covered by the 2026 agreement
+  Training: allow
+
+  Rate-Limit: 120/minute
+
+Attribution: required
+`;
+
+/** Line numbers (1-based) whose text differs between two files of equal length. */
+function changedLines(before: string, after: string): number[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const changed: number[] = [];
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] !== b[i]) changed.push(i + 1);
+  }
+  return changed;
+}
+
+describe("parseCST", () => {
+  it("round-trips byte-for-byte", () => {
+    expect(printCST(parseCST(HAND_WRITTEN))).toBe(HAND_WRITTEN);
+  });
+
+  it("round-trips CRLF, mixed endings and no trailing newline", () => {
+    const inputs = [
+      "Site-Name: A\r\nSite-URL: https://a.com\r\n",
+      "Site-Name: A\nSite-URL: https://a.com\r\n# tail",
+      "",
+      "\n\n",
+      "not a field\n  \t\nAgent:\n",
+    ];
+    for (const input of inputs) {
+      expect(printCST(parseCST(input))).toBe(input);
+    }
+  });
+
+  it("records ranges for keys, values and comments", () => {
+    const cst = parseCST(HAND_WRITTEN);
+    const lines = cstLines(cst);
+
+    const siteName = lines.find((l) => l.key?.text === "Site-Name")!;
+    expect(siteName.range.start.line).toBe(5);
+    expect(siteName.key!.range.start.column).toBe(1);
+    expect(siteName.key!.range.end.column).toBe(10);
+    expect(siteName.value!.text).toBe("News Daily");
+    expect(siteName.value!.range.start.column).toBe(14);
+    expect(HAND_WRITTEN.slice(siteName.value!.range.start.offset, siteName.value!.range.end.offset)).toBe("News Daily");
+
+    const comment = lines[1];
+    expect(comment.kind).toBe("comment");
+    expect(comment.comment!.text).toBe("# Reviewed by legal 2026-01-15 - do not change without sign-off");
+  });
+
+  it("preserves key casing", () => {
+    const lines = cstLines(parseCST(HAND_WRITTEN));
+    expect(lines.some((l) => l.key?.text === "spec-version")).toBe(true);
+  });
+
+  it("groups indented lines into agent blocks", () => {
+    const cst = parseCST(HAND_WRITTEN);
+    const blocks = cst.children.filter((n): n is CstAgentBlock => n.kind === "agent");
+    expect(blocks.map((b) => b.name)).toEqual(["*", "ClaudeBot"]);
+
+    const claude = blocks[1];
+    expect(claude.children.map((l) => l.kind)).toEqual(["comment", "field", "blank", "field"]);
+    expect(claude.children[3].key!.text).toBe("Rate-Limit");
+  });
+
+  it("groups consecutive Agent lines into one block", () => {
+    const cst = parseCST("Agent: GPTBot, ChatGPT-User\nAgent: CCBot\n  Training: deny\nAgent: ClaudeBot\n\nAgent: Bytespider\n");
+    const blocks = cst.children.filter((n): n is CstAgentBlock => n.kind === "agent");
+    expect(blocks.map((b) => b.names)).toEqual([["GPTBot", "ChatGPT-User", "CCBot"], ["ClaudeBot"], ["Bytespider"]]);
+    expect(blocks[0].name).toBe("GPTBot, ChatGPT-User");
+  });
+
+  it("keeps comments before a block at the top level", () => {
+    const cst = parseCST(HAND_WRITTEN);
+    const idx = cst.children.findIndex((n) => n.kind === "agent" && n.name === "ClaudeBot");
+    const before = cst.children[idx - 1] as CstLine;
+    expect(before.kind).toBe("comment");
+    expect(before.comment!.text).toContain("signed agreement");
+  });
+
+  it("marks unparseable lines as invalid", () => {
+    const lines = cstLines(parseCST("Site-Name: A\ngarbage line\n"));
+    expect(lines[1].kind).toBe("invalid");
+  });
+});
+
+describe("AiTxtEditor", () => {
+  it("changes only the edited line when setting a policy", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.setPolicy("training", "conditional");
+    const output = editor.toString();
+
+    expect(changedLines(HAND_WRITTEN, output)).toEqual([9]);
+    expect(output).toContain("Training: conditional");
+    expect(output).toContain("# Training is off until the licensing deal closes");
+  });
+
+  it("preserves spacing around the value it rewrites", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.set("site-name", "News Daily International");
+    expect(editor.toString()).toContain("Site-Name:   News Daily International\n");
+  });
+
+  it("sets a policy inside an existing agent block", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.setPolicy("training", "deny", { agent: "claudebot" });
+    const output = editor.toString();
+
+    expect(changedLines(HAND_WRITTEN, output)).toEqual([18]);
+    expect(editor.toDocument().document!.agents["claudebot"].training).toBe("deny");
+  });
+
+  it("adds a missing field to an agent block after its last field", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.setPolicy("scraping", "deny", { agent: "ClaudeBot" });
+    const output = editor.toString();
+
+    expect(output).toContain("  Rate-Limit: 120/minute\n  Scraping: deny\n\nAttribution: required");
+    expect(editor.toDocument().document!.agents["claudebot"].scraping).toBe("deny");
+  });
+
+  it("inserts a missing top-level field next to related fields", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.setPolicy("indexing", "deny");
+    expect(editor.toString()).toContain("Scraping: allow\nIndexing: deny\n");
+  });
+
+  it("adds an agent block after the existing blocks", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.addAgent("GPTBot", { training: "deny", scraping: "deny" });
+    const output = editor.toString();
+
+    expect(output).toContain("  Rate-Limit: 120/minute\nAgent: GPTBot\n  Training: deny\n  Scraping: deny\n");
+    expect(output.startsWith(HAND_WRITTEN.split("Attribution")[0].trimEnd())).toBe(true);
+
+    const doc = editor.toDocument().document!;
+    expect(doc.agents["gptbot"]).toEqual({ training: "deny", scraping: "deny" });
+    expect(doc.agents["claudebot"].training).toBe("allow");
+  });
+
+  it("creates the first agent block before trailing sections", () => {
+    const editor = new AiTxtEditor("Site-Name: A\nSite-URL: https://a.com\n\nAttribution: required\n");
+    editor.setPolicy("training", "allow", { agent: "ClaudeBot" });
+    expect(editor.toString()).toBe(
+      "Site-Name: A\nSite-URL: https://a.com\n\nAgent: ClaudeBot\n  Training: allow\n\nAttribution: required\n",
+    );
+  });
+
+  it("removes an agent block but keeps surrounding comments", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.removeAgent("ClaudeBot");
+    const output = editor.toString();
+
+    expect(output).not.toContain("Agent: ClaudeBot");
+    expect(output).not.toContain("Covered by the 2026 agreement");
+    expect(output).toContain("# ClaudeBot has a signed agreement");
+    expect(output).toContain("Attribution: required");
+  });
+
+  it("splits one agent out of a group before editing it", () => {
+    const editor = new AiTxtEditor("Site-Name: A\nSite-URL: https://a.com\n\nAgent: GPTBot, ChatGPT-User\n  Training: deny\n");
+    editor.setPolicy("scraping", "deny", { agent: "chatgpt-user" });
+    expect(editor.toString()).toBe(
+      "Site-Name: A\nSite-URL: https://a.com\n\nAgent: GPTBot\n  Training: deny\nAgent: chatgpt-user\n  Training: deny\n  Scraping: deny\n",
+    );
+    const agents = editor.toDocument().document!.agents;
+    expect(agents["gptbot"]).toEqual({ training: "deny" });
+    expect(agents["chatgpt-user"]).toEqual({ training: "deny", scraping: "deny" });
+  });
+
+  it("removes one agent from a group", () => {
+    const editor = new AiTxtEditor("Agent: GPTBot, ChatGPT-User\nAgent: CCBot\n  Training: deny\n");
+    editor.removeAgent("ChatGPT-User");
+    expect(editor.toString()).toBe("Agent: GPTBot\nAgent: CCBot\n  Training: deny\n");
+    editor.removeAgent("GPTBot");
+    expect(editor.toString()).toBe("Agent: CCBot\n  Training: deny\n");
+  });
+
+  it("separates a new block from a header-only block", () => {
+    const editor = new AiTxtEditor("Site-Name: A\nSite-URL: https://a.com\n\nAgent: *\n");
+    editor.addAgent("GPTBot", { training: "deny" });
+    expect(editor.toString()).toBe("Site-Name: A\nSite-URL: https://a.com\n\nAgent: *\n\nAgent: GPTBot\n  Training: deny\n");
+    expect(editor.toDocument().document!.agents["*"]).toEqual({});
+  });
+
+  it("sets purpose policies next to the content policies", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.setPolicy("train-genai", "deny").setPolicy("train-ai", "allow");
+    const output = editor.toString();
+    expect(output).toContain("Training: allow\nScraping: allow\nTrain-GenAI: deny\n");
+    expect(output).not.toContain("Train-AI");
+    expect(editor.toDocument().document!.purposes).toEqual({ "train-genai": "deny" });
+  });
+
+  it("adds and removes repeatable fields", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.add("Training-Deny", "/premium/**").add("Training-Deny", "/private/**");
+    expect(editor.toDocument().document!.trainingPaths?.deny).toEqual(["/premium/**", "/private/**"]);
+
+    editor.remove("training-deny", { value: "/premium/**" });
+    expect(editor.toDocument().document!.trainingPaths?.deny).toEqual(["/private/**"]);
+  });
+
+  it("keeps CRLF line endings and a missing final newline", () => {
+    const input = "Site-Name: A\r\nSite-URL: https://a.com\r\nTraining: deny";
+    const editor = new AiTxtEditor(input);
+    editor.setPolicy("training", "allow").set("Attribution", "required");
+    expect(editor.toString()).toBe("Site-Name: A\r\nSite-URL: https://a.com\r\nTraining: allow\r\nAttribution: required");
+  });
+
+  it("sanitizes values to prevent newline injection", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.set("Description", "Line one\nTraining: allow");
+    expect(editor.toDocument().document!.policies.training).toBe("deny");
+  });
+
+  it("rejects invalid policy values", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    expect(() => editor.setPolicy("training", "maybe" as any)).toThrow(RangeError);
+  });
+
+  it("edits jurisdiction sections and creates missing ones after the agent blocks", () => {
+    const editor = new AiTxtEditor(HAND_WRITTEN);
+    editor.setPolicy("training", "deny", { jurisdiction: "eu" }).set("TDM-Reservation", "yes", { jurisdiction: "EU" });
+    editor.setPolicy("training", "allow", { jurisdiction: "US" });
+    const output = editor.toString();
+    expect(output).toContain("\nJurisdiction: EU\n  Training: deny\n  TDM-Reservation: yes\n\nJurisdiction: US\n  Training: allow\n");
+    expect(output.indexOf("Jurisdiction: EU")).toBeGreaterThan(output.indexOf("Agent: ClaudeBot"));
+    expect(editor.get("training", { jurisdiction: "EU" })).toBe("deny");
+    expect(editor.toDocument().document!.jurisdictions).toEqual({
+      EU: { training: "deny", tdmReservation: true },
+      US: { training: "allow" },
+    });
+
+    editor.remove("TDM-Reservation", { jurisdiction: "EU" });
+    expect(editor.toDocument().document!.jurisdictions!.EU).toEqual({ training: "deny" });
+    expect(parseCST(editor.toString()).children.filter((n) => n.kind === "jurisdiction")).toHaveLength(2);
+    expect(() => editor.get("training", { jurisdiction: "Europe" })).toThrow(RangeError);
+    expect(() => editor.get("training", { agent: "GPTBot", jurisdiction: "EU" })).toThrow(RangeError);
+  });
+
+  it("is a no-op when nothing is edited", () => {
+    expect(new AiTxtEditor(HAND_WRITTEN).toString()).toBe(HAND_WRITTEN);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { formatCodeFrame, formatDiagnostics, DIAGNOSTIC_CODES } from "../src/diagnostics.js";
+import { parse } from "../src/parser.js";
+import type { ParseDiagnosticCode } from "../src/types.js";
+
+const SOURCE = `Site-Name: Test
+Site-URL: https://test.com
+Training: maybe
+Scraping: allow
+`;
+
+describe("formatCodeFrame", () => {
+  it("underlines the offending text", () => {
+    const result = parse(SOURCE);
+    const frame = formatCodeFrame(SOURCE, result.warnings[0], { severity: "warning" });
+    expect(frame).toBe([
+      "warning[INVALID_POLICY_VALUE]: Invalid policy value: maybe",
+      " --> ai.txt:3:11",
+      "  |",
+      "2 | Site-URL: https://test.com",
+      "3 | Training: maybe",
+      "  |           ^^^^^",
+      "4 | Scraping: allow",
+    ].join("\n"));
+  });
+
+  it("uses the given filename and context size", () => {
+    const frame = formatCodeFrame(SOURCE, { line: 1, column: 1, endColumn: 10, message: "msg", code: "X" }, {
+      filename: "public/.well-known/ai.txt",
+      contextLines: 0,
+    });
+    expect(frame).toBe([
+      "error[X]: msg",
+      " --> public/.well-known/ai.txt:1:1",
+      "  |",
+      "1 | Site-Name: Test",
+      "  | ^^^^^^^^^",
+    ].join("\n"));
+  });
+
+  it("widens the gutter for multi-digit line numbers", () => {
+    const source = Array.from({ length: 10 }, (_, i) => `Key-${i + 1}: v`).join("\n");
+    const frame = formatCodeFrame(source, { line: 10, column: 9, endColumn: 10, message: "m" }, { contextLines: 1 });
+    expect(frame.split("\n").slice(1)).toEqual([
+      "  --> ai.txt:10:9",
+      "   |",
+      " 9 | Key-9: v",
+      "10 | Key-10: v",
+      "   |         ^",
+    ]);
+  });
+
+  it("keeps tabs so carets line up", () => {
+    const source = "Agent: bot\n\tTraining: nope\n";
+    const warning = parse(`Site-Name: T\nSite-URL: https://t.com\n${source}`).warnings[0];
+    const frame = formatCodeFrame(`Site-Name: T\nSite-URL: https://t.com\n${source}`, warning, { contextLines: 0 });
+    expect(frame.split("\n").slice(-1)[0]).toBe("  | \t          ^^^^");
+  });
+
+  it("omits the frame when there is no line", () => {
+    const frame = formatCodeFrame(SOURCE, { message: "Site-URL is required", code: "MISSING_REQUIRED_FIELD" });
+    expect(frame).toBe("error[MISSING_REQUIRED_FIELD]: Site-URL is required\n --> ai.txt");
+  });
+});
+
+describe("formatDiagnostics", () => {
+  it("formats errors before warnings", () => {
+    const source = "Training: maybe\n";
+    const output = formatDiagnostics(source, parse(source));
+    const headers = output.split("\n").filter((l) => /^(error|warning)/.test(l));
+    expect(headers).toEqual([
+      "error[MISSING_REQUIRED_FIELD]: Site-Name is required",
+      "error[MISSING_REQUIRED_FIELD]: Site-URL is required",
+      "warning[INVALID_POLICY_VALUE]: Invalid policy value: maybe",
+    ]);
+  });
+});
+
+describe("DIAGNOSTIC_CODES", () => {
+  it("documents every parser code", () => {
+    const codes: ParseDiagnosticCode[] = [
+      "MISSING_REQUIRED_FIELD",
+      "INVALID_JSON",
+      "SCHEMA_VIOLATION",
+      "UNPARSEABLE_LINE",
+      "INDENT_OUTSIDE_BLOCK",
+      "UNKNOWN_AGENT_FIELD",
+      "EMPTY_AGENT_NAME",
+      "INVALID_POLICY_VALUE",
+      "INVALID_REQUIREMENT_LEVEL",
+      "INVALID_RATE_LIMIT",
+    ];
+    for (const code of codes) {
+      expect(DIAGNOSTIC_CODES[code]).toBeTruthy();
+    }
+  });
+});
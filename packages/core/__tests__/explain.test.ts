@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { explain, formatTrace } from "../src/explain.js";
+import { canAccess, resolve } from "../src/resolver.js";
+import { parse } from "../src/parser.js";
+import type { PolicyField } from "../src/types.js";
+
+const SOURCE = `Site-Name: Trace
+Site-URL: https://trace.example
+Training: conditional
+Training-Deny: /blog/**
+Training-Allow: /blog/open/*
+Indexing: conditional
+Indexing-Allow: /docs/**
+
+Agent: *
+  Rate-Limit: 30/minute
+  Caching: deny
+
+Agent: GPTBot
+  Indexing: conditional
+  Indexing-Deny: /docs/internal/**
+`;
+
+const parsed = parse(SOURCE);
+const DOC = parsed.document!;
+const opts = { defaulted: parsed.defaulted };
+
+describe("explain", () => {
+  it("reports the layer that supplied each value", () => {
+    const trace = explain(DOC, "GPTBot", "indexing", undefined, opts);
+    expect(trace.agentBlock).toBe("gptbot");
+    expect(trace.values.indexing).toEqual({ value: "conditional", layer: "agent" });
+    expect(trace.values.indexingPaths).toEqual({ value: { allow: [], deny: ["/docs/internal/**"] }, layer: "agent" });
+    expect(trace.values.caching).toEqual({ value: "deny", layer: "wildcard" });
+    expect(trace.values.training).toEqual({ value: "conditional", layer: "site" });
+    expect(trace.values.trainingPaths?.layer).toBe("site");
+    expect(trace.values.rateLimit).toEqual({ value: { requests: 30, window: "minute" }, layer: "wildcard" });
+  });
+
+  it("marks values the parser defaulted", () => {
+    expect(parsed.defaulted).toEqual(["scraping", "caching"]);
+    expect(explain(DOC, "GPTBot", "scraping", undefined, opts).values.scraping).toEqual({ value: "allow", layer: "default" });
+    // Without the parse result's list, a defaulted value looks site-wide
+    expect(explain(DOC, "GPTBot", "scraping").values.scraping.layer).toBe("site");
+  });
+
+  it("lists every evaluated pattern with its outcome", () => {
+    const trace = explain(DOC, "OtherBot", "training", "/blog/open/post");
+    expect(trace.agentBlock).toBeUndefined();
+    expect(trace.evaluated).toEqual([
+      { type: "deny", pattern: "/blog/**", specificity: 6, matched: true, outcome: "overridden" },
+      { type: "allow", pattern: "/blog/open/*", specificity: 11, matched: true, outcome: "decided" },
+    ]);
+  });
+
+  it("records the normalized path and unmatched patterns", () => {
+    const trace = explain(DOC, "GPTBot", "indexing", "https://trace.example/docs/./guide?x=1");
+    expect(trace.normalizedPath).toBe("/docs/guide");
+    expect(trace.evaluated).toEqual([
+      { type: "deny", pattern: "/docs/internal/**", specificity: 15, matched: false, outcome: "no-match" },
+    ]);
+    expect(trace.result.allowed).toBe(false);
+  });
+
+  it("marks matches as not consulted when the value is plain allow or deny", () => {
+    const doc = { ...DOC, policies: { ...DOC.policies, training: "deny" as const } };
+    const trace = explain(doc, "OtherBot", "training", "/blog/open/post");
+    expect(trace.evaluated).toEqual([
+      { type: "deny", pattern: "/blog/**", specificity: 6, matched: true, outcome: "not-consulted" },
+      { type: "allow", pattern: "/blog/open/*", specificity: 11, matched: true, outcome: "not-consulted" },
+    ]);
+    expect(trace.result).toEqual({ allowed: false, reason: "training is denied" });
+  });
+
+  it("agrees with resolve() and canAccess()", () => {
+    const fields: PolicyField[] = ["training", "scraping", "indexing", "caching"];
+    for (const agent of ["GPTBot", "Mozilla/5.0 (compatible; GPTBot/1.2)", "OtherBot", "*"]) {
+      const resolved = resolve(DOC, agent);
+      for (const field of fields) {
+        for (const path of [undefined, "/blog/x", "/blog/open/x", "/docs/internal/a", "/docs/a"]) {
+          const trace = explain(DOC, agent, field, path);
+          expect(trace.result).toEqual(canAccess(DOC, agent, field, path));
+          expect(trace.values[field].value).toBe(resolved[field]);
+          expect(trace.values[`${field}Paths`]?.value).toEqual(resolved[`${field}Paths`]);
+        }
+      }
+    }
+  });
+});
+
+describe("explain (purposes)", () => {
+  const doc = parse(`Site-Name: Purposes
+Site-URL: https://purposes.example
+Training: allow
+AI-Input: conditional
+AI-Input-Allow: /docs/**
+
+Agent: GPTBot
+  Train-GenAI: deny
+`).document!;
+
+  it("traces a declared purpose and one inherited from a broader purpose", () => {
+    expect(explain(doc, "GPTBot", "train-genai").values.purposes["train-genai"]).toEqual({ value: "deny", layer: "agent" });
+    expect(explain(doc, "OtherBot", "train-genai").values.purposes["train-genai"])
+      .toEqual({ value: "allow", layer: "site", inheritedFrom: "training" });
+  });
+
+  it("resolves aliases and checks purpose path rules", () => {
+    const alias = explain(doc, "GPTBot", "train-ai");
+    expect(alias.field).toBe("train-ai");
+    expect(alias.purpose).toBe("training");
+    expect(alias.result).toEqual(canAccess(doc, "GPTBot", "train-ai"));
+
+    const trace = explain(doc, "GPTBot", "ai-input", "/docs/a");
+    expect(trace.values.purposePaths?.["ai-input"]).toEqual({ value: { allow: ["/docs/**"], deny: [] }, layer: "site" });
+    expect(trace.evaluated).toEqual([{ type: "allow", pattern: "/docs/**", specificity: 6, matched: true, outcome: "decided" }]);
+    expect(trace.result.allowed).toBe(true);
+  });
+
+  it("agrees with resolve() and canAccess()", () => {
+    for (const agent of ["GPTBot", "OtherBot"]) {
+      const resolved = resolve(doc, agent);
+      for (const purpose of ["train-genai", "ai-input", "search"]) {
+        for (const path of [undefined, "/docs/a", "/blog/x"]) {
+          const trace = explain(doc, agent, purpose, path);
+          expect(trace.result).toEqual(canAccess(doc, agent, purpose, path));
+          if (purpose !== "search") expect(trace.values.purposes[purpose].value).toBe(resolved.purposes[purpose]);
+        }
+      }
+    }
+  });
+
+  it("rejects unregistered purposes like canAccess()", () => {
+    expect(() => explain(doc, "GPTBot", "train-robots")).toThrow(RangeError);
+  });
+});
+
+describe("formatTrace", () => {
+  it("renders the trace as text", () => {
+    const trace = explain(DOC, "GPTBot", "indexing", "/docs/internal/./a", opts);
+    expect(formatTrace(trace)).toBe(
+      [
+        'indexing for "GPTBot": denied',
+        "  Agent block: gptbot",
+        "  Indexing: conditional (agent block)",
+        "  Indexing paths: 0 allow, 1 deny (agent block)",
+        "  Path: /docs/internal/./a (normalized: /docs/internal/a)",
+        "    deny   /docs/internal/**  matched (specificity 15) - decided",
+        '  Reason: path "/docs/internal/./a" matches deny pattern "/docs/internal/**"',
+      ].join("\n"),
+    );
+  });
+
+  it("labels family pattern blocks", () => {
+    const doc = parse("Site-Name: T\nSite-URL: https://t.example\nAgent: Google-*\n  Training: deny\n").document!;
+    expect(formatTrace(explain(doc, "Google-Extended", "training"))).toContain("Agent block: google-* (pattern)");
+  });
+
+  it("names the purpose a value was inherited from", () => {
+    const doc = parse("Site-Name: T\nSite-URL: https://t.example\nTraining: deny\n").document!;
+    expect(formatTrace(explain(doc, "GPTBot", "train-genai"))).toContain("Train-GenAI: deny (site-wide, from Training)");
+  });
+
+  it("explains defaults and missing agent blocks", () => {
+    const text = formatTrace(explain(DOC, "OtherBot", "scraping", undefined, opts));
+    expect(text).toContain("Agent block: none (Agent: * and site-wide rules apply)");
+    expect(text).toContain("Scraping: allow (default - not set in the file)");
+  });
+});
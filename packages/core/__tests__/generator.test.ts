@@ -120,4 +120,41 @@ describe("generate", () => {
     const output = generate(TEST_DOC);
     expect(output.endsWith("\n")).toBe(true);
   });
+
+  it("generates scraping, indexing and caching path rules", () => {
+    const doc: AiTxtDocument = {
+      ...TEST_DOC,
+      trainingPaths: undefined,
+      indexingPaths: { allow: ["/products/**"], deny: [] },
+      cachingPaths: { allow: [], deny: ["/cart/**"] },
+      agents: { GPTBot: { scrapingPaths: { allow: ["/docs/**"], deny: [] } } },
+    };
+    const output = generate(doc);
+    expect(output).toContain("Indexing-Allow: /products/**\nCaching-Deny: /cart/**\n");
+    expect(output).toContain("Agent: GPTBot\n  Scraping-Allow: /docs/**\n");
+    expect(output).not.toContain("Training-Allow");
+  });
+
+  it("groups agents with identical blocks", () => {
+    const doc: AiTxtDocument = {
+      ...TEST_DOC,
+      agents: {
+        "*": {},
+        GPTBot: { training: "deny" },
+        ClaudeBot: { training: "allow" },
+        "ChatGPT-User": { training: "deny" },
+      },
+    };
+    const output = generate(doc);
+    expect(output).toContain("Agent: *\n\nAgent: GPTBot, ChatGPT-User\n  Training: deny\nAgent: ClaudeBot\n  Training: allow\n");
+  });
+
+  it("generates per-agent training paths inside the agent block", () => {
+    const doc: AiTxtDocument = {
+      ...TEST_DOC,
+      agents: { ClaudeBot: { training: "conditional", trainingPaths: { allow: ["/docs/**"], deny: ["/forum/**"] } } },
+    };
+    const output = generate(doc);
+    expect(output).toContain("Agent: ClaudeBot\n  Training: conditional\n  Training-Allow: /docs/**\n  Training-Deny: /forum/**\n");
+  });
 });
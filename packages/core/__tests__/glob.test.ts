@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { compileGlob, globMatch, normalizePath, patternSpecificity } from "../src/glob.js";
+
+// -- normalizePath --
+
+describe("normalizePath", () => {
+  it("strips scheme, host, query and fragment", () => {
+    expect(normalizePath("https://example.com/blog/post?utm=x#top")).toBe("/blog/post");
+    expect(normalizePath("https://example.com")).toBe("/");
+    expect(normalizePath("")).toBe("/");
+  });
+
+  it("keeps the query when asked", () => {
+    expect(normalizePath("/search?q=cats#r", { keepQuery: true })).toBe("/search?q=cats");
+  });
+
+  it("resolves dot segments", () => {
+    expect(normalizePath("/a/./b/../c")).toBe("/a/c");
+    expect(normalizePath("/a/b/..")).toBe("/a/");
+    expect(normalizePath("/../../etc")).toBe("/etc");
+  });
+
+  it("decodes percent-escapes, including encoded dot segments", () => {
+    expect(normalizePath("/caf%C3%A9/%7Euser")).toBe("/café/~user");
+    expect(normalizePath("/public/%2e%2e/private")).toBe("/private");
+  });
+
+  it("keeps escapes that would change the path's shape", () => {
+    expect(normalizePath("/a%2fb")).toBe("/a%2Fb");
+    expect(normalizePath("/100%25")).toBe("/100%25");
+    expect(normalizePath("/bad%ff")).toBe("/bad%FF");
+  });
+});
+
+// -- Extended syntax --
+
+describe("globMatch extended syntax", () => {
+  it("? matches exactly one non-slash character", () => {
+    expect(globMatch("/v1/api", "/v?/api")).toBe(true);
+    expect(globMatch("/v10/api", "/v?/api")).toBe(false);
+    expect(globMatch("///api", "/?/api")).toBe(false);
+  });
+
+  it("supports character classes, ranges and negation", () => {
+    expect(globMatch("/page-3", "/page-[0-9]")).toBe(true);
+    expect(globMatch("/page-x", "/page-[0-9]")).toBe(false);
+    expect(globMatch("/page-x", "/page-[!0-9]")).toBe(true);
+    expect(globMatch("/a]b", "/a[]]b")).toBe(true);
+  });
+
+  it("supports brace alternation, including nested syntax", () => {
+    expect(globMatch("/img/cat.png", "/img/*.{png,jpg}")).toBe(true);
+    expect(globMatch("/img/cat.gif", "/img/*.{png,jpg}")).toBe(false);
+    expect(globMatch("/docs/a/b", "/{docs/**,api/*}")).toBe(true);
+    expect(globMatch("/api/a/b", "/{docs/**,api/*}")).toBe(false);
+  });
+
+  it("treats unclosed brackets and braces literally", () => {
+    expect(globMatch("/a[b", "/a[b")).toBe(true);
+    expect(globMatch("/a{b", "/a{b")).toBe(true);
+  });
+
+  it("honours escapes", () => {
+    expect(globMatch("/what*", "/what\\*")).toBe(true);
+    expect(globMatch("/whatever", "/what\\*")).toBe(false);
+  });
+
+  it("tolerates a trailing slash unless anchored with $", () => {
+    expect(globMatch("/about/", "/about")).toBe(true);
+    expect(globMatch("/about/", "/about$")).toBe(false);
+    expect(globMatch("/about", "/about$")).toBe(true);
+    expect(globMatch("/report.pdf", "/*.pdf$")).toBe(true);
+    expect(globMatch("/report.pdf.html", "/*.pdf$")).toBe(false);
+  });
+
+  it("lets a trailing /** match the directory itself", () => {
+    expect(globMatch("/private", "/private/**")).toBe(true);
+    expect(globMatch("/private/", "/private/**")).toBe(true);
+    expect(globMatch("/privateer", "/private/**")).toBe(false);
+  });
+
+  it("normalizes paths and pattern escapes before matching", () => {
+    expect(globMatch("https://site.com/blog/./post?page=2", "/blog/*")).toBe(true);
+    expect(globMatch("/public/../private/x", "/private/*")).toBe(true);
+    expect(globMatch("/%7Euser/home", "/~user/*")).toBe(true);
+    expect(globMatch("/~user/home", "/%7Euser/*")).toBe(true);
+  });
+
+  it("matches the query only when it is kept", () => {
+    expect(globMatch("/search?q=1", "/search")).toBe(true);
+    expect(globMatch("/search?q=1", "/search\\?q=*", { keepQuery: true })).toBe(true);
+    expect(globMatch("/search", "/search\\?q=*", { keepQuery: true })).toBe(false);
+  });
+});
+
+// -- compileGlob --
+
+describe("compileGlob", () => {
+  it("caches compiled patterns", () => {
+    expect(compileGlob("/cached/**")).toBe(compileGlob("/cached/**"));
+  });
+
+  it("tests pre-normalized paths", () => {
+    const glob = compileGlob("/blog/**");
+    expect(glob.test("/blog/a/b")).toBe(true);
+    expect(glob.regex.test("/other")).toBe(false);
+  });
+
+  it("compiles invalid patterns to a rule that never matches", () => {
+    const glob = compileGlob("/[z-a]");
+    expect(glob.error).toBe("Invalid character class range: z-a");
+    expect(glob.test("/m")).toBe(false);
+    expect(compileGlob("/{a,[9-0]}").error).toBe("Invalid character class range: 9-0");
+    expect(compileGlob("/[a\\-z]").test("/-")).toBe(true);
+    expect(compileGlob("/[a-z]").error).toBeUndefined();
+  });
+
+  it("counts classes as one character and braces as the shortest alternative", () => {
+    expect(patternSpecificity("/page-[0-9]")).toBe(7);
+    expect(patternSpecificity("/img/*.{png,jpeg}")).toBe(9);
+    expect(patternSpecificity("/v?/api$")).toBe(6);
+  });
+});
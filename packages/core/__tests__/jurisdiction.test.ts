@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { isEuJurisdiction, matchJurisdiction, normalizeJurisdiction } from "../src/jurisdiction.js";
+import { canAccess, resolve } from "../src/resolver.js";
+import { compilePolicy } from "../src/policy.js";
+import { explain, formatTrace } from "../src/explain.js";
+import { parse } from "../src/parser.js";
+import { parseJSON } from "../src/parser-json.js";
+import { generate } from "../src/generator.js";
+import { generateJSON } from "../src/generator-json.js";
+import { validate } from "../src/validator.js";
+
+const DOC = parse(`Site-Name: Regional
+Site-URL: https://regional.example
+
+Training: allow
+Training-License: CC-BY-4.0
+TDM-Reservation: no
+
+Agent: GPTBot
+  Scraping: deny
+
+Jurisdiction: EU
+  Training: conditional
+  Training-Allow: /open/**
+  TDM-Reservation: yes
+
+Jurisdiction: US-CA
+  Indexing: deny
+`).document!;
+
+// -- Codes --
+
+describe("jurisdiction codes", () => {
+  it("normalizes country, subdivision and EU codes", () => {
+    expect(normalizeJurisdiction(" de ")).toBe("DE");
+    expect(normalizeJurisdiction("us-ca")).toBe("US-CA");
+    expect(normalizeJurisdiction("Europe")).toBeNull();
+    expect(isEuJurisdiction("FR-75")).toBe(true);
+    expect(isEuJurisdiction("CH")).toBe(false);
+  });
+
+  it("matches the most specific section", () => {
+    const sections = ["EU", "US", "US-CA"];
+    expect(matchJurisdiction("us-ca", sections)).toBe("US-CA");
+    expect(matchJurisdiction("US-NY", sections)).toBe("US");
+    expect(matchJurisdiction("DE", sections)).toBe("EU");
+    expect(matchJurisdiction("DE", ["DE", "EU"])).toBe("DE");
+    expect(matchJurisdiction("CH", sections)).toBeUndefined();
+    expect(matchJurisdiction("nowhere", sections)).toBeUndefined();
+  });
+});
+
+// -- Parsing --
+
+describe("jurisdiction sections", () => {
+  it("parses sections and the TDM reservation", () => {
+    expect(DOC.tdmReservation).toBe(false);
+    expect(DOC.jurisdictions).toEqual({
+      EU: { training: "conditional", trainingPaths: { allow: ["/open/**"], deny: [] }, tdmReservation: true },
+      "US-CA": { indexing: "deny" },
+    });
+  });
+
+  it("reports invalid codes, reservations and fields", () => {
+    const result = parse(`Site-Name: A
+Site-URL: https://a.example
+TDM-Reservation: maybe
+Jurisdiction: Europe
+  Training: deny
+Jurisdiction: EU
+  Rate-Limit: 10/minute
+`);
+    expect(result.warnings.map((w) => w.code)).toEqual([
+      "INVALID_TDM_RESERVATION",
+      "INVALID_JURISDICTION",
+      "INDENT_OUTSIDE_BLOCK",
+      "UNKNOWN_JURISDICTION_FIELD",
+    ]);
+    expect(result.document!.jurisdictions).toEqual({ EU: {} });
+  });
+});
+
+// -- Resolution --
+
+describe("jurisdiction resolution", () => {
+  it("applies the caller's section between the agent block and the wildcard", () => {
+    expect(resolve(DOC, "AnyBot")).toMatchObject({ training: "allow", tdmReservation: false });
+    expect(resolve(DOC, "AnyBot").jurisdiction).toBeUndefined();
+
+    const eu = resolve(DOC, "AnyBot", { jurisdiction: "de" });
+    expect(eu).toMatchObject({ jurisdiction: "EU", training: "conditional", tdmReservation: true });
+    expect(resolve(DOC, "GPTBot", { jurisdiction: "DE" }).scraping).toBe("deny");
+    expect(resolve(DOC, "AnyBot", { jurisdiction: "US-CA" })).toMatchObject({ indexing: "deny", tdmReservation: false });
+  });
+
+  it("checks access against the section's path rules", () => {
+    expect(canAccess(DOC, "AnyBot", "training", "/blog/post").allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "training", "/blog/post", { jurisdiction: "FR" }).allowed).toBe(false);
+    expect(canAccess(DOC, "AnyBot", "training", "/open/data", { jurisdiction: "FR" }).allowed).toBe(true);
+  });
+
+  it("gives compiled policies the same answers", () => {
+    const compiled = compilePolicy(DOC);
+    for (const jurisdiction of [undefined, "EU", "DE", "US-CA", "US", "CH"]) {
+      for (const agent of ["AnyBot", "GPTBot"]) {
+        expect(compiled.policyFor(agent, { jurisdiction })).toEqual(resolve(DOC, agent, { jurisdiction }));
+        for (const field of ["training", "scraping", "indexing"]) {
+          for (const path of [undefined, "/open/a", "/blog"]) {
+            expect(compiled.decide(agent, field, path, { jurisdiction })).toEqual(
+              canAccess(DOC, agent, field, path, { jurisdiction }),
+            );
+          }
+        }
+      }
+    }
+  });
+
+  it("traces the jurisdiction layer", () => {
+    const trace = explain(DOC, "AnyBot", "training", "/open/a", { jurisdiction: "IT" });
+    expect(trace.jurisdiction).toBe("EU");
+    expect(trace.values.training).toEqual({ value: "conditional", layer: "jurisdiction" });
+    expect(trace.values.scraping.layer).toBe("site");
+    expect(formatTrace(trace)).toContain("Jurisdiction: EU");
+  });
+});
+
+// -- Formats --
+
+describe("jurisdiction formats", () => {
+  it("round-trips through text and JSON", () => {
+    const text = generate(DOC);
+    expect(text).toContain("TDM-Reservation: no\n");
+    expect(text).toContain("Jurisdiction: EU\n  TDM-Reservation: yes\n  Training: conditional\n  Training-Allow: /open/**\n");
+    expect(parse(text).document).toEqual({ ...DOC, generatedAt: undefined });
+    expect(parseJSON(generateJSON(DOC)).document).toEqual(JSON.parse(generateJSON(DOC)));
+  });
+
+  it("normalizes section codes in JSON", () => {
+    const doc = parseJSON(JSON.stringify({
+      specVersion: "1.0",
+      site: { name: "A", url: "https://a.example" },
+      policies: { training: "allow", scraping: "allow", indexing: "allow", caching: "allow" },
+      agents: {},
+      jurisdictions: { eu: { purposes: { "Train-AI": "deny" }, tdmReservation: true } },
+    })).document!;
+    expect(doc.jurisdictions).toEqual({ EU: { training: "deny", tdmReservation: true } });
+  });
+});
+
+// -- Validation --
+
+describe("jurisdiction validation", () => {
+  it("warns when an EU section allows training without a reservation declaration", () => {
+    const doc = parse(`Site-Name: A
+Site-URL: https://a.example
+Training: allow
+Training-License: MIT
+
+Jurisdiction: EU
+  Indexing: deny
+
+Jurisdiction: DE
+  Training: deny
+
+Jurisdiction: US
+  Training: allow
+`).document!;
+    expect(validate(doc).warnings).toEqual([
+      {
+        path: "jurisdictions.EU.tdmReservation",
+        message: "Jurisdiction EU allows training but does not declare TDM-Reservation",
+        code: "MISSING_TDM_RESERVATION",
+      },
+    ]);
+    expect(validate({ ...doc, tdmReservation: false }).warnings).toEqual([]);
+    expect(validate(DOC).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { isPrivateAddress, unsafeTarget, contentTypeMatches, readBody } from "../src/network.js";
+
+describe("isPrivateAddress", () => {
+  it("recognizes loopback, private and link-local addresses", () => {
+    for (const ip of ["127.0.0.1", "10.1.2.3", "172.31.255.255", "192.168.0.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    for (const ip of ["8.8.8.8", "172.32.0.1", "2606:4700::1111", "example.com"]) {
+      expect(isPrivateAddress(ip), ip).toBe(false);
+    }
+  });
+});
+
+describe("unsafeTarget", () => {
+  const policy = { devHosts: [] };
+  const check = (url: string, options: Parameters<typeof unsafeTarget>[1] = policy) => unsafeTarget(new URL(url), options);
+
+  it("requires HTTPS and a public host", async () => {
+    expect(await check("https://example.com/.well-known/ai.txt")).toBeNull();
+    expect(await check("http://example.com/")).toBe("http://example.com/ is not HTTPS");
+    expect(await check("https://localhost/")).toBe("localhost is a private or loopback address");
+    expect(await check("https://app.localhost/")).toBe("app.localhost is a private or loopback address");
+    expect(await check("https://[::1]/")).toBe("::1 is a private or loopback address");
+    // The URL parser normalizes other spellings of 127.0.0.1
+    expect(await check("https://2130706433/")).toBe("127.0.0.1 is a private or loopback address");
+    expect(await check("https://0x7f.1/")).toBe("127.0.0.1 is a private or loopback address");
+  });
+
+  it("exempts development hosts", async () => {
+    expect(await check("http://localhost:3000/", { devHosts: ["localhost"] })).toBeNull();
+    expect(await check("http://127.0.0.1/", { devHosts: ["localhost"] })).toBe("http://127.0.0.1/ is not HTTPS");
+  });
+
+  it("checks what host names resolve to, given a resolver", async () => {
+    const lookup = vi.fn(async (host: string) => (host === "internal.example" ? ["93.184.216.34", "10.0.0.5"] : ["93.184.216.34"]));
+    const options = { devHosts: [], resolver: { lookup } };
+    expect(await check("https://internal.example/", options)).toBe("internal.example resolves to the private or loopback address 10.0.0.5");
+    expect(await check("https://example.com/", options)).toBeNull();
+    expect(await check("https://93.184.216.34/", options)).toBeNull();
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("contentTypeMatches", () => {
+  it("compares the media type, ignoring parameters", () => {
+    expect(contentTypeMatches("application/json; charset=utf-8", "json")).toBe(true);
+    expect(contentTypeMatches("application/ai+json", "json")).toBe(true);
+    expect(contentTypeMatches("Text/Plain", "text")).toBe(true);
+    expect(contentTypeMatches(null, "text")).toBe(true);
+    expect(contentTypeMatches("text/html", "text")).toBe(false);
+    expect(contentTypeMatches("text/plain", "json")).toBe(false);
+  });
+});
+
+describe("readBody", () => {
+  it("stops reading a stream once it passes the limit", async () => {
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new Uint8Array(1024));
+      },
+    });
+    expect(await readBody(new Response(endless), 10_000)).toBeNull();
+    expect(pulls).toBeLessThan(20);
+  });
+
+  it("refuses a declared Content-Length over the limit and reads the rest", async () => {
+    const declared = new Response("small", { headers: { "Content-Length": "50000" } });
+    expect(await readBody(declared, 10_000)).toBeNull();
+    expect(await readBody(new Response("Site-Name: Ünïcode"), 100)).toBe("Site-Name: Ünïcode");
+    expect(await readBody(new Response("x".repeat(101)), 100)).toBeNull();
+  });
+});
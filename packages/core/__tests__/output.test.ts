@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { checkOutput, longestVerbatimRun } from "../src/output.js";
+import { resolve } from "../src/resolver.js";
+import { parse } from "../src/parser.js";
+import { parseJSON } from "../src/parser-json.js";
+import { generate } from "../src/generator.js";
+import { generateJSON } from "../src/generator-json.js";
+
+const DOC = parse(`Site-Name: News
+Site-URL: https://news.example
+Training: deny
+
+Attribution: required
+Max-Excerpt-Words: 8
+Summarization: deny
+Link-Back: required
+`).document!;
+
+const ARTICLE = `The city council voted on Tuesday to approve a new cycling network,
+ending a two-year debate over how the budget should be spent on transport.`;
+
+const URL = "https://news.example/2026/cycling";
+
+describe("output constraints", () => {
+  it("parses and round-trips through text and JSON", () => {
+    expect(DOC.content).toEqual({ attribution: "required", maxExcerptWords: 8, summarization: "deny", linkBack: "required" });
+    expect(generate(DOC)).toContain("Attribution: required\nMax-Excerpt-Words: 8\nSummarization: deny\nLink-Back: required\n");
+    expect(parse(generate(DOC)).document).toEqual({ ...DOC, generatedAt: undefined });
+    expect(parseJSON(generateJSON(DOC)).document?.content).toEqual(DOC.content);
+  });
+
+  it("reports invalid values", () => {
+    const result = parse("Site-Name: A\nSite-URL: https://a.example\nMax-Excerpt-Words: -5\nSummarization: maybe\n");
+    expect(result.warnings.map((w) => w.code)).toEqual(["INVALID_OUTPUT_CONSTRAINT", "INVALID_OUTPUT_CONSTRAINT"]);
+    expect(result.document!.content).toBeUndefined();
+  });
+
+  it("are part of the resolved policy", () => {
+    expect(resolve(DOC, "ClaudeBot").content?.maxExcerptWords).toBe(8);
+  });
+});
+
+describe("longestVerbatimRun", () => {
+  it("counts the longest shared run of words, ignoring case and punctuation", () => {
+    expect(longestVerbatimRun('Officials said: "The city council voted on Tuesday."', ARTICLE)).toBe(6);
+    expect(longestVerbatimRun("Something else entirely.", ARTICLE)).toBe(0);
+    expect(longestVerbatimRun("the the the", "the the")).toBe(2);
+  });
+});
+
+describe("checkOutput", () => {
+  const policy = resolve(DOC, "ClaudeBot");
+
+  it("allows a short quote with a link back", () => {
+    const text = `Councillors backed a new cycling network (${URL}).`;
+    expect(checkOutput(policy, { text, source: ARTICLE, sourceUrl: URL })).toEqual({
+      allowed: true,
+      violations: [],
+      longestExcerpt: 4,
+    });
+  });
+
+  it("rejects long excerpts, summaries and missing links", () => {
+    const text = "Ending a two-year debate over how the budget should be spent, the council acted.";
+    const result = checkOutput(policy, { text, source: ARTICLE, sourceUrl: URL, summary: true });
+    expect(result.allowed).toBe(false);
+    expect(result.longestExcerpt).toBe(12);
+    expect(result.violations).toEqual([
+      { constraint: "excerpt", reason: "the output copies 12 words verbatim; the limit is 8" },
+      { constraint: "summarization", reason: "summarization is denied" },
+      { constraint: "link-back", reason: `a link back to ${URL} is required` },
+    ]);
+  });
+
+  it("fails constraints it cannot check", () => {
+    expect(checkOutput(policy, { text: "Summary." }).violations.map((v) => v.reason)).toEqual([
+      "excerpts are limited to 8 words and no source was given to compare against",
+      "a link back is required and no source URL was given",
+    ]);
+  });
+
+  it("treats short overlaps as incidental, even when quoting is forbidden", () => {
+    const strict = { content: { maxExcerptWords: 0 } };
+    expect(checkOutput(strict, { text: "The city council met.", source: ARTICLE }).allowed).toBe(true);
+    expect(checkOutput(strict, { text: "The city council voted on Tuesday.", source: ARTICLE }).violations).toEqual([
+      { constraint: "excerpt", reason: "verbatim quoting is not allowed, but the output copies 6 words" },
+    ]);
+  });
+
+  it("lets incidental runs through limits below them, but nothing longer", () => {
+    const tight = { content: { maxExcerptWords: 2 } };
+    expect(checkOutput(tight, { text: "The city council met.", source: ARTICLE }).allowed).toBe(true);
+    expect(checkOutput(tight, { text: "The city council voted.", source: ARTICLE }).violations).toEqual([
+      { constraint: "excerpt", reason: "the output copies 4 words verbatim; the limit is 2" },
+    ]);
+  });
+
+  it("allows anything without constraints", () => {
+    expect(checkOutput({}, { text: ARTICLE, summary: true })).toEqual({ allowed: true, violations: [] });
+  });
+});
@@ -65,6 +65,11 @@ describe("parse", () => {
     expect(doc.agents["*"]).toEqual({});
   });
 
+  it("lists the policy fields it defaulted", () => {
+    expect(parse(MINIMAL_DOC).defaulted).toEqual(["training", "scraping", "indexing", "caching"]);
+    expect(parse(FULL_DOC).defaulted).toBeUndefined();
+  });
+
   it("parses full document", () => {
     const result = parse(FULL_DOC);
     expect(result.success).toBe(true);
@@ -262,6 +267,53 @@ Caching: deny
     expect(p.caching).toBe("deny");
   });
 
+  it("parses per-agent training paths", () => {
+    const doc = `
+Site-Name: Test
+Site-URL: https://test.com
+Training: conditional
+Training-Allow: /blog/**
+Agent: ClaudeBot
+  Training: conditional
+  Training-Allow: /docs/**
+  Training-Deny: /forum/**
+  Training-Deny: /private/**
+`;
+    const result = parse(doc);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+    expect(result.document!.agents["claudebot"].trainingPaths).toEqual({
+      allow: ["/docs/**"],
+      deny: ["/forum/**", "/private/**"],
+    });
+    expect(result.document!.trainingPaths).toEqual({ allow: ["/blog/**"], deny: [] });
+  });
+
+  it("parses scraping, indexing and caching path rules", () => {
+    const doc = `
+Site-Name: Shop
+Site-URL: https://shop.com
+Indexing: conditional
+Caching: conditional
+Indexing-Allow: /products/**
+Caching-Deny: /cart/**
+Caching-Deny: /account/**
+Caching-Allow: /**
+Agent: GPTBot
+  Scraping: conditional
+  Scraping-Allow: /products/**
+`;
+    const result = parse(doc);
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([]);
+    const d = result.document!;
+    expect(d.indexingPaths).toEqual({ allow: ["/products/**"], deny: [] });
+    expect(d.cachingPaths).toEqual({ allow: ["/**"], deny: ["/cart/**", "/account/**"] });
+    expect(d.scrapingPaths).toBeUndefined();
+    expect(d.trainingPaths).toBeUndefined();
+    expect(d.agents["gptbot"].scrapingPaths).toEqual({ allow: ["/products/**"], deny: [] });
+  });
+
   // Case-insensitive parsing (spec requirement)
   it("parses keys case-insensitively", () => {
     const doc = `
@@ -312,6 +364,87 @@ Agent: GPTBot
     expect(result.document!.agents["GPTBot"]).toBeUndefined();
   });
 
+  it("applies a grouped block to every listed agent", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Agent: GPTBot, ChatGPT-User
+  Training: deny
+`;
+    const agents = parse(doc).document!.agents;
+    expect(agents["gptbot"]).toEqual({ training: "deny" });
+    expect(agents["chatgpt-user"]).toEqual({ training: "deny" });
+    // Each agent gets its own copy
+    expect(agents["gptbot"]).not.toBe(agents["chatgpt-user"]);
+  });
+
+  it("groups consecutive Agent lines robots.txt-style", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Agent: GPTBot
+# OpenAI's assistant fetcher
+Agent: ChatGPT-User
+  Training: deny
+Agent: ClaudeBot
+  Training: allow
+
+Agent: Bytespider
+
+Agent: CCBot
+  Scraping: deny
+`;
+    const agents = parse(doc).document!.agents;
+    expect(agents["gptbot"]).toEqual({ training: "deny" });
+    expect(agents["chatgpt-user"]).toEqual({ training: "deny" });
+    expect(agents["claudebot"]).toEqual({ training: "allow" });
+    // A blank line ends the group: Bytespider keeps an empty block
+    expect(agents["bytespider"]).toEqual({});
+    expect(agents["ccbot"]).toEqual({ scraping: "deny" });
+  });
+
+  it("parses purpose policies and their path rules", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Train-GenAI: deny
+ai-input: conditional
+AI-Input-Allow: /docs/**
+Agent: GPTBot
+  AI-Input: allow
+  Train-GenAI-Deny: /private/**
+`;
+    const result = parse(doc);
+    expect(result.warnings).toEqual([]);
+    expect(result.document!.purposes).toEqual({ "train-genai": "deny", "ai-input": "conditional" });
+    expect(result.document!.purposePaths).toEqual({ "ai-input": { allow: ["/docs/**"], deny: [] } });
+    expect(result.document!.agents["gptbot"]).toEqual({
+      purposes: { "ai-input": "allow" },
+      purposePaths: { "train-genai": { allow: [], deny: ["/private/**"] } },
+    });
+    expect(result.document!.metadata).toBeUndefined();
+  });
+
+  it("reads AIPREF names of the policy fields as the fields", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Train-AI: allow
+Search: conditional
+Search-Deny: /drafts/**
+Agent: GPTBot
+  Train-AI: deny
+`;
+    const result = parse(doc);
+    expect(result.document!.policies.training).toBe("allow");
+    expect(result.document!.policies.indexing).toBe("conditional");
+    expect(result.document!.indexingPaths).toEqual({ allow: [], deny: ["/drafts/**"] });
+    expect(result.document!.agents["gptbot"]).toEqual({ training: "deny" });
+    expect(result.document!.purposes).toBeUndefined();
+    expect(result.defaulted).toEqual(["scraping", "caching"]);
+  });
+
+  it("warns on invalid purpose values", () => {
+    const result = parse("Site-Name: Test\nSite-URL: https://test.com\nTrain-GenAI: maybe\n");
+    expect(result.warnings[0]).toMatchObject({ field: "Train-GenAI", code: "INVALID_POLICY_VALUE", line: 3 });
+  });
+
   it("parses agent block fields case-insensitively", () => {
     const doc = `
 Site-Name: Test
@@ -328,4 +461,217 @@ agent: mybot
     expect(agent.scraping).toBe("deny");
     expect(agent.rateLimit?.requests).toBe(50);
   });
+
+  // Diagnostic codes and columns
+  it("reports diagnostic codes with value columns", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Training:   sometimes
+Agent: bot
+  Scraping: nope
+  Rate-Limit: fast
+`;
+    const result = parse(doc);
+    expect(result.warnings).toEqual([
+      { line: 3, column: 13, endColumn: 22, field: "Training", code: "INVALID_POLICY_VALUE", message: "Invalid policy value: sometimes" },
+      { line: 5, column: 13, endColumn: 17, field: "Scraping", code: "INVALID_POLICY_VALUE", message: "Invalid policy value: nope" },
+      { line: 6, column: 15, endColumn: 19, field: "Rate-Limit", code: "INVALID_RATE_LIMIT", message: "Invalid rate limit: fast" },
+    ]);
+  });
+
+  it("points unknown agent fields at the key", () => {
+    const result = parse("Site-Name: Test\nSite-URL: https://test.com\nAgent: bot\n  Trainng: allow\n");
+    expect(result.warnings[0]).toMatchObject({ code: "UNKNOWN_AGENT_FIELD", line: 4, column: 3, endColumn: 10 });
+  });
+
+  it("points structural warnings at the line content", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\n  Orphan: value  \njust words\nAgent:\n";
+    const result = parse(doc);
+    expect(result.warnings.map((w) => [w.code, w.line, w.column, w.endColumn])).toEqual([
+      ["INDENT_OUTSIDE_BLOCK", 3, 3, 16],
+      ["UNPARSEABLE_LINE", 4, 1, 11],
+      ["EMPTY_AGENT_NAME", 5, 1, 6],
+    ]);
+  });
+
+  it("parses the validity window and embargo rules", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Valid-From: 2026-01-01
+Expires: 2026-07-01T00:00:00+02:00
+Training: allow
+Training-Embargo: /news/** 30d
+Train-GenAI-Embargo: /news/** 1w
+
+Agent: GPTBot
+  Scraping-Embargo: /live/** 15m
+`;
+    const result = parse(doc);
+    expect(result.warnings).toEqual([]);
+    expect(result.document?.validFrom).toBe("2026-01-01");
+    expect(result.document?.expires).toBe("2026-07-01T00:00:00+02:00");
+    expect(result.document?.trainingPaths).toEqual({ allow: [], deny: [], embargo: [{ pattern: "/news/**", duration: "30d" }] });
+    expect(result.document?.purposePaths?.["train-genai"].embargo).toEqual([{ pattern: "/news/**", duration: "1w" }]);
+    expect(result.document?.agents.gptbot.scrapingPaths?.embargo).toEqual([{ pattern: "/live/**", duration: "15m" }]);
+  });
+
+  it("warns on invalid dates and embargo values", () => {
+    const result = parse("Site-Name: Test\nSite-URL: https://test.com\nExpires: next year\nTraining-Embargo: /news/**\n");
+    expect(result.warnings.map((w) => [w.code, w.field, w.line])).toEqual([
+      ["INVALID_DATE", "Expires", 3],
+      ["INVALID_EMBARGO", "Training-Embargo", 4],
+    ]);
+    expect(result.document?.expires).toBeUndefined();
+    expect(result.document?.trainingPaths).toBeUndefined();
+  });
+
+  it("reports missing required fields with a code", () => {
+    const result = parse("Site-Name: Test\n");
+    expect(result.errors).toEqual([{ field: "Site-URL", code: "MISSING_REQUIRED_FIELD", message: "Site-URL is required" }]);
+  });
+});
+
+describe("parse (strict)", () => {
+  it("accepts a clean document", () => {
+    const result = parse(FULL_DOC, { strict: true });
+    expect(result.success).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("leaves non-strict parsing unchanged", () => {
+    const doc = `
+Site-Name: Test
+Site-URL: https://test.com
+Training: deny
+Training: allow
+Trainng: deny
+`;
+    const result = parse(doc);
+    expect(result.success).toBe(true);
+    expect(result.document!.policies.training).toBe("allow");
+    expect(result.document!.metadata?.["Trainng"]).toBe("deny");
+    expect(result.warnings).toEqual([]);
+  });
+
+  it("rejects duplicate scalar keys", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Training: deny
+training: allow
+`;
+    const result = parse(doc, { strict: true });
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      {
+        line: 4, column: 1, endColumn: 9, field: "training", code: "DUPLICATE_KEY",
+        message: "Duplicate key: training (already set on line 3)",
+      },
+    ]);
+  });
+
+  it("treats key aliases as the same field", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nContact: a@test.com\nSite-Contact: b@test.com\n";
+    const result = parse(doc, { strict: true });
+    expect(result.errors.map((e) => e.code)).toEqual(["DUPLICATE_KEY"]);
+  });
+
+  it("allows repeated path rules", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nTraining-Deny: /a/*\nTraining-Deny: /b/*\n";
+    expect(parse(doc, { strict: true }).success).toBe(true);
+  });
+
+  it("does not treat the same path under different policies as a conflict", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nIndexing-Allow: /a/*\nCaching-Deny: /a/*\n";
+    expect(parse(doc, { strict: true }).success).toBe(true);
+  });
+
+  it("rejects a path that is both allowed and denied", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nTraining-Allow: /a/*\nTraining-Deny: /a/*\n";
+    const result = parse(doc, { strict: true });
+    expect(result.errors[0]).toMatchObject({ code: "CONFLICTING_PATH_RULE", line: 4, column: 16 });
+    expect(result.errors[0].message).toContain("line 3");
+  });
+
+  it("rejects repeated agent blocks", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Agent: ClaudeBot
+  Training: allow
+Agent: claudebot
+  Scraping: deny
+`;
+    const result = parse(doc, { strict: true });
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatchObject({ code: "DUPLICATE_AGENT", line: 5, column: 8, endColumn: 17 });
+  });
+
+  it("rejects agents repeated within or across groups", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Agent: GPTBot, ClaudeBot
+  Training: allow
+Agent: Bytespider, claudebot
+  Scraping: deny
+`;
+    const result = parse(doc, { strict: true });
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ code: "DUPLICATE_AGENT", line: 5 });
+    expect(result.errors[0].message).toContain('"claudebot"');
+  });
+
+  it("treats a field and its AIPREF name as the same key", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Training: allow
+Train-AI: deny
+Training-Allow: /docs/**
+Train-AI-Deny: /docs/**
+`;
+    const result = parse(doc, { strict: true });
+    expect(result.errors.map((e) => e.code)).toEqual(["DUPLICATE_KEY", "CONFLICTING_PATH_RULE"]);
+  });
+
+  it("rejects duplicate keys within an agent block, but not across blocks", () => {
+    const doc = `Site-Name: Test
+Site-URL: https://test.com
+Agent: a
+  Training: allow
+Agent: b
+  Training: deny
+  Training: allow
+`;
+    const result = parse(doc, { strict: true });
+    expect(result.errors.map((e) => [e.code, e.line])).toEqual([["DUPLICATE_KEY", 7]]);
+  });
+
+  it("suggests the intended key for likely typos", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nTrainng: deny\nAttributon: required\n";
+    const result = parse(doc, { strict: true });
+    expect(result.errors.map((e) => e.message)).toEqual([
+      "Unknown field: Trainng (did you mean Training?)",
+      "Unknown field: Attributon (did you mean Attribution?)",
+    ]);
+    expect(result.errors.every((e) => e.code === "LIKELY_TYPO")).toBe(true);
+  });
+
+  it("still stores genuinely custom keys as metadata", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nX-Owner: legal@test.com\n";
+    const result = parse(doc, { strict: true });
+    expect(result.success).toBe(true);
+    expect(result.document!.metadata?.["X-Owner"]).toBe("legal@test.com");
+  });
+
+  it("turns warnings into errors", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nTraining: maybe\n";
+    const result = parse(doc, { strict: true });
+    expect(result.success).toBe(false);
+    expect(result.warnings).toEqual([]);
+    expect(result.errors[0].code).toBe("INVALID_POLICY_VALUE");
+  });
+
+  it("suggests agent field spellings in both modes", () => {
+    const doc = "Site-Name: Test\nSite-URL: https://test.com\nAgent: bot\n  Scrapping: deny\n";
+    expect(parse(doc).warnings[0].message).toBe("Unknown agent field: Scrapping (did you mean Scraping?)");
+  });
 });
+
@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import { compilePolicy } from "../src/policy.js";
+import { canAccess, resolve } from "../src/resolver.js";
+import { parse } from "../src/parser.js";
+import type { AiTxtDocument, PolicyField } from "../src/types.js";
+
+const FIELDS: PolicyField[] = ["training", "scraping", "indexing", "caching"];
+
+const DOC = parse(`Site-Name: Equivalence
+Site-URL: https://eq.example
+
+Training: conditional
+Training-Allow: /blog/**
+Training-Allow: /docs/*.html
+Training-Allow: /blog/open/*
+Training-Deny: /blog/premium/**
+Training-Deny: /blog/**
+Training-Deny: /*cs/a.*
+Scraping: conditional
+Scraping-Allow: /**
+Scraping-Deny: /account/**
+Scraping-Deny: /search$
+Indexing: allow
+Caching: conditional
+
+Agent: *
+  Rate-Limit: 30/minute
+
+Agent: ClaudeBot
+  Training: allow
+  Caching: conditional
+  Caching-Allow: /static/{css,js}/**
+  Caching-Deny: /static/js/private-*
+
+Agent: GPTBot
+  Training: conditional
+  Training-Allow: /docs/**
+  Training-Deny: /docs/v[0-9]/**
+  Scraping: deny
+
+Agent: Bingbot
+  Indexing: conditional
+  Indexing-Allow: /products/**
+  Indexing-Deny: /products/?/drafts
+
+Agent: Google-*, Applebot-Extended
+Agent: CCBot
+  Training: deny
+  Indexing-Deny: /drafts/**
+`).document!;
+
+const AGENTS = [
+  "ClaudeBot",
+  "claudebot",
+  "GPTBot",
+  "Bingbot",
+  "UnknownBot",
+  "*",
+  "",
+  "ClaudeBot/1.0 (+https://www.anthropic.com)",
+  "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)",
+  "Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)",
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Firefox/120.0",
+  "Google-Extended",
+  "Mozilla/5.0 (compatible; Google-InspectionTool/1.0)",
+  "Applebot-Extended",
+  "CCBot/2.0 (https://commoncrawl.org/faq/)",
+];
+
+const URLS = [
+  undefined,
+  "/",
+  "/blog",
+  "/blog/",
+  "/blog/post",
+  "/blog/open/post",
+  "/blog/premium/x/y",
+  "/blog/%6Fpen/post",
+  "/docs/a.html",
+  "/docs/b.html",
+  "/docs/v2/api",
+  "/docs/vx/api",
+  "/docs/./v1/../guide",
+  "/account",
+  "/account/settings",
+  "/search",
+  "/search/",
+  "/search?q=cats",
+  "/static/css/site.css",
+  "/static/js/private-key.js",
+  "/static/img/logo.png",
+  "/products/a/drafts",
+  "/products/ab/drafts",
+  "/drafts/x",
+  "https://eq.example/blog/open/post?utm=1#top",
+  "relative/path",
+];
+
+/** Deterministic pseudo-random generator so failures are reproducible. */
+function lcg(seed: number): () => number {
+  let state = seed;
+  return () => (state = (state * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+}
+
+function pick<T>(rand: () => number, items: readonly T[]): T {
+  return items[Math.floor(rand() * items.length)];
+}
+
+// -- Equivalence with canAccess --
+
+describe("compilePolicy equivalence with canAccess", () => {
+  it("gives identical results for every agent, field and URL", () => {
+    const compiled = compilePolicy(DOC);
+    for (const agent of AGENTS) {
+      for (const field of FIELDS) {
+        for (const url of URLS) {
+          expect(compiled.decide(agent, field, url), `${agent} ${field} ${url}`).toEqual(canAccess(DOC, agent, field, url));
+        }
+      }
+    }
+  });
+
+  it("gives identical results for randomly generated rules and paths", () => {
+    const rand = lcg(20260301);
+    const segments = ["a", "b", "ab", "blog", "x.html", "%61", ".."];
+    const wildcards = ["*", "**", "?", "[ab]", "{a,b}", "*.html"];
+    const randomPath = () =>
+      "/" + Array.from({ length: 1 + Math.floor(rand() * 4) }, () => pick(rand, segments)).join("/");
+    const randomPattern = () => {
+      const parts = Array.from({ length: 1 + Math.floor(rand() * 3) }, () =>
+        rand() < 0.6 ? pick(rand, segments.slice(0, 5)) : pick(rand, wildcards),
+      );
+      return "/" + parts.join("/") + (rand() < 0.15 ? "$" : "");
+    };
+
+    for (let round = 0; round < 40; round++) {
+      const doc: AiTxtDocument = {
+        specVersion: "1.0",
+        site: { name: "Random", url: "https://random.example" },
+        policies: { training: "conditional", scraping: "allow", indexing: "allow", caching: "allow" },
+        trainingPaths: {
+          allow: Array.from({ length: Math.floor(rand() * 5) }, randomPattern),
+          deny: Array.from({ length: Math.floor(rand() * 5) }, randomPattern),
+        },
+        agents: {},
+      };
+      const compiled = compilePolicy(doc);
+      for (let i = 0; i < 50; i++) {
+        const path = randomPath();
+        expect(compiled.decide("AnyBot", "training", path), `${JSON.stringify(doc.trainingPaths)} ${path}`).toEqual(
+          canAccess(doc, "AnyBot", "training", path),
+        );
+      }
+    }
+  });
+});
+
+// -- API --
+
+describe("compilePolicy", () => {
+  it("evaluates batches in order", () => {
+    const compiled = compilePolicy(DOC);
+    const urls = ["/blog/open/post", "/blog/post", "/account/x"];
+    expect(compiled.decideAll("UnknownBot", "training", urls).map((r) => r.allowed)).toEqual([true, false, false]);
+    expect(compiled.decideAll("UnknownBot", "training", urls)).toEqual(urls.map((u) => compiled.decide("UnknownBot", "training", u)));
+  });
+
+  it("exposes pre-merged policies equal to resolve()", () => {
+    const compiled = compilePolicy(DOC);
+    expect(compiled.policyFor("GPTBot")).toEqual(resolve(DOC, "GPTBot"));
+    expect(compiled.policyFor("NewBot")).toEqual(resolve(DOC, "NewBot"));
+    expect(compiled.agents).toEqual(["claudebot", "gptbot", "bingbot", "google-*", "applebot-extended", "ccbot"]);
+  });
+
+  it("is immutable and unaffected by later changes to the document", () => {
+    const doc = structuredClone(DOC);
+    const compiled = compilePolicy(doc);
+    doc.policies.indexing = "deny";
+    doc.trainingPaths!.allow.push("/**");
+
+    expect(compiled.decide("UnknownBot", "indexing").allowed).toBe(true);
+    expect(compiled.decide("UnknownBot", "training", "/other").allowed).toBe(false);
+    expect(Object.isFrozen(compiled)).toBe(true);
+    expect(Object.isFrozen(compiled.policyFor("GPTBot").trainingPaths!.allow)).toBe(true);
+  });
+});
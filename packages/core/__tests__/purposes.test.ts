@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  AIPREF_PURPOSES,
+  canonicalPurpose,
+  getPurpose,
+  listPurposes,
+  lookupPurposeKey,
+  purposeChain,
+  registerPurpose,
+} from "../src/purposes.js";
+import { canAccess, resolve } from "../src/resolver.js";
+import { compilePolicy } from "../src/policy.js";
+import { parse } from "../src/parser.js";
+import { parseJSON } from "../src/parser-json.js";
+import { generate } from "../src/generator.js";
+import { generateJSON } from "../src/generator-json.js";
+
+const DOC = parse(`Site-Name: Purposes
+Site-URL: https://purposes.example
+
+Training: allow
+Scraping: allow
+Train-GenAI: deny
+AI-Input: conditional
+AI-Input-Allow: /docs/**
+AI-Input-Deny: /docs/internal/**
+
+Agent: ClaudeBot
+  Training: deny
+
+Agent: GPTBot
+  Train-GenAI: allow
+
+Agent: CCBot
+  Scraping: deny
+`).document!;
+
+// -- Registry --
+
+describe("purpose registry", () => {
+  it("includes the four fields and the AIPREF terms", () => {
+    expect(listPurposes().map((p) => p.name)).toEqual(
+      expect.arrayContaining(["training", "scraping", "indexing", "caching", "train-ai", "train-genai", "search", "ai-input"]),
+    );
+    expect(AIPREF_PURPOSES.map((p) => p.name)).toEqual(["train-ai", "train-genai", "search", "ai-input"]);
+    expect(getPurpose("Train-GenAI")?.key).toBe("Train-GenAI");
+  });
+
+  it("maps AIPREF names onto the legacy fields", () => {
+    expect(canonicalPurpose("train-ai")).toBe("training");
+    expect(canonicalPurpose("search")).toBe("indexing");
+    expect(canonicalPurpose("train-genai")).toBe("train-genai");
+    expect(purposeChain("train-genai")).toEqual(["train-genai", "training"]);
+    expect(purposeChain("ai-input")).toEqual(["ai-input", "scraping"]);
+    expect(purposeChain("caching")).toEqual(["caching"]);
+  });
+
+  it("looks up text keys and their path rule keys", () => {
+    expect(lookupPurposeKey("train-genai")).toEqual({ purpose: "train-genai" });
+    expect(lookupPurposeKey("ai-input-deny")).toEqual({ purpose: "ai-input", rule: "deny" });
+    expect(lookupPurposeKey("search-allow")).toEqual({ purpose: "indexing", rule: "allow" });
+    expect(lookupPurposeKey("site-name")).toBeUndefined();
+  });
+
+  it("registers new purposes under a parent", () => {
+    const definition = registerPurpose({ name: "train-code", parent: "train-genai", description: "Training code models" });
+    expect(definition).toMatchObject({ name: "train-code", key: "Train-Code", parent: "train-genai" });
+    expect(purposeChain("train-code")).toEqual(["train-code", "train-genai", "training"]);
+
+    const doc = parse("Site-Name: A\nSite-URL: https://a.example\nTrain-Code: allow\n").document!;
+    expect(doc.purposes).toEqual({ "train-code": "allow" });
+    expect(canAccess(doc, "AnyBot", "train-code").allowed).toBe(true);
+    // Not declared in DOC: inherits train-genai
+    expect(canAccess(DOC, "AnyBot", "train-code").allowed).toBe(false);
+  });
+
+  it("rejects malformed, duplicate and orphaned purposes", () => {
+    expect(() => registerPurpose({ name: "Bad Name", parent: "training" })).toThrow(RangeError);
+    expect(() => registerPurpose({ name: "train-genai", parent: "training" })).toThrow(/already registered/);
+    expect(() => registerPurpose({ name: "x-use", parent: "nope" })).toThrow(/Unknown parent/);
+    expect(() => registerPurpose({ name: "other-search", parent: "search", key: "Search" })).toThrow(/conflicting/);
+  });
+});
+
+// -- Resolution --
+
+describe("purpose resolution", () => {
+  it("uses the most specific purpose a layer declares", () => {
+    expect(canAccess(DOC, "AnyBot", "training").allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "train-ai").allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "train-genai")).toEqual({ allowed: false, reason: "train-genai is denied" });
+  });
+
+  it("prefers an agent block's broader purpose over a site-wide narrower one", () => {
+    expect(resolve(DOC, "ClaudeBot").purposes["train-genai"]).toBe("deny");
+    expect(resolve(DOC, "GPTBot").purposes["train-genai"]).toBe("allow");
+    expect(canAccess(DOC, "GPTBot", "training").allowed).toBe(true);
+    expect(canAccess(DOC, "CCBot", "ai-input", "/docs/a").allowed).toBe(false);
+  });
+
+  it("resolves conditional purposes against their own path rules", () => {
+    expect(canAccess(DOC, "AnyBot", "ai-input", "/docs/guide").allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "ai-input", "/docs/internal/x")).toMatchObject({
+      allowed: false,
+      rule: { type: "deny", pattern: "/docs/internal/**" },
+    });
+    expect(canAccess(DOC, "AnyBot", "ai-input", "/blog").reason).toBe('path "/blog" does not match any ai-input path pattern');
+    expect(canAccess(DOC, "AnyBot", "ai-input").allowed).toBe(false);
+  });
+
+  it("falls back to the legacy field when no purpose is declared", () => {
+    const doc = parse("Site-Name: A\nSite-URL: https://a.example\nScraping: deny\n").document!;
+    expect(resolve(doc, "AnyBot").purposes).toMatchObject({ "train-genai": "deny", "ai-input": "deny" });
+    expect(canAccess(doc, "AnyBot", "search").allowed).toBe(true);
+  });
+
+  it("rejects unregistered purposes", () => {
+    expect(() => canAccess(DOC, "AnyBot", "train-robots")).toThrow(RangeError);
+  });
+
+  it("gives compiled policies the same answers", () => {
+    const compiled = compilePolicy(DOC);
+    for (const agent of ["AnyBot", "ClaudeBot", "GPTBot", "CCBot"]) {
+      for (const purpose of ["train-ai", "train-genai", "search", "ai-input"]) {
+        for (const path of [undefined, "/docs/a", "/docs/internal/a", "/blog"]) {
+          expect(compiled.decide(agent, purpose, path)).toEqual(canAccess(DOC, agent, purpose, path));
+        }
+      }
+    }
+  });
+});
+
+// -- Formats --
+
+describe("purpose formats", () => {
+  it("round-trips through text and JSON", () => {
+    expect(parse(generate(DOC)).document).toEqual({ ...DOC, generatedAt: undefined });
+    expect(parseJSON(generateJSON(DOC)).document).toEqual(JSON.parse(generateJSON(DOC)));
+    expect(generate(DOC)).toContain("Train-GenAI: deny\nAI-Input: conditional\n");
+    expect(generate(DOC)).toContain("AI-Input-Allow: /docs/**\nAI-Input-Deny: /docs/internal/**\n");
+  });
+
+  it("folds AIPREF names of the fields into the fields in JSON", () => {
+    const result = parseJSON(JSON.stringify({
+      specVersion: "1.0",
+      site: { name: "A", url: "https://a.example" },
+      policies: { training: "allow", scraping: "allow", indexing: "allow", caching: "allow" },
+      purposes: { "Train-AI": "deny", "train-genai": "deny", "future-use": "allow" },
+      purposePaths: { search: { allow: ["/**"], deny: [] } },
+      agents: { "*": { purposes: { "ai-input": "deny" } } },
+    }));
+    const doc = result.document!;
+    expect(doc.policies.training).toBe("deny");
+    expect(doc.indexingPaths).toEqual({ allow: ["/**"], deny: [] });
+    expect(doc.purposes).toEqual({ "train-genai": "deny", "future-use": "allow" });
+    expect(doc.purposePaths).toBeUndefined();
+    expect(doc.agents["*"].purposes).toEqual({ "ai-input": "deny" });
+    expect(result.warnings).toEqual([
+      { field: "purposes.future-use", code: "UNKNOWN_PURPOSE", message: 'Unknown purpose: "future-use"' },
+    ]);
+  });
+});
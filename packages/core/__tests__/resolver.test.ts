@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { resolve, canAccess, matchPath, globMatch } from "../src/resolver.js";
+import { resolve, canAccess, matchPath } from "../src/resolver.js";
+import { globMatch, patternSpecificity } from "../src/glob.js";
 import type { AiTxtDocument } from "../src/types.js";
 
 // Agent names are stored lowercase (per spec: case-insensitive matching)
@@ -41,6 +42,13 @@ describe("resolve", () => {
     expect(policy.rateLimit).toEqual({ requests: 60, window: "minute" }); // wildcard
   });
 
+  it("resolves a raw User-Agent header to the agent's block", () => {
+    const policy = resolve(BASE_DOC, "Mozilla/5.0 (compatible; ClaudeBot/1.0; +https://www.anthropic.com)");
+    expect(policy.training).toBe("allow");
+    expect(policy.rateLimit).toEqual({ requests: 200, window: "minute" });
+    expect(resolve(BASE_DOC, "GPTBot/1.2").scraping).toBe("deny");
+  });
+
   it("resolves when no wildcard exists", () => {
     const doc: AiTxtDocument = {
       ...BASE_DOC,
@@ -88,6 +96,12 @@ describe("canAccess", () => {
     expect(result.reason).toContain("allowed");
   });
 
+  it("accepts a raw User-Agent header", () => {
+    const header = "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)";
+    expect(canAccess(BASE_DOC, header, "scraping").allowed).toBe(false);
+    expect(canAccess(BASE_DOC, "Mozilla/5.0 (Windows NT 10.0) Firefox/120.0", "scraping").allowed).toBe(true);
+  });
+
   it("returns denied for deny policy", () => {
     const result = canAccess(BASE_DOC, "GPTBot", "training");
     expect(result.allowed).toBe(false);
@@ -158,7 +172,7 @@ describe("canAccess", () => {
     expect(result.reason).toContain("no trainingPaths");
   });
 
-  it("returns denied for conditional non-training field", () => {
+  it("returns denied for conditional non-training field with no path rules", () => {
     const doc: AiTxtDocument = {
       ...BASE_DOC,
       policies: { ...BASE_DOC.policies, scraping: "conditional" },
@@ -166,7 +180,37 @@ describe("canAccess", () => {
     };
     const result = canAccess(doc, "SomeBot", "scraping", "/some/path");
     expect(result.allowed).toBe(false);
-    expect(result.reason).toContain("only apply to training");
+    expect(result.reason).toContain("no scrapingPaths");
+  });
+
+  it("resolves conditional scraping, indexing and caching against their own path rules", () => {
+    const doc: AiTxtDocument = {
+      ...BASE_DOC,
+      policies: { training: "deny", scraping: "allow", indexing: "conditional", caching: "conditional" },
+      indexingPaths: { allow: ["/products/**"], deny: [] },
+      cachingPaths: { allow: ["/**"], deny: ["/cart/**", "/account/**"] },
+      agents: { "*": {} },
+    };
+    expect(canAccess(doc, "SomeBot", "indexing", "/products/shoes/1").allowed).toBe(true);
+    expect(canAccess(doc, "SomeBot", "indexing", "/cart").allowed).toBe(false);
+    expect(canAccess(doc, "SomeBot", "indexing", "/cart").reason).toContain("any indexing path pattern");
+    expect(canAccess(doc, "SomeBot", "caching", "/products/shoes/1").allowed).toBe(true);
+    expect(canAccess(doc, "SomeBot", "caching", "/cart/items").allowed).toBe(false);
+    expect(canAccess(doc, "SomeBot", "caching", "/account/settings").allowed).toBe(false);
+    // Training paths do not leak into other fields
+    expect(canAccess({ ...doc, trainingPaths: { allow: ["/cart/**"], deny: [] } }, "SomeBot", "caching", "/cart/x").allowed).toBe(false);
+  });
+
+  it("uses agent-level scraping paths over site-wide ones", () => {
+    const doc: AiTxtDocument = {
+      ...BASE_DOC,
+      policies: { ...BASE_DOC.policies, scraping: "conditional" },
+      scrapingPaths: { allow: ["/public/**"], deny: [] },
+      agents: { "*": {}, gptbot: { scrapingPaths: { allow: ["/docs/**"], deny: [] } } },
+    };
+    expect(canAccess(doc, "GPTBot", "scraping", "/docs/a").allowed).toBe(true);
+    expect(canAccess(doc, "GPTBot", "scraping", "/public/a").allowed).toBe(false);
+    expect(canAccess(doc, "OtherBot", "scraping", "/public/a").allowed).toBe(true);
   });
 
   it("unmatched path defaults to deny", () => {
@@ -182,6 +226,56 @@ describe("canAccess", () => {
   });
 });
 
+// -- Per-agent training paths --
+
+describe("per-agent training paths", () => {
+  const doc: AiTxtDocument = {
+    ...BASE_DOC,
+    policies: { ...BASE_DOC.policies, training: "conditional" },
+    trainingPaths: { allow: ["/blog/**"], deny: [] },
+    agents: {
+      "*": {},
+      claudebot: { training: "conditional", trainingPaths: { allow: ["/docs/**"], deny: ["/forum/**"] } },
+    },
+  };
+
+  it("resolves the agent's own path lists", () => {
+    expect(resolve(doc, "ClaudeBot").trainingPaths).toEqual({ allow: ["/docs/**"], deny: ["/forum/**"] });
+  });
+
+  it("falls back to site-wide path lists for other agents", () => {
+    expect(resolve(doc, "GPTBot").trainingPaths).toEqual({ allow: ["/blog/**"], deny: [] });
+  });
+
+  it("uses agent paths instead of site paths in canAccess", () => {
+    expect(canAccess(doc, "ClaudeBot", "training", "/docs/api/intro").allowed).toBe(true);
+    expect(canAccess(doc, "ClaudeBot", "training", "/forum/thread-1").allowed).toBe(false);
+    // Site-wide allow list does not apply to ClaudeBot
+    expect(canAccess(doc, "ClaudeBot", "training", "/blog/post-1").allowed).toBe(false);
+  });
+
+  it("keeps site-wide rules for agents without their own paths", () => {
+    expect(canAccess(doc, "GPTBot", "training", "/blog/post-1").allowed).toBe(true);
+    expect(canAccess(doc, "GPTBot", "training", "/docs/api/intro").allowed).toBe(false);
+  });
+
+  it("uses wildcard path lists ahead of site-wide ones", () => {
+    const withWildcard: AiTxtDocument = {
+      ...doc,
+      agents: { ...doc.agents, "*": { trainingPaths: { allow: ["/public/**"], deny: [] } } },
+    };
+    expect(canAccess(withWildcard, "GPTBot", "training", "/public/a").allowed).toBe(true);
+    expect(canAccess(withWildcard, "GPTBot", "training", "/blog/post-1").allowed).toBe(false);
+    expect(canAccess(withWildcard, "ClaudeBot", "training", "/docs/a").allowed).toBe(true);
+  });
+
+  it("lets an agent be conditional while the site denies training", () => {
+    const denySite: AiTxtDocument = { ...doc, policies: { ...doc.policies, training: "deny" }, trainingPaths: undefined };
+    expect(canAccess(denySite, "ClaudeBot", "training", "/docs/a").allowed).toBe(true);
+    expect(canAccess(denySite, "GPTBot", "training", "/docs/a").allowed).toBe(false);
+  });
+});
+
 // -- globMatch --
 
 describe("globMatch", () => {
@@ -255,4 +349,36 @@ describe("matchPath", () => {
     expect(result.allowed).toBe(false);
     expect(result.reason).toContain("does not match");
   });
+
+  it("lets a more specific allow override a broader deny", () => {
+    const result = matchPath("/blog/open/post", ["/blog/open/*"], ["/blog/**"]);
+    expect(result.allowed).toBe(true);
+    expect(result.rule).toEqual({ type: "allow", pattern: "/blog/open/*", specificity: 11 });
+    expect(result.overridden).toEqual([{ type: "deny", pattern: "/blog/**", specificity: 6 }]);
+  });
+
+  it("still denies paths outside the allow exception", () => {
+    const result = matchPath("/blog/drafts/post", ["/blog/open/*"], ["/blog/**"]);
+    expect(result.allowed).toBe(false);
+    expect(result.rule?.pattern).toBe("/blog/**");
+  });
+
+  it("breaks specificity ties in favour of deny", () => {
+    const result = matchPath("/docs/a.html", ["/docs/*"], ["/*cs/a.*"]);
+    expect(result.rule?.specificity).toBe(result.overridden?.[0].specificity);
+    expect(result.allowed).toBe(false);
+  });
+
+  it("names the winning and overridden rules in the reason", () => {
+    const result = matchPath("/blog/premium/post", ["/blog/**", "/**"], ["/blog/premium/**"]);
+    expect(result.reason).toBe(
+      'path "/blog/premium/post" matches deny pattern "/blog/premium/**" (overrides allow "/blog/**", allow "/**")',
+    );
+  });
+
+  it("ignores wildcards when measuring specificity", () => {
+    expect(patternSpecificity("/blog/**")).toBe(6);
+    expect(patternSpecificity("/*/a.html")).toBe(8);
+    expect(patternSpecificity("/**")).toBe(1);
+  });
 });
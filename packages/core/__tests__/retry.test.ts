@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { CircuitBreaker, backoffDelay, parseRetryAfter } from "../src/retry.js";
+
+describe("backoffDelay", () => {
+  const options = { retries: 5, baseDelay: 500, maxDelay: 3_000 };
+
+  it("doubles per attempt up to maxDelay, jittered between half and all of it", () => {
+    expect([0, 1, 2, 3].map((attempt) => backoffDelay(attempt, options, () => 1))).toEqual([500, 1_000, 2_000, 3_000]);
+    expect([0, 1, 2, 3].map((attempt) => backoffDelay(attempt, options, () => 0))).toEqual([250, 500, 1_000, 1_500]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds and HTTP dates", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Wed, 31 Dec 2025 23:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and lets one probe through after the cooldown", () => {
+    const breaker = new CircuitBreaker({ threshold: 2, cooldown: 1_000 });
+    breaker.failure("a.example", 0);
+    expect(breaker.allow("a.example", 0)).toBe(true);
+    breaker.failure("a.example", 0);
+    expect(breaker.allow("a.example", 999)).toBe(false);
+    expect(breaker.openUntil("a.example")).toBe(1_000);
+    expect(breaker.allow("b.example", 999)).toBe(true);
+
+    expect(breaker.probing("a.example")).toBe(false);
+    expect(breaker.allow("a.example", 1_000)).toBe(true);
+    expect(breaker.allow("a.example", 1_000)).toBe(false);
+    expect(breaker.probing("a.example")).toBe(true);
+    breaker.failure("a.example", 1_000);
+    expect(breaker.probing("a.example")).toBe(false);
+    expect(breaker.allow("a.example", 1_500)).toBe(false);
+
+    expect(breaker.allow("a.example", 2_000)).toBe(true);
+    breaker.success("a.example");
+    expect(breaker.openUntil("a.example")).toBeUndefined();
+    expect(breaker.allow("a.example", 2_000)).toBe(true);
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => new CircuitBreaker({ threshold: 0 })).toThrow(RangeError);
+    expect(() => new CircuitBreaker({ cooldown: -1 })).toThrow(RangeError);
+  });
+});
@@ -24,6 +24,10 @@ const TEST_DOC: AiTxtDocument = {
     allow: ["/public/*"],
     deny: ["/premium/*"],
   },
+  cachingPaths: {
+    allow: [],
+    deny: ["/account/**"],
+  },
   licensing: {
     license: "CC-BY-4.0",
     feeUrl: "https://roundtrip.com/license",
@@ -31,6 +35,7 @@ const TEST_DOC: AiTxtDocument = {
   agents: {
     "*": { rateLimit: { requests: 60, window: "minute" } },
     "claudebot": { training: "allow", rateLimit: { requests: 200, window: "minute" } },
+    "gptbot": { training: "conditional", trainingPaths: { allow: ["/docs/**"], deny: ["/forum/**"] } },
   },
   content: {
     attribution: "required",
@@ -66,6 +71,12 @@ describe("roundtrip: generate -> parse", () => {
     expect(result.document?.trainingPaths).toEqual(TEST_DOC.trainingPaths);
   });
 
+  it("text roundtrip preserves other path rules", () => {
+    const text = generate(TEST_DOC);
+    const result = parse(text);
+    expect(result.document?.cachingPaths).toEqual(TEST_DOC.cachingPaths);
+  });
+
   it("text roundtrip preserves licensing", () => {
     const text = generate(TEST_DOC);
     const result = parse(text);
@@ -77,6 +88,22 @@ describe("roundtrip: generate -> parse", () => {
     const result = parse(text);
     expect(result.document?.agents["*"]).toEqual(TEST_DOC.agents["*"]);
     expect(result.document?.agents["claudebot"]).toEqual(TEST_DOC.agents["claudebot"]);
+    expect(result.document?.agents["gptbot"]).toEqual(TEST_DOC.agents["gptbot"]);
+  });
+
+  it("text roundtrip preserves grouped and empty agent blocks", () => {
+    const doc: AiTxtDocument = {
+      ...TEST_DOC,
+      agents: {
+        "*": {},
+        "gptbot": { training: "deny" },
+        "bytespider": {},
+        "chatgpt-user": { training: "deny" },
+        "google-*": { training: "conditional", trainingPaths: { allow: ["/docs/**"], deny: [] } },
+      },
+    };
+    const result = parse(generate(doc));
+    expect(result.document?.agents).toEqual(doc.agents);
   });
 
   it("text roundtrip preserves content requirements", () => {
@@ -91,6 +118,21 @@ describe("roundtrip: generate -> parse", () => {
     expect(result.document?.compliance).toEqual(TEST_DOC.compliance);
   });
 
+  it("text roundtrip preserves the validity window and embargoes", () => {
+    const doc: AiTxtDocument = {
+      ...TEST_DOC,
+      validFrom: "2026-01-01",
+      expires: "2026-07-01T00:00:00Z",
+      scrapingPaths: { allow: ["/news/**"], deny: [], embargo: [{ pattern: "/news/**", duration: "2h" }] },
+    };
+    const text = generate(doc);
+    expect(text).toContain("Valid-From: 2026-01-01\nExpires: 2026-07-01T00:00:00Z\n");
+    expect(text).toContain("Scraping-Allow: /news/**\nScraping-Embargo: /news/** 2h\n");
+    const result = parse(text).document!;
+    expect([result.validFrom, result.expires]).toEqual([doc.validFrom, doc.expires]);
+    expect(result.scrapingPaths).toEqual(doc.scrapingPaths);
+  });
+
   it("JSON roundtrip produces identical document", () => {
     const json = generateJSON(TEST_DOC);
     const result = parseJSON(json);
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { generateKeyPairSync } from "node:crypto";
+import { sign, signText, verify, publicKey, unsignedText, keyAlgorithm } from "../src/signature.js";
+import { canonicalJSON, base64url, fromBase64url } from "../src/encoding.js";
+import { parse } from "../src/parser.js";
+import { generateJSON } from "../src/generator-json.js";
+
+const TEXT = `Site-Name: Signed
+Site-URL: https://signed.example
+Training: deny
+`;
+
+const DOC = parse(TEXT).document!;
+
+function jwkPair(type: "ec" | "ed25519" | "rsa", kid?: string): { privateJwk: JsonWebKey; publicJwk: JsonWebKey } {
+  const { privateKey } = type === "ec"
+    ? generateKeyPairSync("ec", { namedCurve: "P-256" })
+    : type === "rsa"
+      ? generateKeyPairSync("rsa", { modulusLength: 2048 })
+      : generateKeyPairSync("ed25519");
+  const privateJwk = { ...privateKey.export({ format: "jwk" }), ...(kid ? { kid } : {}) } as JsonWebKey;
+  return { privateJwk, publicJwk: publicKey(privateJwk) };
+}
+
+describe("encoding", () => {
+  it("canonicalJSON sorts keys at every level", () => {
+    expect(canonicalJSON({ b: 1, a: { d: [{ y: 1, x: 2 }], c: undefined } })).toBe('{"a":{"d":[{"x":2,"y":1}]},"b":1}');
+  });
+
+  it("round-trips base64url and rejects other alphabets", () => {
+    expect(base64url("ai.txt?>")).toBe("YWkudHh0Pz4");
+    expect(new TextDecoder().decode(fromBase64url("YWkudHh0Pz4"))).toBe("ai.txt?>");
+    expect(() => fromBase64url("YWk+dA==")).toThrow(RangeError);
+  });
+});
+
+describe("keys", () => {
+  it("infers the algorithm and strips private members", () => {
+    const { privateJwk, publicJwk } = jwkPair("ec", "k1");
+    expect(keyAlgorithm(privateJwk)).toBe("ES256");
+    expect(publicJwk).toEqual({ kty: "EC", crv: "P-256", x: privateJwk.x, y: privateJwk.y, kid: "k1" });
+    expect(keyAlgorithm({ kty: "EC", crv: "P-384" })).toBeUndefined();
+  });
+});
+
+describe("sign / verify", () => {
+  let ec: ReturnType<typeof jwkPair>;
+  beforeAll(() => {
+    ec = jwkPair("ec", "2026-01");
+  });
+
+  it.each(["ec", "ed25519", "rsa"] as const)("signs and verifies ai.json with %s keys", async (type) => {
+    const { privateJwk, publicJwk } = type === "ec" ? ec : jwkPair(type);
+    const jws = await sign(DOC, privateJwk);
+    expect(jws).toMatch(/^[\w-]+\.\.[\w-]+$/);
+
+    // Verifies against the served JSON, whatever its key order or whitespace
+    const served = JSON.parse(generateJSON(DOC));
+    const result = await verify(served, jws, { keys: [publicJwk] });
+    expect(result).toMatchObject({ valid: true, alg: keyAlgorithm(privateJwk) });
+  });
+
+  it("picks the key by kid and rejects tampering", async () => {
+    const other = jwkPair("ec", "old");
+    const jws = await sign(DOC, ec.privateJwk);
+    const keys = { keys: [other.publicJwk, ec.publicJwk] };
+    expect(await verify(DOC, jws, keys)).toEqual({ valid: true, kid: "2026-01", alg: "ES256" });
+
+    const tampered = { ...DOC, policies: { ...DOC.policies, training: "allow" as const } };
+    expect(await verify(tampered, jws, keys)).toEqual({ valid: false, reason: "Signature does not match the document" });
+    expect((await verify(DOC, jws, [other.publicJwk])).reason).toBe('No ES256 key with kid "2026-01"');
+  });
+
+  it("reports malformed signatures without throwing", async () => {
+    const keys = [ec.publicJwk];
+    expect((await verify(DOC, "not-a-jws", keys)).reason).toBe("Signature is not a detached compact JWS");
+    expect((await verify(DOC, "e30..AA", keys)).reason).toBe("Unsupported signature algorithm: undefined");
+    expect((await verify(DOC, `${base64url('{"alg":"none"}')}..`, keys)).reason).toBe("Unsupported signature algorithm: none");
+    expect((await verify(DOC, undefined, keys)).reason).toBe("Document is not signed");
+    expect((await verify(DOC, `${base64url("null")}..AA`, keys)).reason).toBe("Signature header is not a JSON object");
+    await expect(sign(DOC, ec.publicJwk)).rejects.toThrow(RangeError);
+  });
+
+  it("skips published keys that are not objects", async () => {
+    const jws = await sign(DOC, ec.privateJwk);
+    expect(await verify(DOC, jws, { keys: [null, "key", ec.publicJwk] as unknown as JsonWebKey[] }))
+      .toEqual({ valid: true, kid: "2026-01", alg: "ES256" });
+    expect((await verify(DOC, jws, { keys: [null] as unknown as JsonWebKey[] })).reason).toBe('No ES256 key with kid "2026-01"');
+  });
+
+  it("signs ai.txt inline and verifies the Signature line", async () => {
+    const signed = await signText(TEXT, ec.privateJwk);
+    expect(signed).toMatch(/^Training: deny\nSignature: [\w-]+\.\.[\w-]+\n$/m);
+    expect(unsignedText(signed)).toBe(TEXT);
+    expect((await verify(signed, undefined, [ec.publicJwk])).valid).toBe(true);
+
+    // Re-signing replaces the old signature
+    expect((await signText(signed, ec.privateJwk)).match(/^Signature:/gm)).toHaveLength(1);
+
+    expect((await verify(signed.replace("deny", "allow"), undefined, [ec.publicJwk])).valid).toBe(false);
+
+    // The parser ignores the envelope
+    const result = parse(signed, { strict: true });
+    expect(result.errors).toEqual([]);
+    expect(result.document?.metadata).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { documentValidity, findEmbargo, isDateTime, parseDuration, parseEmbargo } from "../src/time.js";
+import { canAccess } from "../src/resolver.js";
+import { compilePolicy } from "../src/policy.js";
+import { explain } from "../src/explain.js";
+import { parse } from "../src/parser.js";
+
+const DOC = parse(`Site-Name: News
+Site-URL: https://news.example
+Valid-From: 2026-01-01
+Expires: 2026-07-01T00:00:00Z
+
+Training: allow
+Training-Embargo: /articles/** 30d
+Training-Embargo: /articles/breaking/** 7d
+Scraping: conditional
+Scraping-Allow: /articles/**
+Scraping-Embargo: /articles/** 1h
+
+Agent: PartnerBot
+  Training: allow
+`).document!;
+
+const NOW = new Date("2026-03-01T00:00:00Z");
+
+describe("durations and dates", () => {
+  it("parses durations", () => {
+    expect(parseDuration("90m")).toBe(5_400_000);
+    expect(parseDuration("12h")).toBe(43_200_000);
+    expect(parseDuration("30d")).toBe(2_592_000_000);
+    expect(parseDuration("2w")).toBe(1_209_600_000);
+    for (const bad of ["0d", "30", "d", "1.5d", "30 d", "30y"]) expect(parseDuration(bad)).toBeNull();
+  });
+
+  it("parses embargo values", () => {
+    expect(parseEmbargo("/news/**  7d")).toEqual({ pattern: "/news/**", duration: "7d" });
+    expect(parseEmbargo("/news/**")).toBeNull();
+    expect(parseEmbargo("/news/** soon")).toBeNull();
+  });
+
+  it("accepts ISO 8601 dates and date-times with an offset", () => {
+    expect(isDateTime("2026-01-01")).toBe(true);
+    expect(isDateTime("2026-01-01T09:30:00.5+01:00")).toBe(true);
+    expect(isDateTime("2026-01-01T09:30:00")).toBe(false);
+    expect(isDateTime("January 1, 2026")).toBe(false);
+  });
+});
+
+describe("documentValidity", () => {
+  it("checks the Valid-From / Expires window", () => {
+    expect(documentValidity(DOC, new Date("2025-12-31T23:59:59Z"))).toBe("not-yet-valid");
+    expect(documentValidity(DOC, NOW)).toBe("valid");
+    expect(documentValidity(DOC, new Date("2026-07-01T00:00:00Z"))).toBe("expired");
+  });
+
+  it("treats a missing bound as open", () => {
+    expect(documentValidity({ ...DOC, validFrom: undefined }, new Date("2000-01-01"))).toBe("valid");
+    expect(documentValidity({ ...DOC, expires: undefined }, new Date("2100-01-01"))).toBe("valid");
+  });
+
+  it("denies every check outside the window", () => {
+    const expired = new Date("2026-08-01T00:00:00Z");
+    expect(canAccess(DOC, "PartnerBot", "training", "/about", { now: expired })).toEqual({
+      allowed: false,
+      reason: "the policy expired at 2026-07-01T00:00:00Z",
+      validity: "expired",
+    });
+    expect(canAccess(DOC, "AnyBot", "train-genai", undefined, { now: new Date("2025-06-01") })).toEqual({
+      allowed: false,
+      reason: "the policy is not valid until 2026-01-01",
+      validity: "not-yet-valid",
+    });
+    expect(canAccess(DOC, "PartnerBot", "training", "/about", { now: NOW }).allowed).toBe(true);
+  });
+
+  it("agrees with compiled policies and explain() on the window", () => {
+    const compiled = compilePolicy(DOC);
+    for (const now of [new Date("2025-06-01"), NOW, new Date("2026-08-01")]) {
+      const expected = canAccess(DOC, "PartnerBot", "training", "/about", { now });
+      expect(compiled.decide("PartnerBot", "training", "/about", { now })).toEqual(expected);
+      expect(explain(DOC, "PartnerBot", "training", "/about", { now }).result).toEqual(expected);
+    }
+  });
+});
+
+describe("embargoes", () => {
+  it("picks the most specific rule, then the longest duration", () => {
+    const rules = [
+      { pattern: "/a/**", duration: "1d" },
+      { pattern: "/a/**", duration: "2d" },
+      { pattern: "/a/b/**", duration: "1h" },
+    ];
+    expect(findEmbargo(rules, "/a/x")).toBe(rules[1]);
+    expect(findEmbargo(rules, "/a/b/x")).toBe(rules[2]);
+    expect(findEmbargo(rules, "/c")).toBeUndefined();
+  });
+
+  it("denies embargoed content until the embargo lifts", () => {
+    const recent = canAccess(DOC, "AnyBot", "training", "/articles/x", { now: NOW, publishedAt: "2026-02-15" });
+    expect(recent).toEqual({
+      allowed: false,
+      reason: 'path "/articles/x" is under a 30d training embargo ("/articles/**") until 2026-03-17T00:00:00.000Z',
+      embargo: { pattern: "/articles/**", duration: "30d", until: "2026-03-17T00:00:00.000Z" },
+    });
+    expect(canAccess(DOC, "AnyBot", "training", "/articles/x", { now: NOW, publishedAt: new Date("2026-01-15") }).allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "training", "/articles/breaking/x", { now: NOW, publishedAt: "2026-02-15" }).allowed).toBe(true);
+  });
+
+  it("denies embargoed paths whose publication date is unknown", () => {
+    const result = canAccess(DOC, "AnyBot", "training", "/articles/x", { now: NOW });
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain("publication date is unknown");
+    expect(result.embargo).toEqual({ pattern: "/articles/**", duration: "30d" });
+  });
+
+  it("leaves other paths and denied results alone", () => {
+    expect(canAccess(DOC, "AnyBot", "training", "/about", { now: NOW }).allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "training", undefined, { now: NOW })).toEqual({ allowed: true, reason: "training is allowed" });
+    expect(canAccess(DOC, "AnyBot", "scraping", "/about", { now: NOW }).embargo).toBeUndefined();
+  });
+
+  it("applies to conditional fields after the path rules", () => {
+    const publishedAt = "2026-02-28T23:30:00Z";
+    expect(canAccess(DOC, "AnyBot", "scraping", "/articles/x", { now: NOW, publishedAt }).allowed).toBe(false);
+    expect(canAccess(DOC, "AnyBot", "scraping", "/articles/x", { now: new Date("2026-03-01T00:30:00Z"), publishedAt }))
+      .toMatchObject({ allowed: true, rule: { type: "allow", pattern: "/articles/**" } });
+  });
+
+  it("agrees with compiled policies and explain()", () => {
+    const compiled = compilePolicy(DOC);
+    for (const publishedAt of [undefined, "2026-02-28T23:30:00Z", "2026-02-15", "2025-12-01"]) {
+      for (const path of ["/articles/x", "/articles/breaking/x", "/about"]) {
+        for (const field of ["training", "scraping"] as const) {
+          const expected = canAccess(DOC, "AnyBot", field, path, { now: NOW, publishedAt });
+          expect(compiled.decide("AnyBot", field, path, { now: NOW, publishedAt })).toEqual(expected);
+          expect(explain(DOC, "AnyBot", field, path, { now: NOW, publishedAt }).result).toEqual(expected);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { parseScopeList, scopeViolation, USAGE_TYPES } from "../src/usage.js";
+import { canAccess, resolve } from "../src/resolver.js";
+import { compilePolicy } from "../src/policy.js";
+import { parse } from "../src/parser.js";
+import { parseJSON } from "../src/parser-json.js";
+import { generate } from "../src/generator.js";
+import { generateJSON } from "../src/generator-json.js";
+import type { UsageProfile } from "../src/types.js";
+
+const DOC = parse(`Site-Name: Scopes
+Site-URL: https://scopes.example
+
+Training: allow
+Training-Usage: research, non-commercial
+Indexing: allow
+Indexing-Distribution: open-weights
+
+Agent: PartnerBot
+  Training-Usage: commercial, research
+  Training-Distribution: proprietary
+
+Agent: GPTBot
+  Training: deny
+`).document!;
+
+describe("parseScopeList", () => {
+  it("normalizes and checks entries against the vocabulary", () => {
+    expect(parseScopeList(" Research ,non-commercial", USAGE_TYPES)).toEqual(["research", "non-commercial"]);
+    expect(parseScopeList("research, academic", USAGE_TYPES)).toBeNull();
+    expect(parseScopeList("", USAGE_TYPES)).toBeNull();
+  });
+});
+
+describe("scopeViolation", () => {
+  it("explains why a profile is outside a scope", () => {
+    const scope = { usage: ["research" as const], distribution: ["open-weights" as const] };
+    expect(scopeViolation(scope, { usage: "research", distribution: "open-weights" })).toBeUndefined();
+    expect(scopeViolation(scope, { usage: "commercial", distribution: "open-weights" })).toBe("limited to research use");
+    expect(scopeViolation(scope, { usage: "research" })).toBe("limited to open-weights models and no model distribution was declared");
+    expect(scopeViolation(scope)).toBe("limited to research use and no usage was declared");
+    expect(scopeViolation({}, {})).toBeUndefined();
+  });
+});
+
+describe("usage scopes in canAccess", () => {
+  it("allows only profiles inside the scope", () => {
+    expect(canAccess(DOC, "AnyBot", "training", undefined, { profile: { usage: "research" } }).allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "training", undefined, { profile: { usage: "commercial" } })).toEqual({
+      allowed: false,
+      reason: "training is limited to research, non-commercial use",
+      scope: { usage: ["research", "non-commercial"] },
+    });
+    expect(canAccess(DOC, "AnyBot", "training").reason).toBe("training is limited to research, non-commercial use and no usage was declared");
+  });
+
+  it("applies a field's scope to the purposes that narrow it", () => {
+    const profile: UsageProfile = { usage: "commercial" };
+    expect(canAccess(DOC, "AnyBot", "train-genai", undefined, { profile }).allowed).toBe(false);
+    expect(canAccess(DOC, "AnyBot", "search", undefined, { profile: { distribution: "proprietary" } }).allowed).toBe(false);
+    expect(canAccess(DOC, "AnyBot", "search", undefined, { profile: { distribution: "open-weights" } }).allowed).toBe(true);
+    expect(canAccess(DOC, "AnyBot", "scraping").allowed).toBe(true);
+  });
+
+  it("lets an agent block replace the site-wide scope", () => {
+    expect(resolve(DOC, "PartnerBot").trainingScope).toEqual({ usage: ["commercial", "research"], distribution: ["proprietary"] });
+    expect(canAccess(DOC, "PartnerBot", "training", undefined, { profile: { usage: "commercial", distribution: "proprietary" } }).allowed).toBe(true);
+    expect(canAccess(DOC, "PartnerBot", "training", undefined, { profile: { usage: "non-commercial", distribution: "proprietary" } }).allowed).toBe(false);
+  });
+
+  it("does not turn a deny into anything else", () => {
+    expect(canAccess(DOC, "GPTBot", "training", undefined, { profile: { usage: "research" } })).toEqual({
+      allowed: false,
+      reason: "training is denied",
+    });
+  });
+
+  it("gives compiled policies the same answers", () => {
+    const compiled = compilePolicy(DOC);
+    const profiles: UsageProfile[] = [{}, { usage: "research" }, { usage: "commercial", distribution: "proprietary" }];
+    for (const agent of ["AnyBot", "PartnerBot", "GPTBot"]) {
+      for (const profile of profiles) {
+        for (const field of ["training", "indexing", "train-genai"]) {
+          expect(compiled.decide(agent, field, undefined, { profile })).toEqual(canAccess(DOC, agent, field, undefined, { profile }));
+        }
+      }
+    }
+  });
+});
+
+describe("usage scope formats", () => {
+  it("round-trips through text and JSON", () => {
+    const text = generate(DOC);
+    expect(text).toContain("Training-Usage: research, non-commercial\nIndexing-Distribution: open-weights\n");
+    expect(text).toContain("  Training-Usage: commercial, research\n  Training-Distribution: proprietary\n");
+    expect(parse(text).document).toEqual({ ...DOC, generatedAt: undefined });
+    expect(parseJSON(generateJSON(DOC)).document).toEqual(DOC);
+  });
+
+  it("warns on unknown scope entries", () => {
+    const result = parse("Site-Name: A\nSite-URL: https://a.example\nTraining-Usage: research, academic\n");
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ code: "INVALID_USAGE_SCOPE", field: "Training-Usage", line: 3 }),
+    ]);
+    expect(result.document?.trainingScope).toBeUndefined();
+  });
+
+  it("rejects unknown scope entries in ai.json", () => {
+    const result = parseJSON(JSON.stringify({ ...JSON.parse(generateJSON(DOC)), trainingScope: { usage: ["academic"] } }));
+    expect(result.success).toBe(false);
+    expect(result.errors[0].field).toBe("trainingScope.usage.0");
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { parseUserAgent, matchAgent, isAgentPattern } from "../src/user-agent.js";
+
+const AGENTS = ["*", "claudebot", "gptbot", "googlebot", "bytespider", "claude web"];
+
+// -- parseUserAgent --
+
+describe("parseUserAgent", () => {
+  it("splits products and strips versions", () => {
+    expect(parseUserAgent("ClaudeBot/1.0 (+https://www.anthropic.com)")).toEqual([
+      { name: "ClaudeBot", version: "1.0", inComment: false },
+    ]);
+  });
+
+  it("finds products inside compatible comments", () => {
+    const products = parseUserAgent(
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)",
+    );
+    expect(products.map((p) => p.name)).toEqual(["Mozilla", "AppleWebKit", "GPTBot"]);
+    expect(products[2]).toEqual({ name: "GPTBot", version: "1.2", inComment: true });
+  });
+
+  it("accepts bare names only in compatible comments", () => {
+    expect(parseUserAgent("Mozilla/5.0 (compatible; Bytespider; spider-feedback@bytedance.com)").map((p) => p.name))
+      .toEqual(["Mozilla", "Bytespider"]);
+    expect(parseUserAgent("Mozilla/5.0 (Windows NT 10.0; Win64; x64)").map((p) => p.name)).toEqual(["Mozilla"]);
+  });
+
+  it("handles nested and unclosed comments", () => {
+    expect(parseUserAgent("A/1 (x (nested); compatible; B/2) C/3").map((p) => p.name)).toEqual(["A", "B", "C"]);
+    expect(parseUserAgent("A/1 (compatible; B/2").map((p) => p.name)).toEqual(["A", "B"]);
+  });
+
+  it("returns nothing for an empty header", () => {
+    expect(parseUserAgent("")).toEqual([]);
+  });
+});
+
+// -- matchAgent --
+
+describe("matchAgent", () => {
+  it("matches bare names case-insensitively", () => {
+    expect(matchAgent("ClaudeBot", AGENTS)).toBe("claudebot");
+    expect(matchAgent("Claude Web", AGENTS)).toBe("claude web");
+  });
+
+  it("matches the first product of a crawler header", () => {
+    expect(matchAgent("ClaudeBot/1.0 (+https://www.anthropic.com)", AGENTS)).toBe("claudebot");
+  });
+
+  it("prefers the bot named in a comment over browser tokens", () => {
+    const header =
+      "Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) " +
+      "Chrome/120.0.0.0 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)";
+    expect(matchAgent(header, [...AGENTS, "mozilla"])).toBe("googlebot");
+  });
+
+  it("prefers exact names over family patterns", () => {
+    const agents = ["*", "google-*", "google-extended"];
+    expect(matchAgent("Google-Extended", agents)).toBe("google-extended");
+    expect(matchAgent("Google-CloudVertexBot", agents)).toBe("google-*");
+    expect(matchAgent("Mozilla/5.0 (compatible; Google-InspectionTool/1.0)", agents)).toBe("google-*");
+    expect(matchAgent("Googlebot", agents)).toBeUndefined();
+  });
+
+  it("picks the most specific matching pattern", () => {
+    const agents = ["*", "google-*", "google-cloud*", "*bot"];
+    expect(matchAgent("Google-CloudVertexBot", agents)).toBe("google-cloud*");
+    expect(matchAgent("Google-Other", agents)).toBe("google-*");
+    expect(matchAgent("Googlebot", agents)).toBe("*bot");
+  });
+
+  it("tries an exact name in a later product before any pattern", () => {
+    expect(matchAgent("Mozilla/5.0 (compatible; Google-Safety/1.0) GPTBot/1.0", ["google-*", "gptbot"])).toBe("gptbot");
+  });
+
+  it("recognizes patterns", () => {
+    expect(isAgentPattern("google-*")).toBe(true);
+    expect(isAgentPattern("*")).toBe(false);
+    expect(isAgentPattern("googlebot")).toBe(false);
+  });
+
+  it("returns undefined when no block matches", () => {
+    expect(matchAgent("Mozilla/5.0 (Windows NT 10.0; Win64; x64) Firefox/120.0", AGENTS)).toBeUndefined();
+    expect(matchAgent("", AGENTS)).toBeUndefined();
+  });
+});
@@ -64,6 +64,44 @@ describe("validate", () => {
     expect(result.warnings.some((w) => w.code === "AGENT_CONDITIONAL_POLICY")).toBe(true);
   });
 
+  it("no conditional warning when the agent declares its own training paths", () => {
+    const doc: AiTxtDocument = {
+      ...VALID_DOC,
+      agents: { "*": {}, claudebot: { training: "conditional", trainingPaths: { allow: ["/docs/**"], deny: [] } } },
+    };
+    const result = validate(doc);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.some((w) => w.code === "AGENT_CONDITIONAL_POLICY")).toBe(false);
+  });
+
+  it("still warns on conditional agent policies for non-training fields", () => {
+    const doc: AiTxtDocument = {
+      ...VALID_DOC,
+      trainingPaths: { allow: ["/docs/**"], deny: [] },
+      agents: { "*": { scraping: "conditional" } },
+    };
+    const result = validate(doc);
+    expect(result.warnings.some((w) => w.code === "AGENT_CONDITIONAL_POLICY")).toBe(true);
+  });
+
+  it("warns when scraping, indexing or caching is conditional without path rules", () => {
+    const doc: AiTxtDocument = {
+      ...VALID_DOC,
+      policies: { ...VALID_DOC.policies, caching: "conditional" },
+      indexingPaths: { allow: ["/products/**"], deny: [] },
+    };
+    const result = validate(doc);
+    expect(result.warnings.filter((w) => w.code === "MISSING_PATH_RULES").map((w) => w.path)).toEqual(["policies.caching"]);
+  });
+
+  it("no conditional warning when the agent has path rules for that field", () => {
+    const doc: AiTxtDocument = {
+      ...VALID_DOC,
+      agents: { "*": { caching: "conditional", cachingPaths: { allow: [], deny: ["/cart/**"] } } },
+    };
+    expect(validate(doc).warnings.some((w) => w.code === "AGENT_CONDITIONAL_POLICY")).toBe(false);
+  });
+
   it("no conditional warning for allow/deny agent policies", () => {
     const doc: AiTxtDocument = {
       ...VALID_DOC,
@@ -84,16 +122,103 @@ describe("validate", () => {
   });
 });
 
+describe("validate (time-bound policies)", () => {
+  it("warns when Expires is not after Valid-From", () => {
+    const result = validate({ ...VALID_DOC, validFrom: "2026-06-01", expires: "2026-01-01T00:00:00Z" });
+    expect(result.warnings).toContainEqual(expect.objectContaining({ path: "expires", code: "EMPTY_VALIDITY_WINDOW" }));
+    expect(validate({ ...VALID_DOC, validFrom: "2026-01-01", expires: "2026-06-01" }).warnings).toEqual([]);
+  });
+
+  it("rejects malformed embargo durations and dates", () => {
+    const result = validate({
+      ...VALID_DOC,
+      expires: "soon",
+      trainingPaths: { allow: [], deny: [], embargo: [{ pattern: "/news/**", duration: "30 days" }] },
+    });
+    expect(result.errors.map((e) => e.path)).toEqual(["expires", "trainingPaths.embargo.0.duration"]);
+  });
+});
+
+describe("validate (path patterns)", () => {
+  it("rejects patterns that cannot be compiled", () => {
+    const result = validateText(`Site-Name: Test
+Site-URL: https://test.com
+Training: conditional
+Training-Allow: /[z-a]
+
+Agent: GPTBot
+  Scraping-Deny: /ok/**
+  Scraping-Deny: /{x,[9-0]}
+
+Jurisdiction: EU
+  Training: conditional
+  Training-Deny: /[b-a]/**
+  TDM-Reservation: yes
+`);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      { path: "trainingPaths.allow.0", message: 'Invalid path pattern "/[z-a]": Invalid character class range: z-a', code: "INVALID_PATH_PATTERN" },
+      { path: "agents.gptbot.scrapingPaths.deny.1", message: 'Invalid path pattern "/{x,[9-0]}": Invalid character class range: 9-0', code: "INVALID_PATH_PATTERN" },
+      { path: "jurisdictions.EU.trainingPaths.deny.0", message: 'Invalid path pattern "/[b-a]/**": Invalid character class range: b-a', code: "INVALID_PATH_PATTERN" },
+    ]);
+  });
+});
+
+describe("validate (purposes)", () => {
+  it("warns when a purpose is conditional without paths", () => {
+    const result = validate({ ...VALID_DOC, purposes: { "ai-input": "conditional" } });
+    expect(result.warnings).toContainEqual(expect.objectContaining({ path: "purposes.ai-input", code: "MISSING_PATH_RULES" }));
+  });
+
+  it("accepts paths inherited from the broader purpose", () => {
+    const doc: AiTxtDocument = {
+      ...VALID_DOC,
+      scrapingPaths: { allow: ["/docs/**"], deny: [] },
+      agents: { gptbot: { purposes: { "ai-input": "conditional" } } },
+      purposes: { "ai-input": "conditional" },
+    };
+    expect(validate(doc).warnings.filter((w) => w.code.includes("PATH") || w.code.includes("CONDITIONAL"))).toEqual([]);
+  });
+
+  it("warns when an agent's conditional purpose has no paths", () => {
+    const doc: AiTxtDocument = { ...VALID_DOC, agents: { gptbot: { purposes: { "train-genai": "conditional" } } } };
+    expect(validate(doc).warnings).toContainEqual(
+      expect.objectContaining({ path: "agents.gptbot.purposes.train-genai", code: "AGENT_CONDITIONAL_POLICY" }),
+    );
+  });
+});
+
 describe("validateText", () => {
   it("validates valid text", () => {
     const result = validateText("Site-Name: Test\nSite-URL: https://test.com\n");
     expect(result.valid).toBe(true);
   });
 
-  it("reports parse errors", () => {
+  it("reports parse errors with their diagnostic codes", () => {
     const result = validateText("");
     expect(result.valid).toBe(false);
-    expect(result.errors.some((e) => e.code === "PARSE_ERROR")).toBe(true);
+    expect(result.errors.some((e) => e.code === "MISSING_REQUIRED_FIELD")).toBe(true);
+  });
+
+  it("carries parser warnings through with locations", () => {
+    const result = validateText("Site-Name: Test\nSite-URL: https://test.com\nTraining: maybe\n");
+    expect(result.valid).toBe(true);
+    const warning = result.warnings.find((w) => w.code === "INVALID_POLICY_VALUE");
+    expect(warning).toMatchObject({ path: "Training", line: 3, column: 11, endColumn: 16 });
+  });
+
+  it("fails strict validation on ambiguous documents", () => {
+    const text = "Site-Name: Test\nSite-URL: https://test.com\nTraining: deny\nTraining: allow\n";
+    expect(validateText(text).valid).toBe(true);
+    const result = validateText(text, { strict: true });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].code).toBe("DUPLICATE_KEY");
+  });
+
+  it("keeps parser warnings when parsing fails", () => {
+    const result = validateText("  Orphan: value\n");
+    expect(result.valid).toBe(false);
+    expect(result.warnings.some((w) => w.code === "INDENT_OUTSIDE_BLOCK")).toBe(true);
   });
 });
 
@@ -112,11 +237,12 @@ describe("validateJSON", () => {
   it("reports JSON parse errors", () => {
     const result = validateJSON("not json");
     expect(result.valid).toBe(false);
-    expect(result.errors.some((e) => e.code === "PARSE_ERROR")).toBe(true);
+    expect(result.errors.some((e) => e.code === "INVALID_JSON")).toBe(true);
   });
 
   it("reports schema violations", () => {
     const result = validateJSON(JSON.stringify({ specVersion: "bad" }));
     expect(result.valid).toBe(false);
+    expect(result.errors.every((e) => e.code === "SCHEMA_VIOLATION")).toBe(true);
   });
 });
@@ -0,0 +1,66 @@
+/**
+ * Glob matcher benchmark: a crawler-shaped workload (a few dozen patterns,
+ * many distinct URLs) against the pre-compilation matcher.
+ *
+ *   pnpm --filter @ai-txt/core bench
+ */
+
+import { bench, describe } from "vitest";
+import { compileGlob, globMatch, normalizePath } from "../src/glob.js";
+
+/** The original matcher: builds a new RegExp on every call. */
+function legacyGlobMatch(path: string, pattern: string): boolean {
+  const regexStr = pattern
+    .replace(/([.+?^${}()|[\]\\])/g, "\\$1")
+    .replace(/\/\*\*\//g, "\u0001")
+    .replace(/\*\*/g, "\u0002")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\u0001/g, "(?:/.+)?/")
+    .replace(/\u0002/g, ".*");
+
+  const regex = new RegExp(`^${regexStr}$`);
+  return regex.test(path);
+}
+
+// Only syntax the legacy matcher understands, so both do the same work
+const PATTERNS = [
+  "/blog/**", "/blog/premium/**", "/blog/*/drafts/*", "/news/*", "/news/archive/**",
+  "/docs/**", "/docs/internal/**", "/api/*/users/*", "/api/**", "/private/**",
+  "/account/**", "/cart/**", "/checkout/**", "/search/*", "/tags/*",
+  "/authors/*", "/authors/*/drafts/**", "/media/*.jpg", "/media/*.png", "/media/**",
+  "/downloads/*.pdf", "/downloads/**", "/forum/**", "/forum/private/**", "/static/**",
+  "/assets/*.js", "/assets/*.css", "/a/**/e", "/shop/*/reviews", "/shop/**",
+];
+
+const SECTIONS = ["blog", "news", "docs", "api", "media", "forum", "shop", "authors", "about", "assets"];
+const PATHS = Array.from({ length: 1000 }, (_, i) => {
+  const section = SECTIONS[i % SECTIONS.length];
+  const depth = 1 + (i % 4);
+  const segments = Array.from({ length: depth }, (_, d) => `s${(i * 7 + d * 13) % 97}`);
+  const ext = i % 5 === 0 ? ".png" : i % 7 === 0 ? ".pdf" : "";
+  return `/${section}/${segments.join("/")}${ext}`;
+});
+
+const NORMALIZED = PATHS.map((path) => normalizePath(path));
+const COMPILED = PATTERNS.map((pattern) => compileGlob(pattern));
+
+describe(`${PATHS.length} paths x ${PATTERNS.length} patterns`, () => {
+  bench("legacy globMatch (RegExp per call)", () => {
+    for (const path of PATHS) for (const pattern of PATTERNS) legacyGlobMatch(path, pattern);
+  });
+
+  bench("globMatch (cached, normalizes per call)", () => {
+    for (const path of PATHS) for (const pattern of PATTERNS) globMatch(path, pattern);
+  });
+
+  bench("compileGlob + normalizePath once per URL", () => {
+    for (const path of PATHS) {
+      const normalized = normalizePath(path);
+      for (const glob of COMPILED) glob.test(normalized);
+    }
+  });
+
+  bench("compiled globs on pre-normalized paths", () => {
+    for (const path of NORMALIZED) for (const glob of COMPILED) glob.test(path);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Compiled policy benchmark: `canAccess()` per URL against a document
+ * compiled once with `compilePolicy()`.
+ *
+ *   pnpm --filter @ai-txt/core bench
+ */
+
+import { bench, describe } from "vitest";
+import { canAccess } from "../src/resolver.js";
+import { compilePolicy } from "../src/policy.js";
+import type { AiTxtDocument } from "../src/types.js";
+
+const SECTIONS = ["blog", "news", "docs", "api", "media", "forum", "shop", "authors", "about", "assets"];
+
+const DOC: AiTxtDocument = {
+  specVersion: "1.0",
+  site: { name: "Bench", url: "https://bench.example" },
+  policies: { training: "conditional", scraping: "conditional", indexing: "allow", caching: "allow" },
+  trainingPaths: {
+    allow: SECTIONS.map((s) => `/${s}/**`),
+    deny: SECTIONS.flatMap((s) => [`/${s}/private/**`, `/${s}/*/drafts/*`]),
+  },
+  scrapingPaths: { allow: ["/**"], deny: ["/account/**", "/cart/**", "/search$"] },
+  agents: {
+    "*": { rateLimit: { requests: 60, window: "minute" } },
+    claudebot: { training: "allow" },
+    gptbot: { trainingPaths: { allow: ["/docs/**"], deny: ["/docs/v[0-9]/**"] } },
+  },
+};
+
+const URLS = Array.from({ length: 1000 }, (_, i) => {
+  const section = SECTIONS[i % SECTIONS.length];
+  const tail = i % 3 === 0 ? "private/x" : i % 3 === 1 ? `p${i}/drafts/d` : `p${i}`;
+  return `/${section}/${tail}`;
+});
+
+const compiled = compilePolicy(DOC);
+
+describe(`${URLS.length} URLs, ${DOC.trainingPaths!.allow.length + DOC.trainingPaths!.deny.length} training rules`, () => {
+  bench("canAccess per URL", () => {
+    for (const url of URLS) canAccess(DOC, "SomeBot", "training", url);
+  });
+
+  bench("compiled decide per URL", () => {
+    for (const url of URLS) compiled.decide("SomeBot", "training", url);
+  });
+
+  bench("compiled decideAll", () => {
+    compiled.decideAll("SomeBot", "training", URLS);
+  });
+});
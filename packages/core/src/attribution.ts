@@ -0,0 +1,186 @@
+/**
+ * ai.txt - Attribution
+ *
+ * `Attribution: required` says that AI outputs must credit the source, not
+ * how. `attribution()` builds the credit from the document: the site's
+ * name, the page URL and the declared `Training-License`, in plain text,
+ * Markdown, HTML and the Creative Commons TASL form (Title, Author, Source,
+ * License).
+ *
+ * Sites can choose the wording with a template:
+ *
+ *   Attribution-Template: Via {site} ({url}) - {license}
+ *
+ * Placeholders are {title}, {author}, {site}, {url} and {license}.
+ */
+
+import type { AiTxtDocument, RequirementLevel } from "./types.js";
+
+// -- Types --
+
+export interface AttributionOptions {
+  /** Title of the page or work. Default: the site name. */
+  title?: string;
+  /** Author of the work. Default: the site name. */
+  author?: string;
+}
+
+/** A ready-to-use citation in several formats. */
+export interface Citation {
+  /** Plain text, following the site's template if it declares one. */
+  text: string;
+  /** The same wording as `text`, with links in Markdown. */
+  markdown: string;
+  /** The same wording as `text`, with links in escaped HTML. */
+  html: string;
+  /** Creative Commons TASL form: `"Title" by Author (Source) is licensed under License (URL).` */
+  tasl: string;
+  /** The license the citation names, if the site declares one. */
+  license?: LicenseReference;
+  /** The site's `Attribution` level - whether the citation must be shown. */
+  requirement?: RequirementLevel;
+}
+
+/** A license identifier with its display name and, where known, its deed or text. */
+export interface LicenseReference {
+  /** SPDX identifier as declared, e.g. "CC-BY-SA-4.0". */
+  id: string;
+  /** Display name, e.g. "CC BY-SA 4.0". */
+  name: string;
+  url?: string;
+}
+
+// -- Licenses --
+
+const CREATIVE_COMMONS = /^CC-(BY(?:-NC)?(?:-SA|-ND)?)-(\d\.\d)$/i;
+
+/**
+ * Display name and URL for an SPDX identifier. Creative Commons licenses
+ * link to their deeds, other SPDX licenses to the SPDX list, and
+ * `LicenseRef-*` identifiers to `feeUrl` (the site's licensing page) if given.
+ */
+export function licenseReference(id: string, feeUrl?: string): LicenseReference {
+  const cc = id.match(CREATIVE_COMMONS);
+  if (cc) {
+    const [, code, version] = cc;
+    return {
+      id,
+      name: `CC ${code.toUpperCase()} ${version}`,
+      url: `https://creativecommons.org/licenses/${code.toLowerCase()}/${version}/`,
+    };
+  }
+  if (/^CC0-1\.0$/i.test(id)) {
+    return { id, name: "CC0 1.0", url: "https://creativecommons.org/publicdomain/zero/1.0/" };
+  }
+  if (/^LicenseRef-/i.test(id)) {
+    return feeUrl ? { id, name: "custom license terms", url: feeUrl } : { id, name: "custom license terms" };
+  }
+  return { id, name: id, url: `https://spdx.org/licenses/${id}.html` };
+}
+
+// -- Templates --
+
+/** The placeholders an `Attribution-Template` may use. */
+export const ATTRIBUTION_PLACEHOLDERS: readonly string[] = ["title", "author", "site", "url", "license"];
+
+const DEFAULT_TEMPLATE = "Source: {site} ({url})";
+const DEFAULT_LICENSED_TEMPLATE = "Source: {site} ({url}), licensed under {license}";
+
+/** Placeholders in a template that are not in `ATTRIBUTION_PLACEHOLDERS`. */
+export function unknownPlaceholders(template: string): string[] {
+  return [...template.matchAll(/\{([^{}]*)\}/g)]
+    .map((match) => match[1])
+    .filter((name) => !ATTRIBUTION_PLACEHOLDERS.includes(name));
+}
+
+type Renderer = (text: string, href?: string) => string;
+
+/** Fill a template's placeholders with `render`, and everything else with `literal`. */
+function fill(
+  template: string,
+  values: Record<string, { text: string; href?: string }>,
+  render: Renderer,
+  literal: (text: string) => string,
+): string {
+  return template
+    .split(/(\{[^{}]*\})/)
+    .map((part) => {
+      const name = part.slice(1, -1);
+      return part.startsWith("{") && Object.hasOwn(values, name) ? render(values[name].text, values[name].href) : literal(part);
+    })
+    .join("");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>]/g, "\\$&");
+}
+
+function markdownHref(href: string): string {
+  return href.replace(/[()\s]/g, (ch) => encodeURIComponent(ch));
+}
+
+// -- Citations --
+
+/**
+ * Build a citation for a page on a site, following the site's
+ * `Attribution-Template` and `Training-License`.
+ *
+ * @param doc     - The site's ai.txt document.
+ * @param pageUrl - The cited page: an absolute URL or a path on the site.
+ *                  Throws a RangeError if it is not a valid URL.
+ * @param options - Title and author of the work.
+ *
+ * ```ts
+ * attribution(doc, "/2026/cycling", { title: "Council backs cycling network" }).markdown;
+ * // -> "Source: News Daily ([https://news.example/2026/cycling](https://news.example/2026/cycling)), licensed under [CC BY 4.0](https://creativecommons.org/licenses/by/4.0/)"
+ * ```
+ */
+export function attribution(doc: AiTxtDocument, pageUrl: string, options: AttributionOptions = {}): Citation {
+  let url: string;
+  try {
+    url = new URL(pageUrl, doc.site.url).href;
+  } catch {
+    throw new RangeError(`Invalid page URL: ${pageUrl}`);
+  }
+
+  const site = doc.site.name;
+  const title = options.title ?? site;
+  const author = options.author ?? site;
+  const license = doc.licensing?.license ? licenseReference(doc.licensing.license, doc.licensing.feeUrl) : undefined;
+
+  const values: Record<string, { text: string; href?: string }> = {
+    title: { text: title },
+    author: { text: author },
+    site: { text: site },
+    url: { text: url, href: url },
+    license: { text: license?.name ?? "", href: license?.url },
+  };
+  const template = doc.content?.attributionTemplate ?? (license ? DEFAULT_LICENSED_TEMPLATE : DEFAULT_TEMPLATE);
+
+  const tasl = `"${title}" by ${author} (${url})` +
+    (license ? ` is licensed under ${license.name}${license.url ? ` (${license.url})` : ""}.` : ".");
+
+  const citation: Citation = {
+    text: fill(template, values, (text) => text, (text) => text),
+    markdown: fill(
+      template,
+      values,
+      (text, href) => (href ? `[${escapeMarkdown(text)}](${markdownHref(href)})` : escapeMarkdown(text)),
+      escapeMarkdown,
+    ),
+    html: fill(
+      template,
+      values,
+      (text, href) => (href ? `<a href="${escapeHtml(href)}">${escapeHtml(text)}</a>` : escapeHtml(text)),
+      escapeHtml,
+    ),
+    tasl,
+  };
+  if (license) citation.license = license;
+  if (doc.content?.attribution) citation.requirement = doc.content.attribution;
+  return citation;
+}
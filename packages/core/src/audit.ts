@@ -0,0 +1,237 @@
+/**
+ * ai.txt - Audit Receipts
+ *
+ * `Audit: required` asks agents to keep a receipt of every use of the
+ * site's content: what was accessed, when, for which purpose and under
+ * which policy. `Audit-Format` names the receipt format; this module
+ * implements `rer-artifact/0.1`, a JSON record with a SHA-256 digest so a
+ * site can tell whether a receipt was altered:
+ *
+ *   {
+ *     "format": "rer-artifact/0.1",
+ *     "id": "6f1c...",
+ *     "issuedAt": "2026-03-01T12:00:00.000Z",
+ *     "record": { "agent": "ClaudeBot", "url": "...", "purpose": "training", ... },
+ *     "digest": "sha-256:..."
+ *   }
+ *
+ * Hashing uses the Web Crypto API, so receipts are created and verified
+ * asynchronously.
+ */
+
+import { z } from "zod";
+import type { AiTxtDocument, Purpose, UsageProfile, ValidationError, ValidationResult } from "./types.js";
+import { canAccess } from "./resolver.js";
+import type { AccessOptions, AccessResult, ResolvedPolicy } from "./resolver.js";
+import { toTime } from "./time.js";
+import { base64url, canonicalJSON } from "./encoding.js";
+
+// -- Types --
+
+/** The receipt format this module writes and verifies. */
+export const RER_ARTIFACT_FORMAT = "rer-artifact/0.1";
+
+/** Audit formats `createReceipt()` and `verifyReceipt()` support. */
+export const AUDIT_FORMATS: readonly string[] = [RER_ARTIFACT_FORMAT];
+
+/** What an agent did with a site's content. */
+export interface AuditEvent {
+  /** The agent name or User-Agent header the policy was resolved for. */
+  agent: string;
+  /** The URL that was accessed. */
+  url: string;
+  /** What the content was used for, e.g. "training" or "ai-input". */
+  purpose: Purpose;
+  /** The policy in effect for the agent. */
+  policy: ResolvedPolicy;
+  /** The access decision, if one was made. */
+  access?: AccessResult;
+  /** The profile, jurisdiction and publication date the decision was made with. */
+  options?: Omit<AccessOptions, "now">;
+  /** When the content was accessed. Default: now. */
+  accessedAt?: Date | string | number;
+}
+
+/** The recorded event, as stored in a receipt. */
+export interface AuditRecord {
+  agent: string;
+  url: string;
+  purpose: Purpose;
+  /** ISO 8601 time of access. */
+  accessedAt: string;
+  /** The site's `Site-URL`. */
+  site: string;
+  policy: ResolvedPolicy;
+  access?: AccessResult;
+  profile?: UsageProfile;
+  jurisdiction?: string;
+  /** ISO 8601 publication date of the content. */
+  publishedAt?: string;
+}
+
+export interface AuditReceipt {
+  /** Receipt format, e.g. "rer-artifact/0.1". */
+  format: string;
+  /** Unique receipt ID. */
+  id: string;
+  /** ISO 8601 time the receipt was created. */
+  issuedAt: string;
+  record: AuditRecord;
+  /** `sha-256:` followed by the base64url SHA-256 of the record's canonical JSON. */
+  digest: string;
+}
+
+export interface CreateReceiptOptions {
+  /** Receipt format. Default: the document's `Audit-Format`, else "rer-artifact/0.1". */
+  format?: string;
+}
+
+// -- Serialization --
+
+async function digestOf(record: AuditRecord): Promise<string> {
+  const bytes = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJSON(record)));
+  return `sha-256:${base64url(new Uint8Array(bytes))}`;
+}
+
+/** Serialize a receipt in its format: canonical JSON for `rer-artifact/0.1`. */
+export function serializeReceipt(receipt: AuditReceipt): string {
+  return canonicalJSON(receipt);
+}
+
+// -- Creation --
+
+/**
+ * Record an access to a site's content as a receipt in the site's declared
+ * `Audit-Format`. Throws a RangeError for an unsupported format or an
+ * invalid time.
+ *
+ * ```ts
+ * const policy = resolve(doc, "ClaudeBot");
+ * const receipt = await createReceipt(doc, { agent: "ClaudeBot", url, purpose: "training", policy });
+ * await fetch(reportUrl, { method: "POST", body: serializeReceipt(receipt) });
+ * ```
+ */
+export async function createReceipt(
+  doc: AiTxtDocument,
+  event: AuditEvent,
+  options: CreateReceiptOptions = {},
+): Promise<AuditReceipt> {
+  const format = options.format ?? doc.compliance?.auditFormat ?? RER_ARTIFACT_FORMAT;
+  if (!AUDIT_FORMATS.includes(format)) {
+    throw new RangeError(`Unsupported audit format: ${format}`);
+  }
+  const time = toTime(event.accessedAt ?? new Date());
+  if (time === null) {
+    throw new RangeError(`Invalid access time: ${String(event.accessedAt)}`);
+  }
+
+  const record: AuditRecord = {
+    agent: event.agent,
+    url: event.url,
+    purpose: event.purpose,
+    accessedAt: new Date(time).toISOString(),
+    site: doc.site.url,
+    policy: event.policy,
+  };
+  if (event.access) record.access = event.access;
+  const { profile, jurisdiction, publishedAt } = event.options ?? {};
+  if (profile) record.profile = profile;
+  if (jurisdiction !== undefined) record.jurisdiction = jurisdiction;
+  if (publishedAt !== undefined) {
+    const published = toTime(publishedAt);
+    if (published === null) throw new RangeError(`Invalid publication date: ${String(publishedAt)}`);
+    record.publishedAt = new Date(published).toISOString();
+  }
+
+  return {
+    format,
+    id: crypto.randomUUID(),
+    issuedAt: new Date().toISOString(),
+    record,
+    digest: await digestOf(record),
+  };
+}
+
+// -- Verification --
+
+const AuditReceiptSchema = z.object({
+  format: z.string(),
+  id: z.string().min(1),
+  issuedAt: z.string().datetime(),
+  record: z.object({
+    agent: z.string(),
+    url: z.string().url(),
+    purpose: z.string(),
+    accessedAt: z.string().datetime(),
+    site: z.string().url(),
+    policy: z.object({}).passthrough(),
+    access: z.object({ allowed: z.boolean(), reason: z.string() }).passthrough().optional(),
+    profile: z.object({ usage: z.string().optional(), distribution: z.string().optional() }).optional(),
+    jurisdiction: z.string().optional(),
+    publishedAt: z.string().datetime().optional(),
+  }),
+  digest: z.string(),
+});
+
+/**
+ * Check a receipt: its format and shape, that its digest matches its
+ * record, and - given the site's own document - that it is for this site
+ * and its access decision agrees with the document at the recorded time.
+ *
+ * Error codes: INVALID_RECEIPT, UNSUPPORTED_FORMAT, DIGEST_MISMATCH,
+ * SITE_MISMATCH, DECISION_MISMATCH.
+ */
+export async function verifyReceipt(receipt: AuditReceipt | string, doc?: AiTxtDocument): Promise<ValidationResult> {
+  const errors: ValidationError[] = [];
+  const fail = (path: string, code: string, message: string): ValidationResult => {
+    errors.push({ path, code, message });
+    return { valid: false, errors, warnings: [] };
+  };
+
+  let value: unknown = receipt;
+  if (typeof receipt === "string") {
+    try {
+      value = JSON.parse(receipt);
+    } catch {
+      return fail("", "INVALID_RECEIPT", "Receipt is not valid JSON");
+    }
+  }
+
+  const format = (value as { format?: unknown } | null)?.format;
+  if (typeof format === "string" && !AUDIT_FORMATS.includes(format)) {
+    return fail("format", "UNSUPPORTED_FORMAT", `Unsupported audit format: ${format}`);
+  }
+  const parsed = AuditReceiptSchema.safeParse(value);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return fail(issue.path.join("."), "INVALID_RECEIPT", issue.message);
+  }
+
+  const { record, digest } = value as AuditReceipt;
+  if (digest !== (await digestOf(record))) {
+    return fail("digest", "DIGEST_MISMATCH", "Receipt digest does not match its record");
+  }
+
+  if (doc) {
+    const site = new URL(doc.site.url).origin;
+    if (new URL(record.site).origin !== site || new URL(record.url).origin !== site) {
+      errors.push({ path: "record.site", code: "SITE_MISMATCH", message: `Receipt is not for ${doc.site.url}` });
+    } else if (record.access) {
+      const expected = canAccess(doc, record.agent, record.purpose, new URL(record.url).pathname, {
+        profile: record.profile,
+        jurisdiction: record.jurisdiction,
+        publishedAt: record.publishedAt,
+        now: new Date(record.accessedAt),
+      });
+      if (expected.allowed !== record.access.allowed) {
+        errors.push({
+          path: "record.access.allowed",
+          code: "DECISION_MISMATCH",
+          message: `Receipt records ${record.purpose} as ${record.access.allowed ? "allowed" : "denied"}, but the policy ${expected.allowed ? "allows" : "denies"} it (${expected.reason})`,
+        });
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors, warnings: [] };
+}
@@ -0,0 +1,200 @@
+/**
+ * ai.txt - Cache Stores
+ *
+ * `AiTxtClient` keeps fetched documents in a `CacheStore`. The default is a
+ * bounded in-memory LRU; a shared store (a directory, Redis, ...) lets a
+ * fleet of workers reuse each other's fetches and revalidate with the same
+ * ETags. Stores may be synchronous or asynchronous.
+ *
+ * Stores that hold text use `serializeCacheEntry()` and
+ * `deserializeCacheEntry()`, so every store writes the same format. The
+ * file-system store is Node-only and lives in `@ai-txt/core/fs-cache`.
+ *
+ * `cacheDirectives()` reads a response's caching headers per RFC 9111.
+ * Because a store may be shared by many clients, the client caches like a
+ * shared cache: `s-maxage` wins over `max-age`, and `private` responses
+ * are not stored.
+ */
+
+import type { ParseResult } from "./types.js";
+
+// -- Types --
+
+/** A cached fetch result with what is needed to revalidate it. */
+export interface CacheEntry {
+  result: ParseResult;
+  /** The response's ETag, sent as If-None-Match when revalidating. */
+  etag?: string;
+  /** The response's Last-Modified, sent as If-Modified-Since when revalidating. */
+  lastModified?: string;
+  /** Epoch ms after which the entry must be revalidated. */
+  expiresAt: number;
+  /** How long past `expiresAt` (ms) the entry may be served while it is revalidated. */
+  staleWhileRevalidate?: number;
+  /** How long past `expiresAt` (ms) the entry may be served when revalidation fails. */
+  staleIfError?: number;
+}
+
+/**
+ * Where `AiTxtClient` keeps cache entries. Expired entries should be kept
+ * (until evicted) - the client revalidates them with their ETag.
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /** Remove every entry. Optional; used by `AiTxtClient.clearCache()`. */
+  clear?(): void | Promise<void>;
+}
+
+// -- Serialization --
+
+/** Version of the serialized entry format. */
+const ENTRY_VERSION = 1;
+
+const OPTIONAL_FIELDS = {
+  etag: "string",
+  lastModified: "string",
+  staleWhileRevalidate: "number",
+  staleIfError: "number",
+} as const;
+
+/** Serialize a cache entry - result, validators, expiry and stale windows - as JSON. */
+export function serializeCacheEntry(entry: CacheEntry): string {
+  return JSON.stringify({ version: ENTRY_VERSION, ...entry });
+}
+
+/** Read a serialized cache entry. Returns undefined for anything that is not one. */
+export function deserializeCacheEntry(text: string): CacheEntry | undefined {
+  let value: Record<string, unknown> & { result?: Partial<ParseResult> };
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  const { version, expiresAt, result } = value ?? {};
+  if (
+    version !== ENTRY_VERSION ||
+    typeof expiresAt !== "number" ||
+    typeof result?.success !== "boolean" ||
+    !Array.isArray(result.errors) ||
+    !Array.isArray(result.warnings)
+  ) {
+    return undefined;
+  }
+
+  const entry: CacheEntry = { result: result as ParseResult, expiresAt };
+  for (const [field, type] of Object.entries(OPTIONAL_FIELDS)) {
+    if (value[field] === undefined) continue;
+    if (typeof value[field] !== type) return undefined;
+    (entry as unknown as Record<string, unknown>)[field] = value[field];
+  }
+  return entry;
+}
+
+// -- HTTP caching (RFC 9111) --
+
+/** The shortest freshness lifetime a response's Cache-Control can set (SPEC: Discovery). */
+export const MIN_CACHE_TTL = 60_000;
+
+/** How a response may be cached, from its headers. */
+export interface CacheDirectives {
+  /** False for `no-store` and `private` responses. */
+  store: boolean;
+  /**
+   * Freshness lifetime in ms: 0 for `no-cache` (store, but revalidate
+   * before every use), otherwise `s-maxage` or `max-age` less the `Age`
+   * header, at least `MIN_CACHE_TTL`. Undefined if the response sets none.
+   */
+  ttl?: number;
+  /** `stale-while-revalidate`, in ms. */
+  staleWhileRevalidate?: number;
+  /** `stale-if-error`, in ms. Not set for `must-revalidate` responses. */
+  staleIfError?: number;
+}
+
+/** Parse a Cache-Control header into lowercase directive names and their values. */
+export function parseCacheControl(header: string | null): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  for (const part of (header ?? "").split(",")) {
+    const match = part.trim().match(/^([!#$%&'*+.^_`|~\w-]+)(?:\s*=\s*(?:"([^"]*)"|([^\s"]*)))?$/);
+    if (match) directives.set(match[1].toLowerCase(), match[2] ?? match[3] ?? true);
+  }
+  return directives;
+}
+
+function seconds(value: string | true | null | undefined): number | undefined {
+  return typeof value === "string" && /^\d+$/.test(value) ? Number(value) * 1000 : undefined;
+}
+
+/** Read a response's caching headers: Cache-Control and Age. */
+export function cacheDirectives(headers: Headers): CacheDirectives {
+  const cc = parseCacheControl(headers.get("cache-control"));
+  if (cc.has("no-store") || cc.has("private")) return { store: false };
+
+  const directives: CacheDirectives = { store: true };
+  const lifetime = seconds(cc.get("s-maxage")) ?? seconds(cc.get("max-age"));
+  if (cc.has("no-cache")) {
+    directives.ttl = 0;
+  } else if (lifetime !== undefined) {
+    const age = seconds(headers.get("age")) ?? 0;
+    directives.ttl = Math.max(MIN_CACHE_TTL, lifetime - age);
+  }
+
+  const staleWhileRevalidate = seconds(cc.get("stale-while-revalidate"));
+  if (staleWhileRevalidate) directives.staleWhileRevalidate = staleWhileRevalidate;
+  const staleIfError = seconds(cc.get("stale-if-error"));
+  if (staleIfError && !cc.has("must-revalidate") && !cc.has("proxy-revalidate")) directives.staleIfError = staleIfError;
+  return directives;
+}
+
+// -- Memory store --
+
+export interface MemoryCacheStoreOptions {
+  /** Maximum number of entries; the least recently used is evicted first. Default: 1000. */
+  maxEntries?: number;
+}
+
+/** A bounded in-memory store that evicts the least recently used entry. */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+      throw new RangeError(`maxEntries must be a positive integer: ${options.maxEntries}`);
+    }
+  }
+
+  /** Number of entries held. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map order is insertion order: re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
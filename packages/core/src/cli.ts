@@ -2,7 +2,10 @@
 
 import { AiTxtClient } from "./client.js";
 import { generate } from "./generator.js";
-import { resolve } from "./resolver.js";
+import { resolve, POLICY_FIELDS } from "./resolver.js";
+import { explain, formatTrace } from "./explain.js";
+import { getPurpose } from "./purposes.js";
+import { normalizeJurisdiction } from "./jurisdiction.js";
 import type { AiTxtDocument, PolicyValue } from "./types.js";
 
 const args = process.argv.slice(2);
@@ -15,9 +18,25 @@ function flag(name: string): string | undefined {
 
 async function check(url: string) {
   const agent = flag("agent") ?? "ai-txt-cli/0.1";
+  const explainField = flag("explain");
+  if (explainField && !getPurpose(explainField)) {
+    console.error(`--explain must be one of: ${POLICY_FIELDS.join(", ")}, or a purpose such as train-genai`);
+    process.exit(1);
+  }
+  const jurisdiction = flag("jurisdiction");
+  if (jurisdiction !== undefined && !normalizeJurisdiction(jurisdiction)) {
+    console.error("--jurisdiction must be a country code, subdivision code or EU");
+    process.exit(1);
+  }
+
   const client = new AiTxtClient({ userAgent: agent });
   const result = await client.discover(url);
 
+  if (!result.success && result.errors[0]?.code !== "NOT_FOUND") {
+    console.error(result.errors[0]?.message ?? `Could not fetch ai.txt from ${url}`);
+    process.exit(1);
+  }
+
   if (!result.success) {
     console.log(`No ai.txt found at ${url}`);
     console.log("This site has not declared an AI policy via ai.txt.");
@@ -40,16 +59,31 @@ async function check(url: string) {
   if (doc.content?.attribution) {
     console.log(`  Attribution: ${doc.content.attribution}`);
   }
+  if (doc.content?.maxExcerptWords !== undefined) {
+    console.log(`  Max excerpt: ${doc.content.maxExcerptWords} words`);
+  }
+  if (doc.content?.summarization) {
+    console.log(`  Summarization: ${doc.content.summarization}`);
+  }
+  if (doc.content?.linkBack) {
+    console.log(`  Link back: ${doc.content.linkBack}`);
+  }
 
   const agentNames = Object.keys(doc.agents).filter((a) => a !== "*");
   if (agentNames.length > 0) {
     console.log(`\n  Agent-specific rules: ${agentNames.join(", ")}`);
   }
 
+  const sections = Object.keys(doc.jurisdictions ?? {});
+  if (sections.length > 0) {
+    console.log(`  Jurisdiction sections: ${sections.join(", ")}`);
+  }
+
   // If an agent name was provided, show resolved policy
-  if (flag("agent")) {
-    const resolved = resolve(doc, agent);
-    console.log(`\n  Resolved policy for "${agent}":`);
+  if (flag("agent") || jurisdiction) {
+    const resolved = resolve(doc, agent, { jurisdiction });
+    const where = resolved.jurisdiction ? ` in ${resolved.jurisdiction}` : "";
+    console.log(`\n  Resolved policy for "${agent}"${where}:`);
     console.log(`    Training:  ${resolved.training}`);
     console.log(`    Scraping:  ${resolved.scraping}`);
     console.log(`    Indexing:  ${resolved.indexing}`);
@@ -57,6 +91,16 @@ async function check(url: string) {
     if (resolved.rateLimit) {
       console.log(`    Rate limit: ${resolved.rateLimit.requests}/${resolved.rateLimit.window}`);
     }
+    if (resolved.tdmReservation !== undefined) {
+      console.log(`    TDM reservation: ${resolved.tdmReservation ? "yes" : "no"}`);
+    }
+  }
+
+  // Show how one field was decided, layer by layer
+  if (explainField) {
+    const trace = explain(doc, agent, explainField, flag("path"), { defaulted: result.defaulted, jurisdiction });
+    console.log(`
+${formatTrace(trace).replace(/^/gm, "  ")}`);
   }
 
   console.log();
@@ -112,6 +156,8 @@ function help() {
   Examples:
     ai-txt check https://example.com
     ai-txt check https://example.com --agent ClaudeBot
+    ai-txt check https://example.com --agent GPTBot --explain indexing --path /blog/post
+    ai-txt check https://example.com --agent CCBot --jurisdiction DE
     ai-txt generate --name "My Blog" --url https://myblog.com --training deny
     ai-txt generate --name "Open Wiki" --url https://wiki.org --training allow --license CC-BY-4.0
 `);
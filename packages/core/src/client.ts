@@ -1,32 +1,151 @@
-import type { ParseResult } from "./types.js";
+import type { ParseError, ParseResult, Purpose, UsageProfile } from "./types.js";
+import { attribution } from "./attribution.js";
+import type { AttributionOptions, Citation } from "./attribution.js";
+import { createReceipt } from "./audit.js";
+import type { AuditReceipt } from "./audit.js";
 import { parse } from "./parser.js";
 import { parseJSON } from "./parser-json.js";
 import { resolve, canAccess } from "./resolver.js";
-import type { ResolvedPolicy, AccessResult } from "./resolver.js";
+import type { ResolvedPolicy, AccessOptions, AccessResult } from "./resolver.js";
+import { documentValidity, toTime } from "./time.js";
+import { MemoryCacheStore, cacheDirectives } from "./cache.js";
+import type { CacheEntry, CacheStore } from "./cache.js";
+import { verify, JWKS_PATH } from "./signature.js";
+import type { JsonWebKeySet, SignatureVerification } from "./signature.js";
+import { CircuitBreaker, backoffDelay, parseRetryAfter } from "./retry.js";
+import type { CircuitBreakerOptions, RetryOptions } from "./retry.js";
+import { CONTENT_TYPES, contentTypeMatches, readBody, unsafeTarget } from "./network.js";
+import type { TargetPolicy } from "./network.js";
+import type { DnsResolver } from "./identity.js";
 
 export interface ClientOptions {
   /** Request timeout in ms. Default: 10000. */
   timeout?: number;
-  /** User-Agent header. Default: "ai-txt-client/0.1". */
+  /**
+   * User-Agent header, also used to pick this client's agent block - a full
+   * header like "Mozilla/5.0 (compatible; ClaudeBot/1.0)" works. Default:
+   * "ai-txt-client/0.1".
+   */
   userAgent?: string;
-  /** Cache TTL in ms. Default: 300000 (5 minutes). Set to 0 to disable. */
+  /**
+   * Cache TTL in ms for responses without `Cache-Control` freshness (a
+   * server's `max-age` / `s-maxage` takes precedence). Default: 300000
+   * (5 minutes). Set to 0 to disable caching.
+   */
   cacheTtl?: number;
-}
-
-interface CacheEntry {
-  result: ParseResult;
-  etag?: string;
-  expiresAt: number;
+  /**
+   * How long in ms to remember that a site has no ai.txt or ai.json (both
+   * answered 404 or 410), so `discover()` does not ask again on every call.
+   * Failed requests - timeouts, network errors, 5xx, 429 and other
+   * refusals such as 401 or 403 - are never remembered. Default: 60000 (1 minute). Set to 0 to disable.
+   */
+  notFoundTtl?: number;
+  /**
+   * Retries for failed fetches - timeouts, connection errors, 5xx and 429 -
+   * with jittered exponential backoff, honouring `Retry-After` on 429 and
+   * 503. Default: 2 retries, starting at 500 ms, waiting at most 10 s.
+   */
+  retry?: RetryOptions;
+  /**
+   * Per-host circuit breaker: after `threshold` failed fetches in a row,
+   * requests to the host fail with CIRCUIT_OPEN for `cooldown` ms. Default:
+   * 5 failures, 30 s. Set to false to disable.
+   */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /**
+   * Largest response body accepted, in bytes, enforced while the body
+   * streams in. Larger responses fail with BODY_TOO_LARGE. Default: 1048576
+   * (1 MiB).
+   */
+  maxBodySize?: number;
+  /**
+   * Redirects followed per request. Each target must pass the same checks
+   * as the first URL (HTTPS, public address). Default: 5. Set to 0 to
+   * refuse redirects.
+   */
+  maxRedirects?: number;
+  /**
+   * Host names exempt from the HTTPS-only and private-address rules, for
+   * local development - e.g. ["localhost"]. Default: none.
+   */
+  devHosts?: string[];
+  /**
+   * Resolves host names so that names pointing at private or loopback
+   * addresses are refused too (e.g. backed by `node:dns`). Without one,
+   * only addresses written in URLs and localhost names are refused.
+   */
+  resolver?: Pick<DnsResolver, "lookup">;
+  /**
+   * Where fetched documents are cached, with their ETags and expiry.
+   * Default: a `MemoryCacheStore` of 1000 entries. Pass a shared store,
+   * such as `FileCacheStore` from `@ai-txt/core/fs-cache`, to let several
+   * clients or processes reuse each other's fetches.
+   */
+  cache?: CacheStore;
+  /**
+   * What to do with a document outside its `Valid-From` / `Expires` window:
+   * "flag" returns it with a DOCUMENT_EXPIRED or DOCUMENT_NOT_YET_VALID
+   * warning, "reject" fails the fetch with that code. Either way it is
+   * not cached. Default: "flag".
+   */
+  expiredDocuments?: "flag" | "reject";
+  /**
+   * This client's usage and model distribution, checked against usage
+   * scopes by `checkAccess()` unless the call passes its own.
+   */
+  profile?: UsageProfile;
+  /**
+   * Where this client operates, e.g. "EU", "DE" or "US-CA". Selects the
+   * matching `Jurisdiction:` section in `check()` and `checkAccess()`.
+   */
+  jurisdiction?: string;
+  /**
+   * Called with each audit receipt `checkAccess()` creates for a site that
+   * declares `Audit: required` - e.g. to store it or send it to the site.
+   */
+  onReceipt?: (receipt: AuditReceipt) => void | Promise<void>;
+  /**
+   * Only accept signed documents: ai.json with a valid detached signature
+   * at `/.well-known/ai.json.sig`, ai.txt with a valid `Signature:` line.
+   * Unsigned or badly signed documents fail with MISSING_SIGNATURE or
+   * INVALID_SIGNATURE. Default: false.
+   */
+  requireSignature?: boolean;
+  /**
+   * Public keys to verify signatures with, by site origin (e.g.
+   * "https://example.com"). Sites not listed are checked against the JWK
+   * Set they publish at `/.well-known/ai-txt-jwks.json`.
+   */
+  trustedKeys?: Record<string, JsonWebKeySet>;
 }
 
 const WELL_KNOWN_TXT = "/.well-known/ai.txt";
 const WELL_KNOWN_JSON = "/.well-known/ai.json";
 const DEFAULT_CACHE_TTL = 300_000; // 5 minutes
+const DEFAULT_NOT_FOUND_TTL = 60_000; // 1 minute
+const DEFAULT_MAX_BODY_SIZE = 1_048_576; // 1 MiB
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+/**
+ * Why a fetch failed, and how long the server asked us to wait. A
+ * `permanent` failure is the site's answer and is not retried.
+ */
+interface FetchFailure {
+  code: "FETCH_TIMEOUT" | "CONNECTION_ERROR" | "HTTP_ERROR" | "CIRCUIT_OPEN" | "UNSAFE_URL" | "TOO_MANY_REDIRECTS" | "BODY_TOO_LARGE";
+  reason: string;
+  retryAfter?: number;
+  permanent?: boolean;
+}
+
+/** A response with its body (read only for 2xx), or why there is none. */
+type Fetched = { response: Response; body: string } | FetchFailure;
+
+/** Codes for a document that exists but was rejected - reported instead of "not found". */
+const REJECTION_CODES = new Set<string>(["DOCUMENT_EXPIRED", "DOCUMENT_NOT_YET_VALID", "MISSING_SIGNATURE", "INVALID_SIGNATURE"]);
 
 /**
  * Client for discovering and fetching ai.txt from websites.
  *
- * Includes in-memory caching with ETag revalidation.
+ * Caches documents (in memory by default) and revalidates them with ETags.
  * If a site has no ai.txt, the client returns `success: false` -
  * the absence of ai.txt does NOT imply any default policy.
  * Existing norms (robots.txt, terms of service) still apply.
@@ -35,51 +154,76 @@ export class AiTxtClient {
   private timeout: number;
   private userAgent: string;
   private cacheTtl: number;
-  private cache = new Map<string, CacheEntry>();
+  private notFoundTtl: number;
+  private retry: Required<RetryOptions>;
+  private breaker: CircuitBreaker | null;
+  private maxBodySize: number;
+  private maxRedirects: number;
+  private targets: TargetPolicy;
+  private expiredDocuments: "flag" | "reject";
+  private profile?: UsageProfile;
+  private jurisdiction?: string;
+  private onReceipt?: (receipt: AuditReceipt) => void | Promise<void>;
+  private requireSignature: boolean;
+  private trustedKeys: Record<string, JsonWebKeySet>;
+  private cache: CacheStore;
+  /** URLs being revalidated in the background (stale-while-revalidate). */
+  private revalidating = new Set<string>();
+  /** Discoveries in progress, by base URL - concurrent callers share one. */
+  private inflight = new Map<string, Promise<ParseResult>>();
 
   constructor(options: ClientOptions = {}) {
     this.timeout = options.timeout ?? 10_000;
     this.userAgent = options.userAgent ?? "ai-txt-client/0.1";
     this.cacheTtl = options.cacheTtl ?? DEFAULT_CACHE_TTL;
+    this.notFoundTtl = options.notFoundTtl ?? DEFAULT_NOT_FOUND_TTL;
+    this.retry = { retries: 2, baseDelay: 500, maxDelay: 10_000, ...options.retry };
+    if (!Number.isInteger(this.retry.retries) || this.retry.retries < 0) {
+      throw new RangeError(`retry.retries must be a non-negative integer: ${this.retry.retries}`);
+    }
+    this.breaker = options.circuitBreaker === false ? null : new CircuitBreaker(options.circuitBreaker);
+    this.maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    this.maxRedirects = options.maxRedirects ?? 5;
+    this.targets = { devHosts: options.devHosts ?? [], resolver: options.resolver };
+    this.cache = options.cache ?? new MemoryCacheStore();
+    this.expiredDocuments = options.expiredDocuments ?? "flag";
+    this.profile = options.profile;
+    this.jurisdiction = options.jurisdiction;
+    this.onReceipt = options.onReceipt;
+    this.requireSignature = options.requireSignature ?? false;
+    this.trustedKeys = options.trustedKeys ?? {};
   }
 
   /**
    * Discover ai.txt from a site. Tries ai.json first, falls back to ai.txt.
-   * Results are cached per the configured TTL.
+   * Each is cached per its own `Cache-Control` (or the configured TTL) and
+   * revalidated with its own ETag.
+   *
+   * Concurrent calls for the same site share one discovery. A site with
+   * neither file fails with NOT_FOUND, remembered for `notFoundTtl`. One
+   * that could not be reached fails with FETCH_TIMEOUT, CONNECTION_ERROR,
+   * HTTP_ERROR or CIRCUIT_OPEN, and a file that does not parse with its
+   * parser errors; neither is remembered.
    */
   async discover(baseUrl: string): Promise<ParseResult> {
-    if (!baseUrl.startsWith("https://") && !baseUrl.startsWith("http://localhost")) {
-      return { success: false, errors: [{ message: "Only HTTPS URLs are supported (per spec security requirements)" }], warnings: [] };
-    }
+    const insecure = this.insecure(baseUrl);
+    if (insecure) return insecure;
     const normalized = baseUrl.replace(/\/+$/, "");
 
-    // Check cache
-    const cached = this.getCached(normalized);
-    if (cached) return cached;
-
-    // Try JSON first (preferred by spec), fall back to text
-    // fetchAndParse handles caching internally (preserves ETag + server TTL)
-    const jsonResult = await this.fetchAndParse(`${normalized}${WELL_KNOWN_JSON}`, "json");
-    if (jsonResult?.success) return jsonResult;
-
-    const txtResult = await this.fetchAndParse(`${normalized}${WELL_KNOWN_TXT}`, "text");
-    if (txtResult?.success) return txtResult;
-
-    const notFound: ParseResult = {
-      success: false,
-      errors: [{ message: `No ai.txt found at ${normalized}` }],
-      warnings: [],
-    };
-    return notFound;
+    let pending = this.inflight.get(normalized);
+    if (!pending) {
+      pending = this.discoverSite(normalized).finally(() => this.inflight.delete(normalized));
+      this.inflight.set(normalized, pending);
+    }
+    return pending;
   }
 
   /**
    * Discover ai.json from a site at /.well-known/ai.json.
    */
   async discoverJSON(baseUrl: string): Promise<ParseResult> {
-    if (!baseUrl.startsWith("https://") && !baseUrl.startsWith("http://localhost")) {
-      return { success: false, errors: [{ message: "Only HTTPS URLs are supported (per spec security requirements)" }], warnings: [] };
-    }
+    const insecure = this.insecure(baseUrl);
+    if (insecure) return insecure;
     const normalized = baseUrl.replace(/\/+$/, "");
 
     const result = await this.fetchAndParse(`${normalized}${WELL_KNOWN_JSON}`, "json");
@@ -87,14 +231,15 @@ export class AiTxtClient {
 
     return {
       success: false,
-      errors: [{ message: `No ai.json found at ${normalized}` }],
+      errors: [{ code: "NOT_FOUND", message: `No ai.json found at ${normalized}` }],
       warnings: [],
     };
   }
 
   /**
    * Discover a site's ai.txt and resolve the effective policy for this agent.
-   * Returns the fully merged policy (agent override -> wildcard -> site-wide).
+   * Returns the fully merged policy (agent override -> jurisdiction section ->
+   * wildcard -> site-wide).
    */
   async check(baseUrl: string): Promise<{ success: boolean; policy?: ResolvedPolicy; errors: Array<{ message: string }> }> {
     const result = await this.discover(baseUrl);
@@ -103,7 +248,7 @@ export class AiTxtClient {
       return { success: false, errors: result.errors };
     }
 
-    const policy = resolve(result.document, this.userAgent);
+    const policy = resolve(result.document, this.userAgent, { jurisdiction: this.jurisdiction });
     return { success: true, policy, errors: [] };
   }
 
@@ -111,112 +256,466 @@ export class AiTxtClient {
    * Discover a site's ai.txt and check whether a specific action is allowed.
    *
    * @param baseUrl   - The site's base URL.
-   * @param field     - Which policy to check: "training", "scraping", "indexing", or "caching".
+   * @param field     - Which policy to check: "training", "scraping", "indexing", "caching",
+   *                    or a registered purpose such as "train-genai" or "ai-input".
    * @param path      - Optional URL path for conditional training path matching.
+   * @param options   - Usage profile and jurisdiction (default: the client's), evaluation time
+   *                    and publication date.
+   *
+   * If the site declares `Audit: required`, the result includes an audit
+   * receipt of the check in the site's `Audit-Format`, which is also passed
+   * to `onReceipt`.
    */
   async checkAccess(
     baseUrl: string,
-    field: "training" | "scraping" | "indexing" | "caching",
+    field: Purpose,
     path?: string,
-  ): Promise<{ success: boolean; access?: AccessResult; errors: Array<{ message: string }> }> {
+    options: AccessOptions = {},
+  ): Promise<{ success: boolean; access?: AccessResult; receipt?: AuditReceipt; errors: Array<{ message: string }> }> {
     const result = await this.discover(baseUrl);
 
     if (!result.success || !result.document) {
       return { success: false, errors: result.errors };
     }
 
-    const access = canAccess(result.document, this.userAgent, field, path);
-    return { success: true, access, errors: [] };
+    const doc = result.document;
+    const accessOptions: AccessOptions = { profile: this.profile, jurisdiction: this.jurisdiction, ...options };
+    const access = canAccess(doc, this.userAgent, field, path, accessOptions);
+    if (doc.compliance?.audit !== "required") {
+      return { success: true, access, errors: [] };
+    }
+
+    const { now, ...context } = accessOptions;
+    let receipt: AuditReceipt;
+    try {
+      receipt = await createReceipt(doc, {
+        agent: this.userAgent,
+        url: new URL(path ?? "/", baseUrl).href,
+        purpose: field,
+        policy: resolve(doc, this.userAgent, context),
+        access,
+        options: context,
+        accessedAt: now,
+      });
+    } catch (e) {
+      return { success: false, access, errors: [{ message: `Audit receipt required but not created: ${(e as Error).message}` }] };
+    }
+    await this.onReceipt?.(receipt);
+    return { success: true, access, receipt, errors: [] };
+  }
+
+  /**
+   * Discover a page's site and build a citation for the page, following the
+   * site's `Attribution-Template` and `Training-License` (see `attribution()`).
+   * `citation.requirement` says whether the site requires it.
+   *
+   * @param pageUrl - Absolute URL of the cited page.
+   * @param options - Title and author of the work.
+   */
+  async attribution(
+    pageUrl: string,
+    options: AttributionOptions = {},
+  ): Promise<{ success: boolean; citation?: Citation; errors: Array<{ message: string }> }> {
+    let origin: string;
+    try {
+      origin = new URL(pageUrl).origin;
+    } catch {
+      return { success: false, errors: [{ message: `Invalid page URL: ${pageUrl}` }] };
+    }
+    const result = await this.discover(origin);
+
+    if (!result.success || !result.document) {
+      return { success: false, errors: result.errors };
+    }
+
+    return { success: true, citation: attribution(result.document, pageUrl, options), errors: [] };
   }
 
-  /** Clear the in-memory cache. */
-  clearCache(): void {
-    this.cache.clear();
+  /**
+   * Clear the cache store (if it supports clearing). Returns a promise
+   * because stores may clear asynchronously; a synchronous store such as
+   * the default `MemoryCacheStore` is cleared before this returns, so
+   * callers that do not await it still work.
+   */
+  async clearCache(): Promise<void> {
+    await this.cache.clear?.();
   }
 
   // -- Private --
 
-  private getCached(key: string): ParseResult | null {
+  /** The failure for a base URL that is not HTTPS (development hosts excepted), or null. */
+  private insecure(baseUrl: string): ParseResult | null {
+    let url: URL | null = null;
+    try {
+      url = new URL(baseUrl);
+    } catch {
+      // Reported below
+    }
+    const dev = url?.protocol === "http:" && this.targets.devHosts.includes(url.hostname);
+    if (url?.protocol === "https:" || dev) return null;
+    return { success: false, errors: [{ message: "Only HTTPS URLs are supported (per spec security requirements)" }], warnings: [] };
+  }
+
+  /** `discover()` for a normalized base URL, without coalescing. */
+  private async discoverSite(normalized: string): Promise<ParseResult> {
+    // A usable cached copy needs no request. ai.txt is only cached when
+    // ai.json was unavailable, so a cached ai.txt means "use the fallback".
+    const jsonUrl = `${normalized}${WELL_KNOWN_JSON}`;
+    const txtUrl = `${normalized}${WELL_KNOWN_TXT}`;
+    const cached = (await this.usableCached(jsonUrl, "json")) ?? (await this.usableCached(txtUrl, "text"));
+    if (cached) return cached;
+
+    // Recently found to have neither file
+    const absent = this.notFoundTtl > 0 ? await this.readCache(normalized) : undefined;
+    if (absent && Date.now() < absent.expiresAt) return absent.result;
+
+    // Try JSON first (preferred by spec), fall back to text
+    const jsonResult = await this.fetchAndParse(jsonUrl, "json", true);
+    if (jsonResult?.success) return jsonResult;
+
+    const txtResult = await this.fetchAndParse(txtUrl, "text", true);
+    if (txtResult?.success) return txtResult;
+
+    // A document rejected for its validity window or signature exists - say so rather than "not found"
+    const rejected = [jsonResult, txtResult].find((result) => result?.errors.some((e) => REJECTION_CODES.has(e.code!)));
+    if (rejected) return rejected;
+
+    // A failed request says nothing about whether the site has a policy, and
+    // a file that does not parse exists - report either, never cache it
+    const failed = jsonResult ?? txtResult;
+    if (failed) return failed;
+
+    const notFound: ParseResult = {
+      success: false,
+      errors: [{ code: "NOT_FOUND", message: `No ai.txt found at ${normalized}` }],
+      warnings: [],
+    };
+    if (this.cacheTtl > 0 && this.notFoundTtl > 0) {
+      try {
+        await this.cache.set(normalized, { result: notFound, expiresAt: Date.now() + this.notFoundTtl });
+      } catch {
+        // A failing store only costs a refetch
+      }
+    }
+    return notFound;
+  }
+
+  /**
+   * A cached result that can be used without a request: fresh, or stale
+   * within its stale-while-revalidate window, in which case it is
+   * revalidated in the background.
+   */
+  private async usableCached(url: string, format: "json" | "text"): Promise<ParseResult | null> {
     if (this.cacheTtl <= 0) return null;
 
-    const entry = this.cache.get(key);
+    const entry = await this.readCache(url);
     if (!entry) return null;
 
-    if (Date.now() < entry.expiresAt) {
+    const now = Date.now();
+    if (now < entry.expiresAt) return entry.result;
+
+    // Expired - keep the entry for revalidation
+    if (entry.staleWhileRevalidate && now < entry.expiresAt + entry.staleWhileRevalidate && !this.outsideValidity(entry.result)) {
+      if (!this.revalidating.has(url)) {
+        this.revalidating.add(url);
+        void this.fetchAndParse(url, format, true).finally(() => this.revalidating.delete(url));
+      }
       return entry.result;
     }
-
-    // Expired - return null but keep entry for ETag revalidation
     return null;
   }
 
-  private setCache(key: string, result: ParseResult, etag?: string): void {
+  /**
+   * The result of a failed fetch: the stale cached copy within its
+   * stale-if-error window, with a STALE_DOCUMENT warning, or else the
+   * failure as an error.
+   */
+  private fetchFailed(url: string, entry: CacheEntry | undefined, failure: FetchFailure): ParseResult {
+    const usable = entry?.staleIfError && Date.now() < entry.expiresAt + entry.staleIfError && !this.outsideValidity(entry.result);
+    if (!usable) {
+      return { success: false, errors: [{ code: failure.code, message: `Could not fetch ${url}: ${failure.reason}` }], warnings: [] };
+    }
+    return {
+      ...entry.result,
+      warnings: [...entry.result.warnings, { code: "STALE_DOCUMENT", message: `Using a stale copy of ${url}: ${failure.reason}` }],
+    };
+  }
+
+  /**
+   * Cache a result as the response's headers allow: not at all for
+   * `no-store`, otherwise with its validators, for its freshness lifetime
+   * (default: the configured TTL), but never past the document's own
+   * Expires time. `previous` supplies validators a 304 does not repeat.
+   */
+  private async store(url: string, result: ParseResult, headers: Headers, previous?: CacheEntry): Promise<void> {
     if (this.cacheTtl <= 0) return;
 
-    this.cache.set(key, {
-      result,
-      etag,
-      expiresAt: Date.now() + this.cacheTtl,
-    });
+    const directives = cacheDirectives(headers);
+    if (!directives.store) {
+      await this.deleteCache(url);
+      return;
+    }
+
+    const expires = result.document?.expires !== undefined ? toTime(result.document.expires) : null;
+    const ttl = directives.ttl ?? this.cacheTtl;
+    const entry: CacheEntry = { result, expiresAt: Math.min(Date.now() + ttl, expires ?? Infinity) };
+    const etag = headers.get("etag") ?? previous?.etag;
+    const lastModified = headers.get("last-modified") ?? previous?.lastModified;
+    if (etag) entry.etag = etag;
+    if (lastModified) entry.lastModified = lastModified;
+    if (directives.staleWhileRevalidate) entry.staleWhileRevalidate = directives.staleWhileRevalidate;
+    if (directives.staleIfError) entry.staleIfError = directives.staleIfError;
+    try {
+      await this.cache.set(url, entry);
+    } catch {
+      // A failing store only costs a refetch
+    }
   }
 
-  private async fetchAndParse(url: string, format: "json" | "text"): Promise<ParseResult | null> {
+  private async deleteCache(url: string): Promise<void> {
+    try {
+      await this.cache.delete(url);
+    } catch {
+      // Left to expire
+    }
+  }
+
+  /** Read an entry; a failing store reads as a miss. */
+  private async readCache(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return await this.cache.get(key);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The result to return for a document outside its validity window -
+   * flagged or rejected per `expiredDocuments` - or null if it is valid.
+   */
+  private outsideValidity(result: ParseResult): ParseResult | null {
+    const validity = result.document ? documentValidity(result.document) : "valid";
+    if (validity === "valid") return null;
+
+    const { document } = result;
+    const diagnostic = validity === "expired"
+      ? { field: "Expires", code: "DOCUMENT_EXPIRED" as const, message: `Document expired at ${document!.expires}` }
+      : { field: "Valid-From", code: "DOCUMENT_NOT_YET_VALID" as const, message: `Document is not valid until ${document!.validFrom}` };
+
+    if (this.expiredDocuments === "reject") {
+      return { success: false, errors: [diagnostic], warnings: result.warnings };
+    }
+    return { ...result, warnings: [...result.warnings, diagnostic] };
+  }
+
+  /** Verify a fetched document's signature; returns the diagnostic if it fails. */
+  private async checkSignature(url: string, format: "json" | "text", body: string): Promise<ParseError | null> {
+    const headers = { "User-Agent": this.userAgent };
+    const field = format === "json" ? "ai.json.sig" : "Signature";
+
+    let jws: string | undefined;
+    if (format === "json") {
+      const fetched = await this.get(`${url}.sig`, headers);
+      if ("response" in fetched && fetched.response.ok) jws = fetched.body.trim();
+    }
+    if (format === "json" ? !jws : !/^Signature:/im.test(body)) {
+      return { field, code: "MISSING_SIGNATURE", message: `Document is not signed, but a signature is required (${url})` };
+    }
+
+    const origin = new URL(url).origin;
+    let keys = this.trustedKeys[origin];
+    if (!keys) {
+      const fetched = await this.get(`${origin}${JWKS_PATH}`, headers);
+      let published: { keys?: unknown } | null = null;
+      try {
+        if ("response" in fetched && fetched.response.ok) published = JSON.parse(fetched.body);
+      } catch {
+        // Reported below
+      }
+      if (!Array.isArray(published?.keys)) {
+        return { field, code: "INVALID_SIGNATURE", message: `No signing keys published at ${origin}${JWKS_PATH}` };
+      }
+      keys = published as JsonWebKeySet;
+    }
+
+    // verify() reports rather than throws, but the keys and body come from the site
+    let result: SignatureVerification;
+    try {
+      result = await verify(format === "json" ? JSON.parse(body) : body, jws, keys);
+    } catch (e) {
+      result = { valid: false, reason: (e as Error).message };
+    }
+    return result.valid ? null : { field, code: "INVALID_SIGNATURE", message: `Invalid signature: ${result.reason}` };
+  }
+
+  /**
+   * One GET within the configured timeout, following redirects by hand so
+   * that every target is checked (see network.ts). Timeouts, connection
+   * errors, 5xx, 429, unsafe targets and oversized bodies come back as a
+   * `FetchFailure`; any other response with its body if it succeeded.
+   */
+  private async get(url: string, headers: Record<string, string>): Promise<Fetched> {
     const controller = new AbortController();
     const timer = setTimeout(() => controller.abort(), this.timeout);
 
     try {
-      const headers: Record<string, string> = {
-        "User-Agent": this.userAgent,
-      };
-
-      // Send If-None-Match if we have a cached ETag for this URL
-      const baseUrl = url.replace(/\/.well-known\/ai\.(txt|json)$/, "");
-      const cached = this.cache.get(baseUrl);
-      if (cached?.etag) {
-        headers["If-None-Match"] = cached.etag;
+      let target = url;
+      for (let hops = 0; ; hops++) {
+        const unsafe = await unsafeTarget(new URL(target), this.targets);
+        if (unsafe) return { code: "UNSAFE_URL", reason: unsafe, permanent: true };
+
+        // Browsers hide redirect targets ("opaqueredirect", status 0), which then fail with HTTP_ERROR
+        const response = await fetch(target, { headers, signal: controller.signal, redirect: "manual" });
+        const location = REDIRECT_STATUSES.has(response.status) ? response.headers.get("location") : null;
+        if (location === null) return await this.received(response);
+
+        await response.body?.cancel().catch(() => {});
+        if (hops >= this.maxRedirects) {
+          return { code: "TOO_MANY_REDIRECTS", reason: `more than ${this.maxRedirects} redirects`, permanent: true };
+        }
+        try {
+          target = new URL(location, target).href;
+        } catch {
+          return { code: "UNSAFE_URL", reason: `invalid redirect target ${location}`, permanent: true };
+        }
       }
+    } catch (e) {
+      if (controller.signal.aborted) return { code: "FETCH_TIMEOUT", reason: `no response within ${this.timeout} ms` };
+      // fetch() reports DNS and connection failures as a TypeError with the system error as its cause
+      const cause = (e as { cause?: { code?: unknown } }).cause?.code;
+      return { code: "CONNECTION_ERROR", reason: typeof cause === "string" ? cause : (e as Error).message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
-      const response = await fetch(url, {
-        headers,
-        signal: controller.signal,
-      });
-
-      // 304 Not Modified - cache is still valid, extend TTL
-      if (response.status === 304 && cached) {
-        cached.expiresAt = Date.now() + this.cacheTtl;
-        return cached.result;
+  /**
+   * A final (non-redirect) response: a failure for 5xx and 429, else the
+   * response with its size-limited body. Error bodies are never read, so
+   * they are cancelled to free the connection.
+   */
+  private async received(response: Response): Promise<Fetched> {
+    if (!response.ok) await response.body?.cancel().catch(() => {});
+    if (response.status >= 500 || response.status === 429) {
+      const failure: FetchFailure = { code: "HTTP_ERROR", reason: `HTTP ${response.status}` };
+      if (response.status === 429 || response.status === 503) {
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        if (retryAfter !== undefined) failure.retryAfter = retryAfter;
       }
+      return failure;
+    }
+    if (!response.ok) return { response, body: "" };
 
-      if (!response.ok) return null;
+    const body = await readBody(response, this.maxBodySize);
+    if (body === null) return { code: "BODY_TOO_LARGE", reason: `body exceeds ${this.maxBodySize} bytes`, permanent: true };
+    return { response, body };
+  }
 
-      const body = await response.text();
-      const result = format === "json" ? parseJSON(body) : parse(body);
+  /**
+   * `get()` with retries and the per-host circuit breaker. Each retry waits
+   * for the server's `Retry-After`, or else a jittered backoff; one that
+   * would wait longer than `retry.maxDelay` is not made.
+   */
+  private async fetchWithRetries(url: string, headers: Record<string, string>): Promise<Fetched> {
+    const host = new URL(url).host;
+    if (this.breaker && !this.breaker.allow(host)) {
+      if (this.breaker.probing(host)) {
+        return { code: "CIRCUIT_OPEN", reason: `${host} keeps failing, so requests to it wait for a trial request in progress` };
+      }
+      const until = new Date(this.breaker.openUntil(host)!).toISOString();
+      return { code: "CIRCUIT_OPEN", reason: `${host} keeps failing, so requests to it are paused until ${until}` };
+    }
 
-      // Store ETag for future revalidation
-      const etag = response.headers.get("etag") ?? undefined;
+    for (let attempt = 0; ; attempt++) {
+      // Any answer - even one we refuse - shows the host is up
+      const fetched = await this.get(url, headers);
+      if ("response" in fetched || fetched.permanent) {
+        this.breaker?.success(host);
+        return fetched;
+      }
 
-      // Parse Cache-Control max-age if present
-      const cacheControl = response.headers.get("cache-control");
-      if (cacheControl && result.success) {
-        const maxAgeMatch = cacheControl.match(/max-age=(\d+)/);
-        if (maxAgeMatch) {
-          const serverTtl = parseInt(maxAgeMatch[1], 10) * 1000;
-          this.setCache(baseUrl, result, etag);
-          const entry = this.cache.get(baseUrl);
-          if (entry) entry.expiresAt = Date.now() + serverTtl;
-          return result;
-        }
+      const delay = fetched.retryAfter ?? backoffDelay(attempt, this.retry);
+      if (attempt >= this.retry.retries || delay > this.retry.maxDelay) {
+        this.breaker?.failure(host);
+        return fetched;
       }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Fetch and parse one file, using and maintaining its cache entry.
+   * `revalidate` skips the check for a usable cached copy (the caller made it).
+   * Returns null if the site has no such file.
+   */
+  private async fetchAndParse(url: string, format: "json" | "text", revalidate = false): Promise<ParseResult | null> {
+    if (!revalidate) {
+      const usable = await this.usableCached(url, format);
+      if (usable) return usable;
+    }
+
+    const cached = this.cacheTtl > 0 ? await this.readCache(url) : undefined;
+    const headers: Record<string, string> = {
+      "User-Agent": this.userAgent,
+    };
+
+    // Revalidate with this URL's own validators
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    let fetched = await this.fetchWithRetries(url, headers);
 
-      if (result.success) {
-        this.setCache(baseUrl, result, etag);
+    // A 304 with no cached copy to reuse (the entry was evicted or the store
+    // cleared, or a cache in between answered for us) is not "no file":
+    // ask once more, past any intermediate caches, and fail if it happens again
+    if ("response" in fetched && fetched.response.status === 304 && !cached) {
+      fetched = await this.fetchWithRetries(url, { ...headers, "Cache-Control": "no-cache" });
+      if ("response" in fetched && fetched.response.status === 304) {
+        fetched = { code: "HTTP_ERROR", reason: "HTTP 304 Not Modified, but there is no cached copy to reuse" };
       }
+    }
 
-      return result;
-    } catch {
+    // A failed fetch keeps a stale copy usable for its stale-if-error window
+    if (!("response" in fetched)) return this.fetchFailed(url, cached, fetched);
+    const { response, body } = fetched;
+
+    // 304 Not Modified - cache is still valid, refresh it (unless the document itself has lapsed)
+    if (response.status === 304 && cached) {
+      const lapsed = this.outsideValidity(cached.result);
+      if (lapsed) return lapsed;
+      await this.store(url, cached.result, response.headers, cached);
+      return cached.result;
+    }
+
+    // Only 404 and 410 mean there is no file
+    if (response.status === 404 || response.status === 410) {
+      if (cached) await this.deleteCache(url);
       return null;
-    } finally {
-      clearTimeout(timer);
     }
+
+    // Any other refusal (401, 403, ...) says nothing about whether there is one
+    if (!response.ok) return this.fetchFailed(url, undefined, { code: "HTTP_ERROR", reason: `HTTP ${response.status}` });
+
+    const result = format === "json" ? parseJSON(body) : parse(body);
+    const contentType = response.headers.get("content-type");
+    if (!contentTypeMatches(contentType, format)) {
+      result.warnings.push({
+        code: "UNEXPECTED_CONTENT_TYPE",
+        message: `${url} is served as ${contentType}, not ${CONTENT_TYPES[format]}`,
+      });
+    }
+
+    // Unsigned or badly signed - rejected and never cached
+    if (this.requireSignature && result.success) {
+      const failure = await this.checkSignature(url, format, body);
+      if (failure) return { success: false, errors: [failure], warnings: result.warnings };
+    }
+
+    // Outside its Valid-From / Expires window - never cached as authoritative
+    const lapsed = this.outsideValidity(result);
+    if (lapsed) return lapsed;
+
+    if (result.success) await this.store(url, result, response.headers);
+    return result;
   }
 }
@@ -0,0 +1,593 @@
+/**
+ * ai.txt - Lossless Concrete Syntax Tree
+ *
+ * `parse()` produces an AiTxtDocument and discards everything that is
+ * not policy: comments, blank lines, key casing and line order. This
+ * module keeps all of it. Every line of the input is represented, so
+ * `printCST(parseCST(text)) === text` for any input.
+ *
+ * The AiTxtEditor builds on the CST to make targeted edits (set a policy,
+ * add an agent block) while leaving every untouched line byte-for-byte
+ * identical - hand-written comments survive tooling.
+ */
+
+import type { AgentPolicy, ParseResult, PolicyField, PolicyValue, Purpose } from "./types.js";
+import { parse } from "./parser.js";
+import { generateAgentBlock } from "./generator.js";
+import { sanitizeValue, splitAgentNames } from "./utils.js";
+import { scanLines } from "./lexer.js";
+import { canonicalPurpose, lookupPurposeKey, purposeKey } from "./purposes.js";
+import { normalizeJurisdiction } from "./jurisdiction.js";
+import type { CstLine } from "./lexer.js";
+
+export type { SourcePosition, SourceRange, CstToken, CstLineKind, CstLine } from "./lexer.js";
+
+// -- Types --
+
+/** An `Agent:` header and the indented lines that belong to it. */
+export interface CstAgentBlock {
+  kind: "agent";
+  /** Header value as written - the whole list for `Agent: GPTBot, ChatGPT-User`. */
+  name: string;
+  /** Every agent name the block applies to, as written, across all its header lines. */
+  names: string[];
+  header: CstLine;
+  /**
+   * Indented fields plus any comments and blank lines between them. Further
+   * `Agent:` lines of a robots.txt-style group come first.
+   */
+  children: CstLine[];
+}
+
+/** A `Jurisdiction:` header and the indented lines that belong to it. */
+export interface CstJurisdictionBlock {
+  kind: "jurisdiction";
+  /** Jurisdiction code as written, e.g. "EU". */
+  code: string;
+  header: CstLine;
+  /** Indented fields plus any comments and blank lines between them. */
+  children: CstLine[];
+}
+
+export type CstNode = CstLine | CstAgentBlock | CstJurisdictionBlock;
+
+/** Root of the tree: top-level lines, agent blocks and jurisdiction sections, in source order. */
+export interface CstDocument {
+  children: CstNode[];
+}
+
+// -- Parsing --
+
+/**
+ * Parse ai.txt text into a lossless concrete syntax tree.
+ *
+ * Never fails: lines that are not `Key: value` pairs become `invalid` nodes.
+ * Block membership follows the same rules as `parse()` - indented lines
+ * belong to the preceding `Agent:` or `Jurisdiction:` header, consecutive
+ * `Agent:` lines form one group, and comments or blank lines do not close a block. Trailing
+ * comments and blank lines after a block's last field are attached to the
+ * top level, so they stay with whatever follows.
+ */
+export function parseCST(input: string): CstDocument {
+  const children: CstNode[] = [];
+  let block: CstAgentBlock | CstJurisdictionBlock | null = null;
+  let pending: CstLine[] = [];
+  // Another `Agent:` line joins the block until its first field or blank line
+  let groupOpen = false;
+
+  for (const line of scanLines(input)) {
+    if (line.kind === "blank" || line.kind === "comment") {
+      if (block) {
+        pending.push(line);
+      } else {
+        children.push(line);
+      }
+      continue;
+    }
+
+    if (line.indented && block) {
+      block.children.push(...pending, line);
+      pending = [];
+      groupOpen = false;
+      continue;
+    }
+
+    const names = isAgentHeader(line) ? splitAgentNames(line.value!.text) : [];
+    if (block?.kind === "agent" && names.length > 0 && groupOpen && !pending.some((l) => l.kind === "blank")) {
+      block.children.push(...pending, line);
+      (block as CstAgentBlock).names.push(...names);
+      pending = [];
+      continue;
+    }
+
+    // Anything else closes the open block
+    if (block) {
+      children.push(...pending);
+      pending = [];
+      block = null;
+    }
+
+    if (names.length > 0) {
+      block = { kind: "agent", name: line.value!.text, names, header: line, children: [] };
+      children.push(block);
+      groupOpen = true;
+      continue;
+    }
+
+    if (isJurisdictionHeader(line)) {
+      block = { kind: "jurisdiction", code: line.value!.text, header: line, children: [] };
+      children.push(block);
+      continue;
+    }
+
+    children.push(line);
+  }
+
+  children.push(...pending);
+  return { children };
+}
+
+/**
+ * Serialize a CST back to text. Lossless for unmodified trees.
+ */
+export function printCST(doc: CstDocument): string {
+  let out = "";
+  for (const line of cstLines(doc)) {
+    out += line.raw + line.eol;
+  }
+  return out;
+}
+
+/**
+ * All lines of a CST in source order, with blocks flattened.
+ */
+export function cstLines(doc: CstDocument): CstLine[] {
+  const lines: CstLine[] = [];
+  for (const node of doc.children) {
+    if (isBlock(node)) {
+      lines.push(node.header, ...node.children);
+    } else {
+      lines.push(node);
+    }
+  }
+  return lines;
+}
+
+// -- Editing --
+
+/** Selects an agent block or jurisdiction section for an edit. Omit to edit top-level fields. */
+export interface EditOptions {
+  /** Agent name (case-insensitive). */
+  agent?: string;
+  /** Jurisdiction code (case-insensitive), e.g. "EU". Cannot be combined with `agent`. */
+  jurisdiction?: string;
+}
+
+export interface RemoveOptions extends EditOptions {
+  /** Only remove lines with this exact value (e.g. one of several Training-Deny patterns). */
+  value?: string;
+}
+
+const POLICY_KEYS: Record<PolicyField, string> = {
+  training: "Training",
+  scraping: "Scraping",
+  indexing: "Indexing",
+  caching: "Caching",
+};
+
+const VALID_POLICY_VALUES = new Set(["allow", "deny", "conditional"]);
+
+/**
+ * Canonical top-level key order, matching `generate()`. New top-level
+ * fields are inserted after the last existing field that sorts before them.
+ */
+const TOP_LEVEL_ORDER = [
+  "spec-version",
+  "generated-at",
+  "valid-from",
+  "expires",
+  "site-name",
+  "site-url",
+  "description",
+  "site-description",
+  "contact",
+  "site-contact",
+  "policy-url",
+  "training",
+  "scraping",
+  "indexing",
+  "caching",
+  "training-usage",
+  "training-distribution",
+  "indexing-usage",
+  "indexing-distribution",
+  "training-allow",
+  "training-deny",
+  "scraping-allow",
+  "scraping-deny",
+  "indexing-allow",
+  "indexing-deny",
+  "caching-allow",
+  "caching-deny",
+  "training-license",
+  "training-fee",
+  "tdm-reservation",
+  "agent",
+  "jurisdiction",
+  "attribution",
+  "attribution-template",
+  "ai-disclosure",
+  "max-excerpt-words",
+  "summarization",
+  "link-back",
+  "audit",
+  "audit-format",
+];
+
+/**
+ * Line-preserving editor for ai.txt files.
+ *
+ * Each edit rewrites only the lines it touches; comments, blank lines,
+ * key casing and ordering elsewhere in the file are kept exactly.
+ *
+ * ```ts
+ * const editor = new AiTxtEditor(source);
+ * editor.setPolicy("training", "deny", { agent: "GPTBot" });
+ * writeFileSync(path, editor.toString());
+ * ```
+ */
+export class AiTxtEditor {
+  private tree: CstDocument;
+  private newline: string;
+
+  constructor(input: string) {
+    this.tree = parseCST(input);
+    this.newline = input.match(/\r?\n/)?.[0] ?? "\n";
+  }
+
+  /** The current syntax tree. Ranges always refer to `toString()`. */
+  get cst(): CstDocument {
+    return this.tree;
+  }
+
+  /** Current value of a field (last occurrence wins, as in `parse()`). */
+  get(key: string, options: EditOptions = {}): string | undefined {
+    const lines = this.fieldLines(key, options);
+    return lines.length > 0 ? lines[lines.length - 1].value!.text : undefined;
+  }
+
+  /**
+   * Set a field's value. Rewrites the value of the last existing occurrence
+   * in place, or inserts a new line if the field is absent. Setting a field
+   * on an agent that has no block creates the block.
+   */
+  set(key: string, value: string, options: EditOptions = {}): this {
+    if (this.isGrouped(options.agent)) return this.detach(options.agent!).set(key, value, options);
+    const existing = this.fieldLines(key, options);
+    if (existing.length === 0) return this.add(key, value, options);
+
+    const line = existing[existing.length - 1];
+    const clean = sanitizeValue(value);
+    const valueCol = line.value!.range.start.column - 1;
+    const endCol = line.value!.range.end.column - 1;
+    line.raw = line.value!.text === ""
+      ? `${line.raw.slice(0, line.separator!.range.end.column - 1)} ${clean}${line.raw.slice(endCol)}`
+      : line.raw.slice(0, valueCol) + clean + line.raw.slice(endCol);
+    return this.reparse();
+  }
+
+  /**
+   * Add a new `Key: value` line, even if the key already exists
+   * (for repeatable keys such as `Training-Allow`). Adding to a
+   * jurisdiction that has no section creates the section.
+   */
+  add(key: string, value: string, options: EditOptions = {}): this {
+    const text = `${sanitizeValue(key)}: ${sanitizeValue(value)}`;
+
+    if (options.jurisdiction !== undefined) {
+      const section = this.findSection(options.jurisdiction);
+      if (section) {
+        const fields = section.children.filter((l) => l.kind === "field" && l.indented);
+        const indent = fields[0]?.raw.match(/^\s*/)?.[0] || "  ";
+        this.insertAfter(fields[fields.length - 1] ?? section.header, [indent + text]);
+        return this.reparse();
+      }
+      const lines = [`Jurisdiction: ${normalizeJurisdiction(options.jurisdiction)}`, `  ${text}`];
+      const anchor = this.lastNodeRankedBefore(topLevelRank("jurisdiction"));
+      if (anchor) {
+        this.insertAfter(lastLine(anchor), ["", ...lines]);
+      } else {
+        this.append(["", ...lines]);
+      }
+      return this.reparse();
+    }
+
+    if (options.agent !== undefined) {
+      const block = this.findBlock(options.agent);
+      if (!block) {
+        return this.addAgent(options.agent).add(key, value, options);
+      }
+      if (block.names.length > 1) {
+        return this.detach(options.agent).add(key, value, options);
+      }
+      const fields = block.children.filter((l) => l.kind === "field" && l.indented);
+      const indent = fields[0]?.raw.match(/^\s*/)?.[0] || "  ";
+      const headers = [block.header, ...block.children.filter(isAgentHeader)];
+      this.insertAfter(fields[fields.length - 1] ?? headers[headers.length - 1], [indent + text]);
+      return this.reparse();
+    }
+
+    const anchor = this.lastNodeRankedBefore(topLevelRank(key));
+    if (anchor) {
+      this.insertAfter(lastLine(anchor), [text]);
+    } else {
+      const first = this.tree.children.find((n) => nodeTopLevelRank(n) !== undefined);
+      if (first) {
+        this.insertBefore(firstLine(first), [text]);
+      } else {
+        this.append([text]);
+      }
+    }
+    return this.reparse();
+  }
+
+  /** Remove every occurrence of a field (optionally only those with a given value). */
+  remove(key: string, options: RemoveOptions = {}): this {
+    if (this.isGrouped(options.agent) && this.fieldLines(key, options).length > 0) {
+      return this.detach(options.agent!).remove(key, options);
+    }
+    const targets = new Set(
+      this.fieldLines(key, options).filter((l) => options.value === undefined || l.value!.text === options.value),
+    );
+    if (targets.size === 0) return this;
+    this.filterLines((line) => !targets.has(line));
+    return this.reparse();
+  }
+
+  /**
+   * Set a content policy or a registered purpose's policy, site-wide, for
+   * one agent or for one jurisdiction. AIPREF names of the fields
+   * (`train-ai`, `search`) set the field itself.
+   */
+  setPolicy(field: Purpose, value: PolicyValue, options: EditOptions = {}): this {
+    if (!VALID_POLICY_VALUES.has(value)) {
+      throw new RangeError(`Invalid policy value: ${value}`);
+    }
+    return this.set(purposeKey(canonicalPurpose(field)), value, options);
+  }
+
+  /**
+   * Add an agent block. If a block for this agent already exists, its
+   * fields are updated in place instead.
+   *
+   * Edits that name one agent of a grouped block (`Agent: GPTBot, ChatGPT-User`)
+   * first move that agent into a block of its own, so the rest of the group
+   * keeps its policy.
+   */
+  addAgent(name: string, policy: AgentPolicy = {}): this {
+    const existing = this.findBlock(name);
+    if (existing) {
+      for (const [field, key] of Object.entries(POLICY_KEYS) as Array<[PolicyField, string]>) {
+        const value = policy[field];
+        if (value) this.set(key, value, { agent: name });
+      }
+      for (const [purpose, value] of Object.entries(policy.purposes ?? {})) {
+        this.set(purposeKey(purpose), value, { agent: name });
+      }
+      if (policy.rateLimit) {
+        this.set("Rate-Limit", `${policy.rateLimit.requests}/${policy.rateLimit.window}`, { agent: name });
+      }
+      return this;
+    }
+
+    const text = generateAgentBlock(name, policy);
+    const blocks = this.blocks();
+    if (blocks.length > 0) {
+      const last = lastLine(blocks[blocks.length - 1]);
+      // Directly below a header-only block the new header would join its group
+      this.insertAfter(last, isAgentHeader(last) ? ["", ...text] : text);
+    } else {
+      const agentRank = topLevelRank("agent");
+      const after = this.tree.children.find((n) => (nodeTopLevelRank(n) ?? -1) > agentRank);
+      if (after) {
+        this.insertBefore(firstLine(after), [...text, ""]);
+      } else {
+        this.append(["", ...text]);
+      }
+    }
+    return this.reparse();
+  }
+
+  /**
+   * Remove an agent block, including comments inside it. For a grouped
+   * block, only the agent's name is removed from the header.
+   */
+  removeAgent(name: string): this {
+    const block = this.findBlock(name);
+    if (!block) return this;
+
+    if (block.names.length > 1) {
+      const lower = name.toLowerCase();
+      const header = [block.header, ...block.children.filter(isAgentHeader)]
+        .find((l) => splitAgentNames(l.value!.text).some((n) => n.toLowerCase() === lower))!;
+      const rest = splitAgentNames(header.value!.text).filter((n) => n.toLowerCase() !== lower);
+      if (rest.length === 0) {
+        this.filterLines((line) => line !== header);
+      } else {
+        const start = header.value!.range.start.column - 1;
+        header.raw = header.raw.slice(0, start) + rest.join(", ") + header.raw.slice(header.value!.range.end.column - 1);
+      }
+      return this.reparse();
+    }
+
+    const doomed = new Set([block.header, ...block.children]);
+    this.filterLines((line) => !doomed.has(line));
+    return this.reparse();
+  }
+
+  /** Serialize the edited file. */
+  toString(): string {
+    return printCST(this.tree);
+  }
+
+  /** Parse the edited file into an AiTxtDocument. */
+  toDocument(): ParseResult {
+    return parse(this.toString());
+  }
+
+  // -- Private --
+
+  private blocks(): CstAgentBlock[] {
+    return this.tree.children.filter((n): n is CstAgentBlock => n.kind === "agent");
+  }
+
+  /** The block `parse()` would use for this agent - the last one wins. */
+  private findBlock(name: string): CstAgentBlock | undefined {
+    const lower = name.toLowerCase();
+    return this.blocks().filter((b) => b.names.some((n) => n.toLowerCase() === lower)).pop();
+  }
+
+  /** The section `parse()` would use for this jurisdiction - the last one wins. */
+  private findSection(jurisdiction: string): CstJurisdictionBlock | undefined {
+    const code = normalizeJurisdiction(jurisdiction);
+    if (!code) throw new RangeError(`Invalid jurisdiction: ${jurisdiction}`);
+    return this.tree.children
+      .filter((n): n is CstJurisdictionBlock => n.kind === "jurisdiction" && normalizeJurisdiction(n.code) === code)
+      .pop();
+  }
+
+  /** The last top-level node that sorts at or before `rank` in the canonical order. */
+  private lastNodeRankedBefore(rank: number): CstNode | undefined {
+    let anchor: CstNode | undefined;
+    for (const node of this.tree.children) {
+      const nodeRank = nodeTopLevelRank(node);
+      if (nodeRank !== undefined && nodeRank <= rank) anchor = node;
+    }
+    return anchor;
+  }
+
+  private isGrouped(agent: string | undefined): boolean {
+    return agent !== undefined && (this.findBlock(agent)?.names.length ?? 0) > 1;
+  }
+
+  /** Move one agent of a grouped block into a block of its own, with the same policy. */
+  private detach(name: string): this {
+    const policy = this.toDocument().document?.agents[name.toLowerCase()] ?? {};
+    return this.removeAgent(name).addAgent(name, policy);
+  }
+
+  private fieldLines(key: string, options: EditOptions): CstLine[] {
+    if (options.agent !== undefined && options.jurisdiction !== undefined) {
+      throw new RangeError("An edit can target an agent or a jurisdiction, not both");
+    }
+    const lower = key.toLowerCase();
+    let scope: CstNode[];
+    if (options.agent !== undefined) {
+      scope = this.findBlock(options.agent)?.children ?? [];
+    } else if (options.jurisdiction !== undefined) {
+      scope = this.findSection(options.jurisdiction)?.children ?? [];
+    } else {
+      scope = this.tree.children.filter((n) => !isBlock(n) && !n.indented);
+    }
+    return scope.filter(
+      (n): n is CstLine => n.kind === "field" && n.key!.text.toLowerCase() === lower,
+    );
+  }
+
+  private insertAfter(anchor: CstLine, texts: string[]): void {
+    this.splice(anchor, 1, texts);
+  }
+
+  private insertBefore(anchor: CstLine, texts: string[]): void {
+    this.splice(anchor, 0, texts);
+  }
+
+  private append(texts: string[]): void {
+    const lines = cstLines(this.tree);
+    const last = lines[lines.length - 1];
+    if (last.raw !== "") {
+      this.splice(last, 1, texts);
+      return;
+    }
+
+    // File ends with a newline (or is empty): insert before the final empty line
+    const prev = lines[lines.length - 2];
+    const body = texts[0] === "" && (!prev || prev.kind === "blank") ? texts.slice(1) : texts;
+    if (!prev) {
+      this.tree = parseCST(body.join(this.newline) + this.newline);
+      return;
+    }
+    this.splice(last, 0, body);
+  }
+
+  /**
+   * Insert text lines next to `anchor` (before it when `after` is 0) and
+   * rebuild the tree. Line terminators follow the file's existing style.
+   */
+  private splice(anchor: CstLine, after: 0 | 1, texts: string[]): void {
+    const lines = cstLines(this.tree);
+    const idx = lines.indexOf(anchor) + after;
+    const fresh = texts.map((raw) => ({ raw, eol: this.newline }));
+
+    // Inserting after the final line: that line now needs a terminator
+    if (after === 1 && idx === lines.length && anchor.eol === "") {
+      anchor.eol = this.newline;
+      fresh[fresh.length - 1].eol = "";
+    }
+
+    const all = lines.map((l) => ({ raw: l.raw, eol: l.eol }));
+    all.splice(idx, 0, ...fresh);
+    this.tree = parseCST(all.map((l) => l.raw + l.eol).join(""));
+  }
+
+  private filterLines(keep: (line: CstLine) => boolean): void {
+    const lines = cstLines(this.tree);
+    const kept = lines.filter(keep);
+    // Removing the final line moves the "no terminator" marker up
+    if (kept.length > 0 && lines[lines.length - 1].eol === "" && kept[kept.length - 1] !== lines[lines.length - 1]) {
+      kept[kept.length - 1] = { ...kept[kept.length - 1], eol: "" };
+    }
+    this.tree = parseCST(kept.map((l) => l.raw + l.eol).join(""));
+  }
+
+  /** Re-scan after an in-place edit so every range is current. */
+  private reparse(): this {
+    this.tree = parseCST(this.toString());
+    return this;
+  }
+}
+
+function topLevelRank(key: string): number {
+  const idx = TOP_LEVEL_ORDER.indexOf(key.toLowerCase());
+  if (idx !== -1) return idx;
+  // Purpose policies go with the content policies, their path rules with the others
+  const purpose = lookupPurposeKey(key.toLowerCase());
+  if (purpose) return TOP_LEVEL_ORDER.indexOf(purpose.rule ? "caching-deny" : "caching");
+  return TOP_LEVEL_ORDER.length;
+}
+
+function nodeTopLevelRank(node: CstNode): number | undefined {
+  if (isBlock(node)) return topLevelRank(node.kind);
+  if (node.kind !== "field" || node.indented) return undefined;
+  return topLevelRank(node.key!.text);
+}
+
+function isAgentHeader(line: CstLine): boolean {
+  return !line.indented && line.kind === "field" && line.key!.text.toLowerCase() === "agent";
+}
+
+function isJurisdictionHeader(line: CstLine): boolean {
+  return !line.indented && line.kind === "field" && line.key!.text.toLowerCase() === "jurisdiction";
+}
+
+function isBlock(node: CstNode): node is CstAgentBlock | CstJurisdictionBlock {
+  return node.kind === "agent" || node.kind === "jurisdiction";
+}
+
+function firstLine(node: CstNode): CstLine {
+  return isBlock(node) ? node.header : node;
+}
+
+function lastLine(node: CstNode): CstLine {
+  return isBlock(node) ? node.children[node.children.length - 1] ?? node.header : node;
+}
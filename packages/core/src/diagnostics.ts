@@ -0,0 +1,158 @@
+/**
+ * ai.txt - Diagnostics
+ *
+ * Stable diagnostic codes and a code-frame formatter for parse and
+ * validation results. Codes are part of the public API: tools may match
+ * on them (CI annotations, editor quick-fixes), so they are never renamed
+ * or reused once published. Messages are for humans and may change.
+ */
+
+import type { DiagnosticLocation } from "./types.js";
+
+// -- Codes --
+
+/** Every diagnostic code emitted by the parsers and the validator, with a description. */
+export const DIAGNOSTIC_CODES: Readonly<Record<string, string>> = {
+  // Parser errors
+  MISSING_REQUIRED_FIELD: "A required field (Site-Name or Site-URL) is missing.",
+  INVALID_JSON: "The ai.json body is not well-formed JSON.",
+  SCHEMA_VIOLATION: "The document does not match the ai.txt schema.",
+
+  // Parser warnings
+  UNPARSEABLE_LINE: "A line is not a comment and has no `Key: value` separator.",
+  INDENT_OUTSIDE_BLOCK: "An indented line appears before any `Agent:` block and is ignored.",
+  UNKNOWN_AGENT_FIELD: "A field inside an `Agent:` block is not recognized and is ignored.",
+  EMPTY_AGENT_NAME: "An `Agent:` line has no agent name; the block is ignored.",
+  INVALID_POLICY_VALUE: "A policy field is not `allow`, `deny` or `conditional`.",
+  INVALID_REQUIREMENT_LEVEL: "A requirement field is not `required`, `recommended`, `optional` or `none`.",
+  INVALID_RATE_LIMIT: "A Rate-Limit is not in `N/window` form with a positive N.",
+  INVALID_DATE: "A Valid-From or Expires value is not an ISO 8601 date-time.",
+  INVALID_USAGE_SCOPE: "A -Usage or -Distribution list has an entry outside its vocabulary (e.g. `research`, `open-weights`).",
+  INVALID_OUTPUT_CONSTRAINT: "Max-Excerpt-Words is not a non-negative integer, or Summarization is not `allow` or `deny`.",
+  INVALID_ATTRIBUTION_TEMPLATE: "An Attribution-Template uses a placeholder other than {title}, {author}, {site}, {url} or {license}; it is printed as written.",
+  INVALID_JURISDICTION: "A `Jurisdiction:` header is not a country code, subdivision code or `EU`; the section is ignored.",
+  INVALID_TDM_RESERVATION: "A TDM-Reservation value is not `yes` or `no`.",
+  UNKNOWN_JURISDICTION_FIELD: "A field inside a `Jurisdiction:` section is not recognized and is ignored.",
+  INVALID_EMBARGO: "An -Embargo line is not `<pattern> <duration>` with a duration such as `30d`.",
+  UNKNOWN_PURPOSE: "An ai.json `purposes` or `purposePaths` entry names a purpose that is not registered; it is kept but cannot be checked.",
+
+  // Client warnings (or errors, when the client rejects such documents)
+  DOCUMENT_EXPIRED: "The document's Expires time has passed; it is not cached as authoritative.",
+  DOCUMENT_NOT_YET_VALID: "The document's Valid-From time has not been reached; it is not cached as authoritative.",
+  MISSING_SIGNATURE: "The client requires signed documents, but the document has no `/.well-known/ai.json.sig` or `Signature:` line.",
+  INVALID_SIGNATURE: "The document's signature does not verify against the site's keys, or the site publishes no keys.",
+  STALE_DOCUMENT: "Revalidation failed (server error, timeout or network error), so a cached copy within its `stale-if-error` window is used.",
+  NOT_FOUND: "The site answered that it has no ai.txt or ai.json (404 or 410). Not an error: existing norms apply.",
+  FETCH_TIMEOUT: "The site did not answer within the client's timeout, after retries. Whether it has a policy is unknown.",
+  CONNECTION_ERROR: "The site could not be reached (DNS lookup failed, connection refused or reset), after retries.",
+  HTTP_ERROR: "The site answered with a server error (5xx) or 429 Too Many Requests after retries, with another refusal such as 401 or 403, or with 304 Not Modified when there was no cached copy.",
+  CIRCUIT_OPEN: "Recent fetches from the site kept failing, so the client is not contacting it until its circuit breaker's cooldown ends and a trial request succeeds.",
+  UNSAFE_URL: "The URL or a redirect target is not HTTPS, or names or resolves to a private or loopback address, and its host is not a development host.",
+  TOO_MANY_REDIRECTS: "The site redirected more times than the client's `maxRedirects`.",
+  BODY_TOO_LARGE: "The response body is larger than the client's `maxBodySize`; reading stopped at the limit.",
+  UNEXPECTED_CONTENT_TYPE: "The file is served with a Content-Type other than `text/plain` (ai.txt) or `application/json` (ai.json).",
+
+  // Strict-mode parser errors
+  DUPLICATE_KEY: "A single-valued key appears more than once in the same scope; the last one would win.",
+  DUPLICATE_AGENT: "Two `Agent:` blocks name the same agent; the later block would replace the earlier one.",
+  CONFLICTING_PATH_RULE: "The same path pattern is listed under both an Allow and a Deny rule.",
+  LIKELY_TYPO: "An unrecognized key is a near-miss of a known key (e.g. `Trainng`).",
+
+  // Validator errors
+  INVALID_PATH_PATTERN: "A path pattern cannot be compiled (e.g. a reversed character class range such as `[z-a]`); it matches nothing.",
+
+  // Validator warnings
+  MISSING_TRAINING_PATHS: "Training is `conditional` but no Training-Allow or Training-Deny paths are defined.",
+  MISSING_PATH_RULES: "Scraping, indexing, caching or a purpose is `conditional` but has no matching -Allow or -Deny paths.",
+  MISSING_LICENSE: "Training is `allow` but no Training-License is declared.",
+  INSECURE_URL: "The site URL does not use HTTPS.",
+  AGENT_CONDITIONAL_POLICY: "An agent block uses `conditional` without path rules to resolve it.",
+  EMPTY_VALIDITY_WINDOW: "Valid-From is not before Expires, so the document is never valid.",
+  MISSING_TDM_RESERVATION: "An EU jurisdiction section allows training without declaring TDM-Reservation (Directive 2019/790, Art. 4).",
+};
+
+// -- Formatting --
+
+/** Anything with a message, an optional code and an optional location. */
+export interface Diagnostic extends DiagnosticLocation {
+  message: string;
+  code?: string;
+}
+
+export interface CodeFrameOptions {
+  /** File name shown in the location line. Default: "ai.txt". */
+  filename?: string;
+  /** Severity label. Default: "error". */
+  severity?: "error" | "warning";
+  /** Lines of context shown above and below the offending line. Default: 1. */
+  contextLines?: number;
+}
+
+/**
+ * Format a diagnostic as a code frame pointing at the offending text:
+ *
+ * ```
+ * warning[INVALID_POLICY_VALUE]: Invalid policy value: maybe
+ *  --> ai.txt:3:11
+ *   |
+ * 3 | Training: maybe
+ *   |           ^^^^^
+ * ```
+ */
+export function formatCodeFrame(source: string, diagnostic: Diagnostic, options: CodeFrameOptions = {}): string {
+  const filename = options.filename ?? "ai.txt";
+  const severity = options.severity ?? "error";
+  const context = options.contextLines ?? 1;
+
+  const label = diagnostic.code ? `${severity}[${diagnostic.code}]` : severity;
+  const out = [`${label}: ${diagnostic.message}`];
+
+  if (diagnostic.line === undefined) {
+    out.push(` --> ${filename}`);
+    return out.join("\n");
+  }
+
+  const lines = source.split(/\r?\n/);
+  const lineIdx = diagnostic.line - 1;
+  const location = diagnostic.column !== undefined
+    ? `${filename}:${diagnostic.line}:${diagnostic.column}`
+    : `${filename}:${diagnostic.line}`;
+
+  const first = Math.max(0, lineIdx - context);
+  const last = Math.min(lines.length - 1, lineIdx + context);
+  const gutter = String(last + 1).length;
+  const blank = " ".repeat(gutter);
+
+  out.push(`${blank}--> ${location}`);
+  out.push(`${blank} |`);
+
+  for (let i = first; i <= last; i++) {
+    const text = lines[i] ?? "";
+    out.push(`${String(i + 1).padStart(gutter)} | ${text}`.trimEnd());
+
+    if (i === lineIdx && diagnostic.column !== undefined) {
+      const start = diagnostic.column - 1;
+      const end = Math.max(diagnostic.endColumn ?? diagnostic.column + 1, diagnostic.column + 1) - 1;
+      // Copy tabs from the source so the carets line up however tabs render
+      const padding = text.slice(0, start).replace(/[^\t]/g, " ");
+      out.push(`${blank} | ${padding}${"^".repeat(end - start)}`);
+    }
+  }
+
+  return out.join("\n");
+}
+
+/**
+ * Format all errors and warnings of a parse or validation result as code
+ * frames, errors first, separated by blank lines.
+ */
+export function formatDiagnostics(
+  source: string,
+  result: { errors: Diagnostic[]; warnings: Diagnostic[] },
+  options: Omit<CodeFrameOptions, "severity"> = {},
+): string {
+  return [
+    ...result.errors.map((d) => formatCodeFrame(source, d, { ...options, severity: "error" })),
+    ...result.warnings.map((d) => formatCodeFrame(source, d, { ...options, severity: "warning" })),
+  ].join("\n\n");
+}
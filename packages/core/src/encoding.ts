@@ -0,0 +1,31 @@
+/**
+ * ai.txt - Encoding
+ *
+ * Byte-exact serializations shared by audit receipts and signatures: JSON
+ * with sorted keys, so that equal documents hash and sign identically, and
+ * unpadded base64url (RFC 4648 section 5), as JOSE uses it.
+ */
+
+/** JSON with object keys sorted at every level, so equal values serialize identically. */
+export function canonicalJSON(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v,
+  );
+}
+
+/** Unpadded base64url encoding of bytes or a UTF-8 string. */
+export function base64url(data: Uint8Array | string): string {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** Decode unpadded base64url. Throws a RangeError if the input is not base64url. */
+export function fromBase64url(text: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new RangeError("Invalid base64url");
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
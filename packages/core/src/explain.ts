@@ -0,0 +1,296 @@
+/**
+ * ai.txt - Resolution Trace
+ *
+ * `resolve()` and `canAccess()` give final answers. `explain()` shows how
+ * they were reached: which agent block the agent name matched, which layer
+ * (agent block, jurisdiction section, `Agent: *`, site-wide, or built-in
+ * default) supplied each effective value, and how every path pattern fared
+ * - the questions support staff get asked ("why was GPTBot denied
+ * indexing?").
+ *
+ * Purposes are traced the way `resolve()` inherits them: a purpose the
+ * file does not declare shows the broader purpose that supplied its value.
+ */
+
+import type {
+  AiTxtDocument,
+  AgentPolicy,
+  PathRules,
+  PathRulesKey,
+  PolicyField,
+  PolicyValue,
+  Purpose,
+  RateLimit,
+} from "./types.js";
+import type { AccessOptions, AccessResult } from "./resolver.js";
+import { canAccess, POLICY_FIELDS } from "./resolver.js";
+import { compileGlob, normalizePath } from "./glob.js";
+import { canonicalPurpose, isPolicyField, listPurposes, purposeChain, purposeKey } from "./purposes.js";
+import { isAgentPattern, matchAgent } from "./user-agent.js";
+import { matchJurisdiction } from "./jurisdiction.js";
+
+// -- Types --
+
+/**
+ * Where an effective value came from:
+ *   - "agent"        - the agent's own block
+ *   - "jurisdiction" - the section for the caller's jurisdiction
+ *   - "wildcard"     - the `Agent: *` block
+ *   - "site"         - the site-wide declaration
+ *   - "default"      - not in the file; the parser's default was used
+ */
+export type PolicyLayer = "agent" | "jurisdiction" | "wildcard" | "site" | "default";
+
+/** An effective value and the layer that supplied it. */
+export interface TracedValue<T> {
+  value: T;
+  layer: PolicyLayer;
+  /** For purposes: the broader purpose whose declaration supplied the value, when the purpose itself is not declared. */
+  inheritedFrom?: string;
+}
+
+/** Every effective value of a `ResolvedPolicy`, with its layer. */
+export type TracedPolicy =
+  & { [K in PolicyField]: TracedValue<PolicyValue> }
+  & { [K in PathRulesKey]?: TracedValue<PathRules> }
+  & { rateLimit?: TracedValue<RateLimit> }
+  & { purposes: Record<string, TracedValue<PolicyValue>>; purposePaths?: Record<string, TracedValue<PathRules>> };
+
+/** How one path pattern fared against the checked path. */
+export interface PatternEvaluation {
+  type: "allow" | "deny";
+  pattern: string;
+  specificity: number;
+  matched: boolean;
+  /**
+   * "decided" for the winning rule, "overridden" for other matches, and
+   * "not-consulted" for matches when the path rules played no part - the
+   * value is a plain allow or deny, or the document was outside its
+   * validity window.
+   */
+  outcome: "decided" | "overridden" | "not-consulted" | "no-match";
+}
+
+/** Structured trace of a policy decision. */
+export interface PolicyTrace {
+  /** The agent name or User-Agent header that was checked. */
+  agent: string;
+  /** The agent block it matched (lowercase), or undefined if `*` applied. */
+  agentBlock?: string;
+  /** The jurisdiction section that applied, if any. */
+  jurisdiction?: string;
+  /** The field or purpose checked, as given. */
+  field: Purpose;
+  /** `field` with aliases resolved ("train-ai" -> "training"). */
+  purpose: string;
+  path?: string;
+  /** `path` after normalization, as the patterns saw it. */
+  normalizedPath?: string;
+  /** Effective values and their layers. */
+  values: TracedPolicy;
+  /** The purpose's path patterns in evaluation order (deny, then allow). Empty without a path. */
+  evaluated: PatternEvaluation[];
+  /** The decision - identical to `canAccess()`. */
+  result: AccessResult;
+}
+
+export interface ExplainOptions extends AccessOptions {
+  /**
+   * Policy fields the parser filled with defaults (`ParseResult.defaulted`),
+   * so the trace can report them as "default" rather than "site".
+   */
+  defaulted?: readonly PolicyField[];
+}
+
+// -- Explain --
+
+/**
+ * Explain how the policy for `field` - a policy field or any registered
+ * purpose, as `canAccess()` takes - is decided for an agent.
+ *
+ * ```ts
+ * const result = parse(text);
+ * const trace = explain(result.document!, "GPTBot", "indexing", "/blog/x", { defaulted: result.defaulted });
+ * console.log(formatTrace(trace));
+ * ```
+ */
+export function explain(
+  doc: AiTxtDocument,
+  agentName: string,
+  field: Purpose,
+  path?: string,
+  options: ExplainOptions = {},
+): PolicyTrace {
+  const purpose = canonicalPurpose(field);
+  const matched = matchAgent(agentName, Object.keys(doc.agents));
+  const agentBlock = matched && matched !== "*" ? doc.agents[matched] : undefined;
+  const wildcardBlock = doc.agents["*"];
+  const jurisdiction = options.jurisdiction !== undefined
+    ? matchJurisdiction(options.jurisdiction, Object.keys(doc.jurisdictions ?? {}))
+    : undefined;
+  const section: AgentPolicy | undefined = jurisdiction ? doc.jurisdictions![jurisdiction] : undefined;
+  const defaulted = options.defaulted ?? [];
+
+  const pick = <K extends keyof AgentPolicy>(key: K): TracedValue<NonNullable<AgentPolicy[K]>> | undefined => {
+    if (agentBlock?.[key] !== undefined) return { value: agentBlock[key]!, layer: "agent" };
+    if (section?.[key] !== undefined) return { value: section[key]!, layer: "jurisdiction" };
+    if (wildcardBlock?.[key] !== undefined) return { value: wildcardBlock[key]!, layer: "wildcard" };
+    return undefined;
+  };
+
+  const values = {} as TracedPolicy;
+  for (const f of POLICY_FIELDS) {
+    values[f] = pick(f) ?? { value: doc.policies[f], layer: defaulted.includes(f) ? "default" : "site" };
+
+    const key = `${f}Paths` as const;
+    const rules = pick(key) ?? (doc[key] ? { value: doc[key]!, layer: "site" as const } : undefined);
+    if (rules) values[key] = rules;
+  }
+  const rateLimit = pick("rateLimit");
+  if (rateLimit) values.rateLimit = rateLimit;
+
+  // Purposes: the same layers as resolve(), and within each layer the most
+  // specific purpose declared
+  const site: AgentPolicy = { ...doc.policies, purposes: doc.purposes, purposePaths: doc.purposePaths };
+  for (const f of POLICY_FIELDS) site[`${f}Paths`] = doc[`${f}Paths`];
+  const layers: [PolicyLayer, AgentPolicy | undefined][] = [
+    ["agent", agentBlock],
+    ["jurisdiction", section],
+    ["wildcard", wildcardBlock],
+    ["site", site],
+  ];
+  const inherit = <T>(chain: string[], get: (layer: AgentPolicy, purpose: string) => T | undefined): TracedValue<T> | undefined => {
+    for (const [layer, block] of layers) {
+      if (!block) continue;
+      for (const p of chain) {
+        const value = get(block, p);
+        if (value === undefined) continue;
+        const traced: TracedValue<T> = { value, layer: layer === "site" && defaulted.includes(p as PolicyField) ? "default" : layer };
+        if (p !== chain[0]) traced.inheritedFrom = p;
+        return traced;
+      }
+    }
+    return undefined;
+  };
+
+  values.purposes = {};
+  for (const { name, field: f } of listPurposes()) {
+    if (f) continue;
+    const chain = purposeChain(name);
+    values.purposes[name] = inherit(chain, (layer, p) => isPolicyField(p) ? layer[p] : layer.purposes?.[p])!;
+    const rules = inherit(chain, (layer, p) => isPolicyField(p) ? layer[`${p}Paths`] : layer.purposePaths?.[p]);
+    if (rules) (values.purposePaths ??= {})[name] = rules;
+  }
+
+  const result = canAccess(doc, agentName, field, path, options);
+  const trace: PolicyTrace = { agent: agentName, field, purpose, values, evaluated: [], result };
+  if (agentBlock) trace.agentBlock = matched;
+  if (jurisdiction) trace.jurisdiction = jurisdiction;
+
+  if (path !== undefined) {
+    trace.path = path;
+    trace.normalizedPath = normalizePath(path);
+    const consulted = tracedValue(trace).value === "conditional" && !result.validity;
+    trace.evaluated = evaluatePatterns(trace.normalizedPath, tracedPaths(trace)?.value, result, consulted);
+  }
+
+  return trace;
+}
+
+function tracedValue(trace: PolicyTrace): TracedValue<PolicyValue> {
+  const { purpose, values } = trace;
+  return isPolicyField(purpose) ? values[purpose] : values.purposes[purpose];
+}
+
+function tracedPaths(trace: PolicyTrace): TracedValue<PathRules> | undefined {
+  const { purpose, values } = trace;
+  return isPolicyField(purpose) ? values[`${purpose}Paths`] : values.purposePaths?.[purpose];
+}
+
+function evaluatePatterns(
+  normalized: string,
+  rules: PathRules | undefined,
+  result: AccessResult,
+  consulted: boolean,
+): PatternEvaluation[] {
+  if (!rules) return [];
+
+  let decided = false;
+  const evaluate = (type: "allow" | "deny", pattern: string): PatternEvaluation => {
+    const glob = compileGlob(pattern);
+    const matched = glob.test(normalized);
+    let outcome: PatternEvaluation["outcome"] = "no-match";
+    if (matched && !consulted) {
+      outcome = "not-consulted";
+    } else if (matched) {
+      const winner = !decided && result.rule?.type === type && result.rule.pattern === pattern;
+      if (winner) decided = true;
+      outcome = winner ? "decided" : "overridden";
+    }
+    return { type, pattern, specificity: glob.specificity, matched, outcome };
+  };
+
+  return [
+    ...rules.deny.map((pattern) => evaluate("deny", pattern)),
+    ...rules.allow.map((pattern) => evaluate("allow", pattern)),
+  ];
+}
+
+// -- Formatting --
+
+const LAYER_LABELS: Record<PolicyLayer, string> = {
+  agent: "agent block",
+  jurisdiction: "jurisdiction section",
+  wildcard: "Agent: *",
+  site: "site-wide",
+  default: "default - not set in the file",
+};
+
+/**
+ * Render a trace as indented text for terminals and support tickets:
+ *
+ * ```
+ * indexing for "GPTBot": denied
+ *   Agent block: gptbot
+ *   Indexing: conditional (agent block)
+ *   Indexing paths: 1 allow, 1 deny (site-wide)
+ *   Path: /blog/x
+ *     deny   /blog/**       matched (specificity 6) - decided
+ *     allow  /blog/open/*   no match
+ *   Reason: path "/blog/x" matches deny pattern "/blog/**"
+ * ```
+ */
+export function formatTrace(trace: PolicyTrace): string {
+  const { field } = trace;
+  const title = purposeKey(field);
+  const out = [`${field} for "${trace.agent}": ${trace.result.allowed ? "allowed" : "denied"}`];
+
+  const block = trace.agentBlock && isAgentPattern(trace.agentBlock) ? `${trace.agentBlock} (pattern)` : trace.agentBlock;
+  out.push(`  Agent block: ${block ?? "none (Agent: * and site-wide rules apply)"}`);
+  if (trace.jurisdiction) out.push(`  Jurisdiction: ${trace.jurisdiction}`);
+  const value = tracedValue(trace);
+  out.push(`  ${title}: ${value.value} (${source(value)})`);
+
+  const rules = tracedPaths(trace);
+  if (rules) {
+    out.push(`  ${title} paths: ${rules.value.allow.length} allow, ${rules.value.deny.length} deny (${source(rules)})`);
+  }
+
+  if (trace.path !== undefined) {
+    const normalized = trace.normalizedPath !== trace.path ? ` (normalized: ${trace.normalizedPath})` : "";
+    out.push(`  Path: ${trace.path}${normalized}`);
+    const width = Math.max(0, ...trace.evaluated.map((e) => e.pattern.length));
+    for (const e of trace.evaluated) {
+      const status = e.matched ? `matched (specificity ${e.specificity}) - ${e.outcome.replace("-", " ")}` : "no match";
+      out.push(`    ${e.type.padEnd(6)} ${e.pattern.padEnd(width)}  ${status}`);
+    }
+  }
+
+  out.push(`  Reason: ${trace.result.reason}`);
+  return out.join("\n");
+}
+
+function source(traced: TracedValue<unknown>): string {
+  const label = LAYER_LABELS[traced.layer];
+  return traced.inheritedFrom ? `${label}, from ${purposeKey(traced.inheritedFrom)}` : label;
+}
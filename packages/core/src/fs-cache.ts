@@ -0,0 +1,59 @@
+/**
+ * ai.txt - File-System Cache Store
+ *
+ * A `CacheStore` that keeps one JSON file per entry in a directory, so
+ * workers on the same machine (or a shared volume) share fetched documents
+ * and their ETags. Node-only; import it from `@ai-txt/core/fs-cache`.
+ *
+ *   const client = new AiTxtClient({ cache: new FileCacheStore("/var/cache/ai-txt") });
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { serializeCacheEntry, deserializeCacheEntry } from "./cache.js";
+import type { CacheEntry, CacheStore } from "./cache.js";
+
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  /** @param directory - Where entry files are kept; created if missing. */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return deserializeCacheEntry(await readFile(this.pathFor(key), "utf8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename, so readers in other processes never see a partial file
+    const temp = join(this.directory, `.${randomUUID()}.tmp`);
+    await writeFile(temp, serializeCacheEntry(entry), "utf8");
+    await rename(temp, this.pathFor(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  /** Remove every entry file in the directory. */
+  async clear(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch {
+      return;
+    }
+    await Promise.all(names.filter((name) => name.endsWith(".json")).map((name) => rm(join(this.directory, name), { force: true })));
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
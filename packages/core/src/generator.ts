@@ -1,5 +1,22 @@
-import type { AiTxtDocument } from "./types.js";
+import type {
+  AiTxtDocument,
+  AgentPolicy,
+  JurisdictionPolicy,
+  PathRules,
+  PolicyField,
+  UsageScope,
+  UsageScopeKey,
+} from "./types.js";
+
 import { sanitizeValue, formatRateLimit } from "./utils.js";
+import { purposeKey } from "./purposes.js";
+
+const PATH_RULE_FIELDS: Array<[PolicyField, string]> = [
+  ["training", "Training"],
+  ["scraping", "Scraping"],
+  ["indexing", "Indexing"],
+  ["caching", "Caching"],
+];
 
 /**
  * Generate ai.txt text format from a document object.
@@ -13,6 +30,12 @@ export function generate(doc: AiTxtDocument): string {
   if (doc.generatedAt) {
     lines.push(`Generated-At: ${doc.generatedAt}`);
   }
+  if (doc.validFrom) {
+    lines.push(`Valid-From: ${sanitizeValue(doc.validFrom)}`);
+  }
+  if (doc.expires) {
+    lines.push(`Expires: ${sanitizeValue(doc.expires)}`);
+  }
   lines.push("");
 
   // Site info
@@ -34,19 +57,14 @@ export function generate(doc: AiTxtDocument): string {
   lines.push(`Scraping: ${doc.policies.scraping}`);
   lines.push(`Indexing: ${doc.policies.indexing}`);
   lines.push(`Caching: ${doc.policies.caching}`);
+  lines.push(...generatePurposes(doc.purposes, ""));
+  lines.push(...generateScopes(doc, ""));
   lines.push("");
 
-  // Training paths
-  if (doc.trainingPaths) {
-    for (const pattern of doc.trainingPaths.allow) {
-      lines.push(`Training-Allow: ${pattern}`);
-    }
-    for (const pattern of doc.trainingPaths.deny) {
-      lines.push(`Training-Deny: ${pattern}`);
-    }
-    if (doc.trainingPaths.allow.length > 0 || doc.trainingPaths.deny.length > 0) {
-      lines.push("");
-    }
+  // Path rules
+  const pathLines = generatePathRules(doc, "");
+  if (pathLines.length > 0) {
+    lines.push(...pathLines, "");
   }
 
   // Licensing
@@ -62,36 +80,45 @@ export function generate(doc: AiTxtDocument): string {
     }
   }
 
-  // Agent policies
-  for (const [agent, policy] of Object.entries(doc.agents)) {
-    lines.push(`Agent: ${agent}`);
-    if (policy.training) {
-      lines.push(`  Training: ${policy.training}`);
-    }
-    if (policy.scraping) {
-      lines.push(`  Scraping: ${policy.scraping}`);
-    }
-    if (policy.indexing) {
-      lines.push(`  Indexing: ${policy.indexing}`);
-    }
-    if (policy.caching) {
-      lines.push(`  Caching: ${policy.caching}`);
-    }
-    if (policy.rateLimit) {
-      lines.push(`  Rate-Limit: ${formatRateLimit(policy.rateLimit.requests, policy.rateLimit.window)}`);
-    }
+  // TDM rights reservation
+  if (doc.tdmReservation !== undefined) {
+    lines.push(`TDM-Reservation: ${doc.tdmReservation ? "yes" : "no"}`, "");
+  }
+
+  // Agent policies - agents with identical blocks share one grouped header
+  for (const [names, policy] of groupAgents(doc.agents)) {
+    // A header with no fields would otherwise join the next block's group
+    if (lines.at(-1)?.startsWith("Agent:")) lines.push("");
+    lines.push(...generateAgentBlock(names, policy));
   }
   lines.push("");
 
+  // Jurisdiction sections
+  for (const [code, section] of Object.entries(doc.jurisdictions ?? {})) {
+    lines.push(`Jurisdiction: ${code}`, ...generateBlockFields(section), "");
+  }
+
   // Content requirements
   if (doc.content) {
     if (doc.content.attribution) {
       lines.push(`Attribution: ${doc.content.attribution}`);
     }
+    if (doc.content.attributionTemplate) {
+      lines.push(`Attribution-Template: ${sanitizeValue(doc.content.attributionTemplate)}`);
+    }
     if (doc.content.aiDisclosure) {
       lines.push(`AI-Disclosure: ${doc.content.aiDisclosure}`);
     }
-    if (doc.content.attribution || doc.content.aiDisclosure) {
+    if (doc.content.maxExcerptWords !== undefined) {
+      lines.push(`Max-Excerpt-Words: ${doc.content.maxExcerptWords}`);
+    }
+    if (doc.content.summarization) {
+      lines.push(`Summarization: ${doc.content.summarization}`);
+    }
+    if (doc.content.linkBack) {
+      lines.push(`Link-Back: ${doc.content.linkBack}`);
+    }
+    if (Object.values(doc.content).some((value) => value !== undefined)) {
       lines.push("");
     }
   }
@@ -118,3 +145,108 @@ export function generate(doc: AiTxtDocument): string {
 
   return lines.join("\n") + "\n";
 }
+
+/**
+ * Generate the lines of a single `Agent:` block (header plus indented fields).
+ * Several names produce a grouped header: `Agent: GPTBot, ChatGPT-User`.
+ */
+export function generateAgentBlock(agents: string | readonly string[], policy: AgentPolicy): string[] {
+  // A comma inside a name would split it into two agents when re-read
+  const names = (typeof agents === "string" ? [agents] : agents).map((name) => sanitizeValue(name).replace(/,/g, ""));
+  return [`Agent: ${names.join(", ")}`, ...generateBlockFields(policy)];
+}
+
+/** The indented fields of an agent block or jurisdiction section. */
+function generateBlockFields(policy: AgentPolicy & JurisdictionPolicy): string[] {
+  const lines: string[] = [];
+  if (policy.tdmReservation !== undefined) {
+    lines.push(`  TDM-Reservation: ${policy.tdmReservation ? "yes" : "no"}`);
+  }
+  if (policy.training) {
+    lines.push(`  Training: ${policy.training}`);
+  }
+  if (policy.scraping) {
+    lines.push(`  Scraping: ${policy.scraping}`);
+  }
+  if (policy.indexing) {
+    lines.push(`  Indexing: ${policy.indexing}`);
+  }
+  if (policy.caching) {
+    lines.push(`  Caching: ${policy.caching}`);
+  }
+  lines.push(...generatePurposes(policy.purposes, "  "));
+  lines.push(...generateScopes(policy, "  "));
+  lines.push(...generatePathRules(policy, "  "));
+  if (policy.rateLimit) {
+    lines.push(`  Rate-Limit: ${formatRateLimit(policy.rateLimit.requests, policy.rateLimit.window)}`);
+  }
+  return lines;
+}
+
+/**
+ * Group agents whose blocks would be identical, in order of first
+ * appearance. `*` always keeps a block of its own.
+ */
+function groupAgents(agents: Record<string, AgentPolicy>): Array<[string[], AgentPolicy]> {
+  const groups = new Map<string, [string[], AgentPolicy]>();
+  for (const [agent, policy] of Object.entries(agents)) {
+    const body = agent === "*" ? "*" : generateAgentBlock(agent, policy).slice(1).join("\n");
+    const group = groups.get(body);
+    if (group) {
+      group[0].push(agent);
+    } else {
+      groups.set(body, [[agent], policy]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Generate `<Purpose>: value` lines (e.g. `Train-GenAI: deny`) for purpose policies.
+ */
+function generatePurposes(purposes: Record<string, string> | undefined, indent: string): string[] {
+  return Object.entries(purposes ?? {}).map(([name, value]) => `${indent}${purposeKey(name)}: ${value}`);
+}
+
+/**
+ * Generate `Training-Usage` / `Training-Distribution` (and `Indexing-*`) lines for usage scopes.
+ */
+function generateScopes(source: Partial<Record<UsageScopeKey, UsageScope>>, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [field, name] of [["training", "Training"], ["indexing", "Indexing"]] as const) {
+    const scope = source[`${field}Scope`];
+    if (scope?.usage) lines.push(`${indent}${name}-Usage: ${scope.usage.join(", ")}`);
+    if (scope?.distribution) lines.push(`${indent}${name}-Distribution: ${scope.distribution.join(", ")}`);
+  }
+  return lines;
+}
+
+/**
+ * Generate `<Field>-Allow` / `<Field>-Deny` / `<Field>-Embargo` lines for
+ * every policy field and purpose that has path rules, in that order within
+ * each field.
+ */
+function generatePathRules(
+  source: Partial<Record<`${PolicyField}Paths`, PathRules>> & { purposePaths?: Record<string, PathRules> },
+  indent: string,
+): string[] {
+  const fields: Array<[string, PathRules | undefined]> = [
+    ...PATH_RULE_FIELDS.map(([field, name]): [string, PathRules | undefined] => [name, source[`${field}Paths`]]),
+    ...Object.entries(source.purposePaths ?? {}).map(([name, rules]): [string, PathRules] => [purposeKey(name), rules]),
+  ];
+
+  const lines: string[] = [];
+  for (const [name, rules] of fields) {
+    if (!rules) continue;
+    for (const pattern of rules.allow) {
+      lines.push(`${indent}${name}-Allow: ${sanitizeValue(pattern)}`);
+    }
+    for (const pattern of rules.deny) {
+      lines.push(`${indent}${name}-Deny: ${sanitizeValue(pattern)}`);
+    }
+    for (const { pattern, duration } of rules.embargo ?? []) {
+      lines.push(`${indent}${name}-Embargo: ${sanitizeValue(pattern)} ${duration}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,342 @@
+/**
+ * ai.txt - Path Globs
+ *
+ * Compiles path patterns (Training-Allow, Caching-Deny, ...) into regular
+ * expressions once and caches them, and normalizes URL paths so that
+ * `/a/./b`, `/a/%62` and `https://site.com/a/b?x=1` all match like `/a/b`.
+ *
+ * Pattern syntax:
+ *   - `*`      - any characters within a single path segment (no `/`)
+ *   - `**`     - any characters including `/` (recursive)
+ *   - `?`      - exactly one character other than `/`
+ *   - `[abc]`, `[a-z]`, `[!abc]` - one character from (or not from) a set
+ *   - `{a,b}`  - either alternative; alternatives may contain any syntax
+ *   - `$`      - at the very end, match the path exactly (no trailing slash)
+ *   - `\x`     - the character `x` literally
+ *
+ * Patterns match the whole path. A pattern that does not end in `/` or `$`
+ * also matches the path with a trailing slash, and a trailing `/**` also
+ * matches the directory itself (`/private/**` matches `/private`).
+ *
+ * An invalid pattern (a reversed class range such as `[z-a]`) never
+ * matches; `compileGlob()` reports why in `error` instead of throwing.
+ */
+
+// -- Types --
+
+/** A pattern compiled to a regular expression. */
+export interface CompiledGlob {
+  /** The source pattern. */
+  pattern: string;
+  /** Anchored regular expression equivalent to the pattern. */
+  regex: RegExp;
+  /** Number of literal characters in the pattern; wildcards count zero. */
+  specificity: number;
+  /** Test a path that has already been through `normalizePath()`. */
+  test(normalizedPath: string): boolean;
+  /** Why the pattern is invalid, if it is. An invalid pattern matches nothing. */
+  error?: string;
+}
+
+export interface NormalizeOptions {
+  /**
+   * Keep the query string (`?x=1`) on the normalized path so patterns can
+   * match it. Default: false - policies apply to the resource, whatever
+   * its query.
+   */
+  keepQuery?: boolean;
+}
+
+// -- Matching --
+
+const MAX_CACHED_PATTERNS = 1024;
+const cache = new Map<string, CompiledGlob>();
+
+/**
+ * Compile a glob pattern. Compiled patterns are cached, so calling this
+ * repeatedly with the same few dozen patterns costs a map lookup.
+ */
+export function compileGlob(pattern: string): CompiledGlob {
+  const cached = cache.get(pattern);
+  if (cached) return cached;
+
+  const anchored = pattern.endsWith("$") && !pattern.endsWith("\\$");
+  let body = anchored ? pattern.slice(0, -1) : pattern;
+
+  // Trailing slash handling (see module docs)
+  let suffix = "";
+  let suffixSpecificity = 0;
+  if (!anchored && body.endsWith("/**")) {
+    body = body.slice(0, -3);
+    suffix = "(?:/.*)?";
+    suffixSpecificity = 1;
+  } else if (!anchored && !body.endsWith("/")) {
+    suffix = "/?";
+  }
+
+  const { source, specificity, error } = translate(body, 0, false);
+  let regex = NEVER;
+  let invalid = error;
+  if (!invalid) {
+    try {
+      regex = new RegExp(`^${source}${suffix}$`, "s");
+    } catch (e) {
+      invalid = (e as Error).message;
+    }
+  }
+  const compiled: CompiledGlob = {
+    pattern,
+    regex,
+    specificity: specificity + suffixSpecificity,
+    test: (normalizedPath) => regex.test(normalizedPath),
+  };
+  if (invalid) compiled.error = invalid;
+
+  // Evict the oldest entry rather than growing without bound
+  if (cache.size >= MAX_CACHED_PATTERNS) cache.delete(cache.keys().next().value!);
+  cache.set(pattern, compiled);
+  return compiled;
+}
+
+/** What an invalid pattern compiles to. */
+const NEVER = /(?!)/;
+
+/**
+ * Match a URL path (or full URL) against a glob pattern.
+ *
+ * Examples:
+ *   - `/blog/*`       matches `/blog/post-1` but not `/blog/2024/post-1`
+ *   - `/blog/**`      matches `/blog`, `/blog/post-1` and `/blog/2024/post-1`
+ *   - `/public/*.html` matches `/public/index.html`
+ *   - `/*.{jpg,png}$` matches `/cat.png` but not `/cat.png/`
+ */
+export function globMatch(path: string, pattern: string, options: NormalizeOptions = {}): boolean {
+  return compileGlob(pattern).test(normalizePath(path, options));
+}
+
+/**
+ * Specificity of a glob pattern: its literal length without wildcards, so
+ * `/blog/premium/**` (14) outranks `/blog/**` (6). A character class
+ * counts as one character and `{a,b}` as its shortest alternative.
+ */
+export function patternSpecificity(pattern: string): number {
+  return compileGlob(pattern).specificity;
+}
+
+// -- Normalization --
+
+/**
+ * Normalize a URL or URL path for matching:
+ *   - scheme, host and fragment are dropped; the query is dropped unless
+ *     `keepQuery` is set
+ *   - percent-encoded characters are decoded, except `/`, `?`, `#` and `%`,
+ *     which stay encoded (uppercase) so they cannot change the path's shape
+ *   - `.` and `..` segments are resolved (RFC 3986 section 5.2.4)
+ *   - an empty path becomes `/`
+ */
+export function normalizePath(input: string, options: NormalizeOptions = {}): string {
+  // Fast path: most paths a crawler sees are already normal
+  if (input.startsWith("/") && !NEEDS_NORMALIZING.test(input)) return input;
+
+  let path = input;
+
+  const hash = path.indexOf("#");
+  if (hash >= 0) path = path.slice(0, hash);
+
+  const origin = path.match(/^[a-z][a-z\d+.-]*:\/\/[^/?]*/i);
+  if (origin) path = path.slice(origin[0].length);
+
+  let query = "";
+  const q = path.indexOf("?");
+  if (q >= 0) {
+    query = path.slice(q);
+    path = path.slice(0, q);
+  }
+
+  if (!path.startsWith("/")) path = "/" + path;
+  path = removeDotSegments(decodePercent(path));
+
+  return options.keepQuery ? path + query : path;
+}
+
+const NEEDS_NORMALIZING = /[%?#]|\/\.\.?(?:\/|$)/;
+
+function removeDotSegments(path: string): string {
+  const segments = path.split("/").slice(1);
+  const out: string[] = [];
+
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1;
+    if (segment === "." || segment === "..") {
+      if (segment === "..") out.pop();
+      if (last) out.push("");
+      return;
+    }
+    out.push(segment);
+  });
+
+  return "/" + out.join("/");
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+/** Decode runs of `%XX` escapes as UTF-8, leaving invalid sequences alone. */
+function decodePercent(text: string): string {
+  return text.replace(/(?:%[0-9a-f]{2})+/gi, (run) => {
+    const bytes = Uint8Array.from(run.match(/%../g)!, (hex) => parseInt(hex.slice(1), 16));
+    let decoded: string;
+    try {
+      decoded = utf8.decode(bytes);
+    } catch {
+      return run.toUpperCase();
+    }
+    return decoded.replace(/[%/?#]/g, (c) => "%" + c.charCodeAt(0).toString(16).toUpperCase());
+  });
+}
+
+// -- Compilation --
+
+interface Translation {
+  source: string;
+  specificity: number;
+  /** Index just past the last character consumed. */
+  end: number;
+  /** Why the pattern is invalid, if it is. */
+  error?: string;
+}
+
+/**
+ * Translate a pattern to a regex source, starting at `start`. Inside
+ * braces, stops at the first top-level `,` or `}`.
+ */
+function translate(pattern: string, start: number, inBraces: boolean): Translation {
+  let source = "";
+  let specificity = 0;
+  let error: string | undefined;
+  let i = start;
+
+  while (i < pattern.length) {
+    const c = pattern[i];
+
+    if (inBraces && (c === "," || c === "}")) break;
+
+    if (c === "\\" && i + 1 < pattern.length) {
+      source += escapeLiteral(pattern[i + 1]);
+      specificity++;
+      i += 2;
+    } else if (pattern.startsWith("/**/", i)) {
+      // Zero or more whole segments
+      source += "(?:/.+)?/";
+      specificity += 2;
+      i += 4;
+    } else if (pattern.startsWith("**", i)) {
+      source += ".*";
+      i += 2;
+    } else if (c === "*") {
+      source += "[^/]*";
+      i++;
+    } else if (c === "?") {
+      source += "[^/]";
+      i++;
+    } else if (c === "[" && classEnd(pattern, i) > 0) {
+      const end = classEnd(pattern, i);
+      const translated = translateClass(pattern.slice(i + 1, end));
+      source += translated.source;
+      error ??= translated.error;
+      specificity++;
+      i = end + 1;
+    } else if (c === "{" && braceEnd(pattern, i) > 0) {
+      const alternatives: Translation[] = [];
+      let next = i + 1;
+      for (;;) {
+        const alt = translate(pattern, next, true);
+        alternatives.push(alt);
+        next = alt.end + 1;
+        if (pattern[alt.end] === "}") break;
+      }
+      source += `(?:${alternatives.map((a) => a.source).join("|")})`;
+      error ??= alternatives.find((a) => a.error)?.error;
+      specificity += Math.min(...alternatives.map((a) => a.specificity));
+      i = next;
+    } else if (c === "%" && /^%[0-9a-f]{2}/i.test(pattern.slice(i, i + 3))) {
+      // Decode the same way paths are decoded so `%7E` matches `~`
+      const run = pattern.slice(i).match(/^(?:%[0-9a-f]{2})+/i)![0];
+      const literal = decodePercent(run);
+      source += escapeLiteral(literal);
+      specificity += literal.length;
+      i += run.length;
+    } else {
+      source += escapeLiteral(c);
+      specificity++;
+      i++;
+    }
+  }
+
+  return error ? { source, specificity, end: i, error } : { source, specificity, end: i };
+}
+
+function escapeLiteral(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Index of the `]` closing a character class opened at `start`, or -1. */
+function classEnd(pattern: string, start: number): number {
+  // A `]` right after `[`, `[!` or `[^` is a literal member
+  let i = start + 1;
+  if (pattern[i] === "!" || pattern[i] === "^") i++;
+  if (pattern[i] === "]") i++;
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === "\\") i++;
+    else if (pattern[i] === "]") return i;
+  }
+  return -1;
+}
+
+/** Index of the `}` closing a brace group opened at `start`, or -1. */
+function braceEnd(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    if (pattern[i] === "\\") i++;
+    else if (pattern[i] === "{") depth++;
+    else if (pattern[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Translate the body of `[...]` to a regex class that never matches `/`,
+ * or report a range whose start comes after its end.
+ */
+function translateClass(body: string): { source: string; error?: string } {
+  const negated = body.startsWith("!") || body.startsWith("^");
+  if (negated) body = body.slice(1);
+
+  // Split into members, remembering which were escaped (an escaped `-` is literal)
+  const chars: Array<{ char: string; escaped: boolean }> = [];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === "\\" && i + 1 < body.length) chars.push({ char: body[++i], escaped: true });
+    else chars.push({ char: body[i], escaped: false });
+  }
+
+  // Keep `-` for ranges and escape whatever else is special in a regex class
+  let members = "";
+  for (let i = 0; i < chars.length; i++) {
+    const { char, escaped } = chars[i];
+    const dash = chars[i + 1];
+    if (dash && dash.char === "-" && !dash.escaped && i + 2 < chars.length) {
+      const to = chars[i + 2].char;
+      if (char.codePointAt(0)! > to.codePointAt(0)!) {
+        return { source: "", error: `Invalid character class range: ${char}-${to}` };
+      }
+      members += `${escapeClassMember(char)}-${escapeClassMember(to)}`;
+      i += 2;
+    } else {
+      members += escaped || "]\\^-".includes(char) ? escapeClassMember(char) : char;
+    }
+  }
+  return { source: negated ? `[^/${members}]` : `(?!/)[${members}]` };
+}
+
+function escapeClassMember(char: string): string {
+  return /[\]\\^-]/.test(char) ? "\\" + char : char;
+}
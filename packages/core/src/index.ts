@@ -9,13 +9,88 @@ export { generateJSON } from "./generator-json.js";
 // Validator
 export { validate, validateText, validateJSON } from "./validator.js";
 
+// Diagnostics
+export { DIAGNOSTIC_CODES, formatCodeFrame, formatDiagnostics } from "./diagnostics.js";
+export type { Diagnostic, CodeFrameOptions } from "./diagnostics.js";
+
 // Resolver
-export { resolve, canAccess, matchPath, globMatch } from "./resolver.js";
-export type { ResolvedPolicy, AccessResult } from "./resolver.js";
+export { resolve, canAccess, matchPath } from "./resolver.js";
+export type { ResolvedPolicy, AccessResult, AccessOptions, ResolveOptions, PathRuleMatch } from "./resolver.js";
+
+// Usage scopes
+export { USAGE_TYPES, MODEL_DISTRIBUTIONS, scopeViolation } from "./usage.js";
+
+// Audit receipts
+export { createReceipt, verifyReceipt, serializeReceipt, RER_ARTIFACT_FORMAT, AUDIT_FORMATS } from "./audit.js";
+export type { AuditEvent, AuditRecord, AuditReceipt, CreateReceiptOptions } from "./audit.js";
+
+// Signed documents
+export { sign, signText, verify, publicKey, jwkThumbprint, JWKS_PATH, JSON_SIGNATURE_PATH } from "./signature.js";
+export { canonicalJSON } from "./encoding.js";
+export type { SignatureAlgorithm, SignatureVerification, SignedContent, JsonWebKeySet } from "./signature.js";
+
+// Crawler identity verification
+export { verifyAgent, signRequest, ipInRange, publishedIpRanges } from "./identity.js";
+export type { CrawlerIdentity, CrawlerRequest, DnsResolver, VerifyAgentOptions, VerificationMethod, AgentVerification, SignRequestOptions } from "./identity.js";
+
+// Attribution
+export { attribution, licenseReference } from "./attribution.js";
+export type { AttributionOptions, Citation, LicenseReference } from "./attribution.js";
+
+// Output constraints
+export { checkOutput, longestVerbatimRun } from "./output.js";
+export type { OutputCandidate, OutputConstraint, OutputViolation, OutputCheckResult } from "./output.js";
+
+// Jurisdictions
+export { EU_MEMBER_STATES, normalizeJurisdiction, isEuJurisdiction, matchJurisdiction } from "./jurisdiction.js";
+
+// Time-bound policies
+export { documentValidity, parseDuration } from "./time.js";
+export type { DocumentValidity, EmbargoMatch } from "./time.js";
+
+// Purposes
+export { AIPREF_PURPOSES, registerPurpose, getPurpose, listPurposes, canonicalPurpose, purposeChain } from "./purposes.js";
+export type { PurposeDefinition, RegisterPurposeOptions } from "./purposes.js";
+
+// User-Agent matching
+export { parseUserAgent, matchAgent, isAgentPattern } from "./user-agent.js";
+export type { UserAgentProduct } from "./user-agent.js";
+
+// Explain
+export { explain, formatTrace } from "./explain.js";
+export type { PolicyTrace, PolicyLayer, TracedValue, TracedPolicy, PatternEvaluation, ExplainOptions } from "./explain.js";
+
+// Compiled policies
+export { compilePolicy } from "./policy.js";
+export type { CompiledPolicy } from "./policy.js";
+
+// Path matching
+export { compileGlob, globMatch, normalizePath, patternSpecificity } from "./glob.js";
+export type { CompiledGlob, NormalizeOptions } from "./glob.js";
+
+// Lossless editing
+export { parseCST, printCST, cstLines, AiTxtEditor } from "./cst.js";
+export type {
+  CstDocument,
+  CstNode,
+  CstLine,
+  CstLineKind,
+  CstAgentBlock,
+  CstJurisdictionBlock,
+  CstToken,
+  SourcePosition,
+  SourceRange,
+  EditOptions,
+  RemoveOptions,
+} from "./cst.js";
 
 // Client
 export { AiTxtClient } from "./client.js";
 export type { ClientOptions } from "./client.js";
+export { MemoryCacheStore, serializeCacheEntry, deserializeCacheEntry, cacheDirectives, parseCacheControl, MIN_CACHE_TTL } from "./cache.js";
+export type { CacheEntry, CacheStore, MemoryCacheStoreOptions, CacheDirectives } from "./cache.js";
+export type { RetryOptions, CircuitBreakerOptions } from "./retry.js";
+export { isPrivateAddress } from "./network.js";
 
 // Types
 export type {
@@ -23,17 +98,33 @@ export type {
   SiteInfo,
   ContentPolicies,
   PolicyValue,
+  PolicyField,
+  Purpose,
+  AiprefPurpose,
+  PathRules,
+  PathRulesKey,
+  EmbargoRule,
   TrainingPaths,
+  UsageType,
+  ModelDistribution,
+  ScopedField,
+  UsageScope,
+  UsageScopeKey,
+  UsageProfile,
   LicensingInfo,
   AgentPolicy,
+  JurisdictionPolicy,
   RateLimit,
   RateLimitWindow,
   ContentRequirements,
   RequirementLevel,
   ComplianceConfig,
   ParseResult,
+  ParseOptions,
   ParseError,
   ParseWarning,
+  ParseDiagnosticCode,
+  DiagnosticLocation,
   ValidationResult,
   ValidationError,
   ValidationWarning,
@@ -46,6 +137,12 @@ export {
   ContentPoliciesSchema,
   PolicyValueSchema,
   AgentPolicySchema,
+  JurisdictionPolicySchema,
+  PathRulesSchema,
+  EmbargoRuleSchema,
+  UsageScopeSchema,
+  PurposePoliciesSchema,
+  PurposePathsSchema,
   RateLimitSchema,
   RequirementLevelSchema,
 } from "./schema.js";
@@ -0,0 +1,65 @@
+/**
+ * ai.txt - Jurisdictions
+ *
+ * Some rules only hold in some places. The EU's text-and-data-mining
+ * exception (Directive 2019/790, Article 4) lets anyone mine lawfully
+ * accessible content unless the rightholder reserves that right in a
+ * machine-readable way. A `Jurisdiction: EU` section carries the policy for
+ * callers there, together with the `TDM-Reservation` flag:
+ *
+ *   Jurisdiction: EU
+ *     Training: deny
+ *     TDM-Reservation: yes
+ *
+ * Sections are keyed by ISO 3166-1 alpha-2 country code, ISO 3166-2
+ * subdivision code ("US-CA") or `EU`. A caller's jurisdiction selects the
+ * most specific section: its own code, then its country, then `EU` for
+ * member states.
+ */
+
+// -- Codes --
+
+/** ISO 3166-1 alpha-2 codes of the EU member states. */
+export const EU_MEMBER_STATES: readonly string[] = [
+  "AT", "BE", "BG", "CY", "CZ", "DE", "DK", "EE", "ES", "FI", "FR", "GR", "HR", "HU",
+  "IE", "IT", "LT", "LU", "LV", "MT", "NL", "PL", "PT", "RO", "SE", "SI", "SK",
+];
+
+const JURISDICTION_CODE = /^[A-Z]{2}(?:-[A-Z0-9]{1,3})?$/;
+
+/**
+ * Normalize a jurisdiction code to upper case ("eu" -> "EU", "us-ca" -> "US-CA").
+ * Returns null if it is not a country, subdivision or `EU` code.
+ */
+export function normalizeJurisdiction(code: string): string | null {
+  const upper = code.trim().toUpperCase();
+  return JURISDICTION_CODE.test(upper) ? upper : null;
+}
+
+/** Whether a jurisdiction code is the EU or lies within it ("EU", "DE", "FR-75"). */
+export function isEuJurisdiction(code: string): boolean {
+  const upper = code.toUpperCase();
+  return upper === "EU" || EU_MEMBER_STATES.includes(upper.split("-")[0]);
+}
+
+// -- Matching --
+
+/**
+ * Find the section that applies to a caller's jurisdiction: an exact
+ * match, then the subdivision's country ("US-CA" -> "US"), then "EU" for
+ * member states.
+ *
+ * @param jurisdiction - The caller's jurisdiction code, any case.
+ * @param sections     - The document's section keys (upper case).
+ * @returns The matching key from `sections`, or undefined.
+ */
+export function matchJurisdiction(jurisdiction: string, sections: readonly string[]): string | undefined {
+  const code = normalizeJurisdiction(jurisdiction);
+  if (!code) return undefined;
+
+  const country = code.split("-")[0];
+  for (const candidate of [code, country]) {
+    if (sections.includes(candidate)) return candidate;
+  }
+  return isEuJurisdiction(country) && sections.includes("EU") ? "EU" : undefined;
+}
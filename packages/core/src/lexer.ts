@@ -0,0 +1,114 @@
+/**
+ * ai.txt - Line Lexer
+ *
+ * Splits ai.txt text into physical lines and locates the key, separator,
+ * value and comment on each one. Shared by the document parser (for
+ * diagnostic columns) and the lossless CST.
+ */
+
+// -- Types --
+
+/** A position in the source text. Lines and columns are 1-based, offset is 0-based. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+/** A half-open source range: `end` points just past the last character. */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/** A slice of source text with its location. */
+export interface CstToken {
+  text: string;
+  range: SourceRange;
+}
+
+export type CstLineKind = "blank" | "comment" | "field" | "invalid";
+
+/** One physical line of the input. */
+export interface CstLine {
+  kind: CstLineKind;
+  /** The line's text, without its terminator. */
+  raw: string;
+  /** The line terminator ("\n", "\r\n", or "" for the final line). */
+  eol: string;
+  /** Range of the whole line, excluding the terminator. */
+  range: SourceRange;
+  /** Whether the line is indented (two or more spaces, or a tab). */
+  indented: boolean;
+  /** Comment text including the leading `#` (comment lines only). */
+  comment?: CstToken;
+  /** Key as written (field lines only). */
+  key?: CstToken;
+  /** The `:` separator (field lines only). */
+  separator?: CstToken;
+  /** Trimmed value (field lines only; may be empty). */
+  value?: CstToken;
+}
+
+// -- Lexer --
+
+/**
+ * Scan every line of the input, including the (possibly empty) text after
+ * the final line terminator. Joining `raw + eol` of the result reproduces
+ * the input exactly.
+ */
+export function scanLines(input: string): CstLine[] {
+  const lines: CstLine[] = [];
+  const re = /\r?\n/g;
+  let start = 0;
+  let lineNum = 1;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(input)) !== null) {
+    lines.push(scanLine(input.slice(start, match.index), match[0], lineNum++, start));
+    start = match.index + match[0].length;
+  }
+  lines.push(scanLine(input.slice(start), "", lineNum, start));
+  return lines;
+}
+
+function scanLine(raw: string, eol: string, line: number, offset: number): CstLine {
+  const pos = (column: number): SourcePosition => ({ line, column: column + 1, offset: offset + column });
+  const token = (from: number, to: number): CstToken => ({
+    text: raw.slice(from, to),
+    range: { start: pos(from), end: pos(to) },
+  });
+
+  const indentLen = raw.length - raw.trimStart().length;
+  const contentEnd = raw.trimEnd().length;
+  const node: CstLine = {
+    kind: "blank",
+    raw,
+    eol,
+    range: { start: pos(0), end: pos(raw.length) },
+    indented: raw.startsWith("  ") || raw.startsWith("\t"),
+  };
+
+  if (contentEnd === 0) return node;
+
+  if (raw[indentLen] === "#") {
+    node.kind = "comment";
+    node.comment = token(indentLen, contentEnd);
+    return node;
+  }
+
+  const colonIdx = raw.indexOf(":", indentLen);
+  if (colonIdx === -1) {
+    node.kind = "invalid";
+    return node;
+  }
+
+  const keyEnd = raw.slice(0, colonIdx).trimEnd().length;
+  let valueStart = colonIdx + 1;
+  while (valueStart < contentEnd && /\s/.test(raw[valueStart])) valueStart++;
+
+  node.kind = "field";
+  node.key = token(indentLen, Math.max(keyEnd, indentLen));
+  node.separator = token(colonIdx, colonIdx + 1);
+  node.value = token(valueStart, Math.max(contentEnd, valueStart));
+  return node;
+}
@@ -0,0 +1,137 @@
+/**
+ * ai.txt - Network Safety
+ *
+ * `AiTxtClient` fetches URLs chosen by the sites it visits (redirect
+ * targets), so it treats every response as hostile: redirects are followed
+ * by hand, only to HTTPS URLs on public addresses, for a limited number of
+ * hops; bodies are read as a stream and abandoned past a size limit; and
+ * the Content-Type is checked against the file's format.
+ *
+ * Addresses are checked as written in the URL, and - given a `DnsResolver`
+ * - as the host name resolves. Hosts on an explicit development allowlist
+ * (e.g. "localhost") are exempt from both the HTTPS and the address rules.
+ */
+
+import { ipInRange } from "./identity.js";
+import type { DnsResolver } from "./identity.js";
+
+// -- Addresses --
+
+/** Loopback, private, link-local, shared, multicast and reserved ranges. */
+export const PRIVATE_IP_RANGES: readonly string[] = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+];
+
+/** Whether an address is loopback, private or otherwise not on the public internet. */
+export function isPrivateAddress(ip: string): boolean {
+  return PRIVATE_IP_RANGES.some((range) => ipInRange(ip, range));
+}
+
+// -- Targets --
+
+export interface TargetPolicy {
+  /** Host names exempt from the HTTPS and private-address rules. */
+  devHosts: readonly string[];
+  /** Resolves host names, so names pointing at private addresses are refused too. */
+  resolver?: Pick<DnsResolver, "lookup">;
+}
+
+/**
+ * Why a URL may not be fetched, or null if it may: it must be HTTPS and
+ * must not name or resolve to a private address, unless its host is a
+ * development host. A failing DNS lookup is left for the fetch to report.
+ */
+export async function unsafeTarget(url: URL, policy: TargetPolicy): Promise<string | null> {
+  // IPv6 literals keep their brackets in `hostname`
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  if (policy.devHosts.some((dev) => dev.toLowerCase() === host)) return null;
+
+  if (url.protocol !== "https:") return `${url.href} is not HTTPS`;
+  if (host === "localhost" || host.endsWith(".localhost") || isPrivateAddress(host)) {
+    return `${host} is a private or loopback address`;
+  }
+
+  if (policy.resolver && !host.includes(":") && !/^[\d.]+$/.test(host)) {
+    let addresses: string[];
+    try {
+      addresses = await policy.resolver.lookup(host);
+    } catch {
+      return null;
+    }
+    const internal = addresses.find(isPrivateAddress);
+    if (internal) return `${host} resolves to the private or loopback address ${internal}`;
+  }
+  return null;
+}
+
+// -- Responses --
+
+/** The Content-Type each format is served with (SPEC: Content Types). */
+export const CONTENT_TYPES = { json: "application/json", text: "text/plain" } as const;
+
+/**
+ * Whether a Content-Type header suits the format: `application/json` (or a
+ * `+json` type) for ai.json, `text/plain` for ai.txt. Parameters such as
+ * charset are ignored; a missing header is accepted.
+ */
+export function contentTypeMatches(header: string | null, format: "json" | "text"): boolean {
+  if (!header) return true;
+  const type = header.split(";")[0].trim().toLowerCase();
+  return type === CONTENT_TYPES[format] || (format === "json" && /^application\/[\w.+-]+\+json$/.test(type));
+}
+
+/**
+ * Read a response body as UTF-8, giving up as soon as it passes `maxBytes`
+ * - a declared Content-Length is checked before reading. Returns null for
+ * a body that is too large.
+ */
+export async function readBody(response: Response, maxBytes: number): Promise<string | null> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    return null;
+  }
+
+  // Responses without a stream (some polyfills and mocks) are read whole
+  if (!response.body) {
+    const text = await response.text();
+    return new TextEncoder().encode(text).byteLength > maxBytes ? null : text;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,160 @@
+/**
+ * ai.txt - Output Usage
+ *
+ * Access rules say whether an agent may use content; output constraints say
+ * how much of it may end up in what the agent writes:
+ *
+ *   Max-Excerpt-Words: 50
+ *   Summarization: deny
+ *   Link-Back: required
+ *
+ * `checkOutput()` tests a candidate AI output against them at answer time,
+ * e.g. before a retrieval-augmented answer is shown to a user.
+ */
+
+import type { ContentRequirements } from "./types.js";
+import type { ResolvedPolicy } from "./resolver.js";
+
+// -- Types --
+
+/** An AI output to check, and what it was generated from. */
+export interface OutputCandidate {
+  /** The generated text. */
+  text: string;
+  /** The source content, to measure verbatim excerpts against. */
+  source?: string;
+  /** The source's URL, which a link back must point to. */
+  sourceUrl?: string;
+  /** Whether the output summarizes the source. */
+  summary?: boolean;
+}
+
+/** The output constraint a violation is about. */
+export type OutputConstraint = "excerpt" | "summarization" | "link-back";
+
+export interface OutputViolation {
+  constraint: OutputConstraint;
+  /** Human-readable explanation. */
+  reason: string;
+}
+
+/** Result of a checkOutput call. */
+export interface OutputCheckResult {
+  /** True if the output meets every constraint. */
+  allowed: boolean;
+  violations: OutputViolation[];
+  /** The longest run of words copied verbatim from the source, when a source was given. */
+  longestExcerpt?: number;
+}
+
+// -- Excerpts --
+
+/**
+ * Runs of this many words or fewer are treated as incidental overlap
+ * ("in the United States") rather than quotation, whatever the declared
+ * limit - so limits below it (`0` included) allow runs of this length.
+ */
+export const INCIDENTAL_RUN_WORDS = 3;
+
+/** Lowercased words, ignoring punctuation and whitespace. */
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu) ?? [];
+}
+
+/**
+ * Length in words of the longest passage `output` shares verbatim with
+ * `source`. Case, punctuation and whitespace are ignored.
+ */
+export function longestVerbatimRun(output: string, source: string): number {
+  const out = words(output);
+  const src = words(source);
+  const positions = new Map<string, number[]>();
+  src.forEach((word, i) => {
+    const list = positions.get(word);
+    if (list) list.push(i);
+    else positions.set(word, [i]);
+  });
+
+  let longest = 0;
+  for (let i = 0; i < out.length; i++) {
+    for (const start of positions.get(out[i]) ?? []) {
+      // Only measure from the start of a run
+      if (i > 0 && start > 0 && out[i - 1] === src[start - 1]) continue;
+      let length = 1;
+      while (i + length < out.length && start + length < src.length && out[i + length] === src[start + length]) {
+        length++;
+      }
+      longest = Math.max(longest, length);
+    }
+  }
+  return longest;
+}
+
+// -- Links --
+
+/** Whether `text` contains `url`, ignoring a trailing slash and the scheme's case. */
+function linksTo(text: string, url: string): boolean {
+  const target = url.replace(/\/+$/, "").replace(/^https?:\/\//i, "").toLowerCase();
+  return target !== "" && text.toLowerCase().includes(target);
+}
+
+// -- Checking --
+
+/**
+ * Check a candidate AI output against a policy's output constraints
+ * (`ResolvedPolicy.content`).
+ *
+ * Constraints that cannot be checked fail: a word limit without the
+ * `source` to compare against, or a required link back without the
+ * `sourceUrl`. Verbatim runs of up to `INCIDENTAL_RUN_WORDS` words never
+ * count against a word limit, even one of 0, 1 or 2 (SPEC: Output
+ * Constraints).
+ *
+ * ```ts
+ * const policy = resolve(doc, "ClaudeBot");
+ * checkOutput(policy, { text: answer, source: article, sourceUrl: "https://news.example/a" });
+ * // -> { allowed: false, violations: [{ constraint: "excerpt", reason: "..." }], longestExcerpt: 72 }
+ * ```
+ */
+export function checkOutput(policy: Pick<ResolvedPolicy, "content">, candidate: OutputCandidate): OutputCheckResult {
+  const content: ContentRequirements = policy.content ?? {};
+  const violations: OutputViolation[] = [];
+  let longestExcerpt: number | undefined;
+
+  if (candidate.source !== undefined) {
+    longestExcerpt = longestVerbatimRun(candidate.text, candidate.source);
+  }
+
+  const limit = content.maxExcerptWords;
+  if (limit !== undefined) {
+    if (longestExcerpt === undefined) {
+      violations.push({
+        constraint: "excerpt",
+        reason: `excerpts are limited to ${limit} words and no source was given to compare against`,
+      });
+    } else if (longestExcerpt > Math.max(limit, INCIDENTAL_RUN_WORDS)) {
+      violations.push({
+        constraint: "excerpt",
+        reason: limit === 0
+          ? `verbatim quoting is not allowed, but the output copies ${longestExcerpt} words`
+          : `the output copies ${longestExcerpt} words verbatim; the limit is ${limit}`,
+      });
+    }
+  }
+
+  if (content.summarization === "deny" && candidate.summary) {
+    violations.push({ constraint: "summarization", reason: "summarization is denied" });
+  }
+
+  if (content.linkBack === "required") {
+    if (candidate.sourceUrl === undefined) {
+      violations.push({ constraint: "link-back", reason: "a link back is required and no source URL was given" });
+    } else if (!linksTo(candidate.text, candidate.sourceUrl)) {
+      violations.push({ constraint: "link-back", reason: `a link back to ${candidate.sourceUrl} is required` });
+    }
+  }
+
+  const result: OutputCheckResult = { allowed: violations.length === 0, violations };
+  if (longestExcerpt !== undefined) result.longestExcerpt = longestExcerpt;
+  return result;
+}
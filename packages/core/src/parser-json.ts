@@ -1,5 +1,6 @@
-import type { ParseResult } from "./types.js";
+import type { AgentPolicy, AiTxtDocument, ParseResult, ParseWarning, PathRulesKey, PolicyField, PolicyValue } from "./types.js";
 import { AiTxtDocumentSchema } from "./schema.js";
+import { getPurpose } from "./purposes.js";
 
 /**
  * Parse an ai.json string into a validated AiTxtDocument.
@@ -11,7 +12,7 @@ export function parseJSON(input: string): ParseResult {
   } catch (err) {
     return {
       success: false,
-      errors: [{ message: `Invalid JSON: ${err instanceof Error ? err.message : "parse error"}` }],
+      errors: [{ code: "INVALID_JSON", message: `Invalid JSON: ${err instanceof Error ? err.message : "parse error"}` }],
       warnings: [],
     };
   }
@@ -23,6 +24,7 @@ export function parseJSON(input: string): ParseResult {
       success: false,
       errors: result.error.issues.map((issue) => ({
         field: issue.path.join("."),
+        code: "SCHEMA_VIOLATION",
         message: issue.message,
       })),
       warnings: [],
@@ -30,7 +32,7 @@ export function parseJSON(input: string): ParseResult {
   }
 
   // Normalize agent names to lowercase (spec requires case-insensitive matching)
-  const doc = result.data;
+  const doc: AiTxtDocument = result.data;
   if (doc.agents) {
     const normalized: typeof doc.agents = {};
     for (const [name, policy] of Object.entries(doc.agents)) {
@@ -39,10 +41,65 @@ export function parseJSON(input: string): ParseResult {
     doc.agents = normalized;
   }
 
+  // Jurisdiction codes are upper case ("eu" -> "EU")
+  if (doc.jurisdictions) {
+    doc.jurisdictions = Object.fromEntries(
+      Object.entries(doc.jurisdictions).map(([code, section]) => [code.toUpperCase(), section]),
+    );
+  }
+
+  const warnings: ParseWarning[] = [];
+  normalizePurposes(doc, doc.policies, "", warnings);
+  for (const [name, policy] of Object.entries(doc.agents)) {
+    normalizePurposes(policy, policy, `agents.${name}.`, warnings);
+  }
+  for (const [code, section] of Object.entries(doc.jurisdictions ?? {})) {
+    normalizePurposes(section, section, `jurisdictions.${code}.`, warnings);
+  }
+
   return {
     success: true,
     document: doc,
     errors: [],
-    warnings: [],
+    warnings,
+  };
+}
+
+/**
+ * Lowercase purpose names and move AIPREF names of policy fields
+ * (`"train-ai"`, `"search"`) onto the field itself (`training`,
+ * `trainingPaths`), so each policy has one place to live - as in ai.txt,
+ * where `Train-AI:` sets `Training`. Unregistered purposes are kept, with
+ * a warning.
+ */
+function normalizePurposes(
+  target: Pick<AgentPolicy, "purposes" | "purposePaths" | PathRulesKey>,
+  policies: Partial<Record<PolicyField, PolicyValue>>,
+  prefix: string,
+  warnings: ParseWarning[],
+): void {
+  const sort = <T>(key: "purposes" | "purposePaths", entries: Record<string, T>, toField: (field: PolicyField, value: T) => void) => {
+    const kept: Record<string, T> = {};
+    for (const [written, value] of Object.entries(entries)) {
+      const definition = getPurpose(written);
+      if (definition?.field) {
+        toField(definition.field, value);
+        continue;
+      }
+      if (!definition) {
+        warnings.push({ field: `${prefix}${key}.${written}`, code: "UNKNOWN_PURPOSE", message: `Unknown purpose: "${written}"` });
+      }
+      kept[written.toLowerCase()] = value;
+    }
+    return Object.keys(kept).length > 0 ? kept : undefined;
   };
+
+  if (target.purposes) {
+    target.purposes = sort("purposes", target.purposes, (field, value) => (policies[field] = value));
+    if (!target.purposes) delete target.purposes;
+  }
+  if (target.purposePaths) {
+    target.purposePaths = sort("purposePaths", target.purposePaths, (field, rules) => (target[`${field}Paths`] = rules));
+    if (!target.purposePaths) delete target.purposePaths;
+  }
 }
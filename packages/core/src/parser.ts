@@ -1,60 +1,261 @@
 import type {
   AiTxtDocument,
   AgentPolicy,
+  ContentPolicies,
+  DiagnosticLocation,
+  JurisdictionPolicy,
+  ParseDiagnosticCode,
+  ParseOptions,
   ParseResult,
   ParseError,
   ParseWarning,
+  PathRules,
+  PolicyField,
   PolicyValue,
   RateLimitWindow,
   RequirementLevel,
+  UsageScope,
+  UsageScopeKey,
 } from "./types.js";
-import { parseRateLimit } from "./utils.js";
+import { parseRateLimit, splitAgentNames, suggestKey } from "./utils.js";
+import { scanLines } from "./lexer.js";
+import { isPolicyField, listPurposes, lookupPurposeKey } from "./purposes.js";
+import { isDateTime, parseEmbargo } from "./time.js";
+import { MODEL_DISTRIBUTIONS, USAGE_TYPES, parseScopeList } from "./usage.js";
+import { normalizeJurisdiction } from "./jurisdiction.js";
+import { unknownPlaceholders } from "./attribution.js";
+import type { CstLine, CstToken } from "./lexer.js";
 
-type ParserState = "TOP_LEVEL" | "IN_AGENT";
+type ParserState = "TOP_LEVEL" | "IN_AGENT" | "IN_JURISDICTION";
 
 const VALID_POLICY_VALUES = new Set(["allow", "deny", "conditional"]);
 const VALID_REQUIREMENT_LEVELS = new Set(["required", "recommended", "optional", "none"]);
 
+/** Site-wide policies for fields the file does not mention. */
+const DEFAULT_POLICIES: ContentPolicies = {
+  training: "deny",
+  scraping: "allow",
+  indexing: "allow",
+  caching: "allow",
+};
+
+const POLICY_FIELD_NAMES: Record<string, string> = {
+  training: "Training",
+  scraping: "Scraping",
+  indexing: "Indexing",
+  caching: "Caching",
+};
+
+/** Recognized top-level keys, as written in the spec (used for typo suggestions). */
+const TOP_LEVEL_KEYS = [
+  "Spec-Version", "Generated-At", "Valid-From", "Expires",
+  "Site-Name", "Site-URL", "Description", "Site-Description", "Contact", "Site-Contact", "Policy-URL",
+  "Training", "Scraping", "Indexing", "Caching",
+  "Training-Allow", "Training-Deny", "Scraping-Allow", "Scraping-Deny",
+  "Indexing-Allow", "Indexing-Deny", "Caching-Allow", "Caching-Deny",
+  "Training-Embargo", "Scraping-Embargo", "Indexing-Embargo", "Caching-Embargo",
+  "Training-Usage", "Training-Distribution", "Indexing-Usage", "Indexing-Distribution",
+  "Training-License", "Training-Fee",
+  "TDM-Reservation",
+  "Attribution", "Attribution-Template", "AI-Disclosure", "Max-Excerpt-Words", "Summarization", "Link-Back",
+  "Audit", "Audit-Format",
+  "AI-JSON", "Agents-TXT", "Agent", "Jurisdiction", "Signature",
+];
+
+/** Recognized keys inside an agent block. */
+const AGENT_KEYS = [
+  "Training", "Scraping", "Indexing", "Caching",
+  "Training-Allow", "Training-Deny", "Scraping-Allow", "Scraping-Deny",
+  "Indexing-Allow", "Indexing-Deny", "Caching-Allow", "Caching-Deny",
+  "Training-Embargo", "Scraping-Embargo", "Indexing-Embargo", "Caching-Embargo",
+  "Training-Usage", "Training-Distribution", "Indexing-Usage", "Indexing-Distribution",
+  "Rate-Limit",
+];
+
+/** Recognized keys inside a jurisdiction section. */
+const JURISDICTION_KEYS = [...AGENT_KEYS.filter((key) => key !== "Rate-Limit"), "TDM-Reservation"];
+
+const TDM_RESERVATION_VALUES: Record<string, boolean> = { yes: true, no: false };
+
+/** Keys that may legitimately appear more than once. */
+const REPEATABLE_KEYS = new Set([
+  "training-allow", "training-deny", "scraping-allow", "scraping-deny",
+  "indexing-allow", "indexing-deny", "caching-allow", "caching-deny",
+  "training-embargo", "scraping-embargo", "indexing-embargo", "caching-embargo",
+  "agent", "jurisdiction",
+]);
+
+/** Alternate spellings that set the same field. */
+const KEY_ALIASES: Record<string, string> = {
+  "site-description": "description",
+  "site-contact": "contact",
+};
+
 /**
  * Parse an ai.txt text document into a structured AiTxtDocument.
+ *
+ * In strict mode the parser also reports duplicate keys, repeated agent
+ * blocks, paths listed as both allowed and denied, and likely typos of
+ * known keys - and every diagnostic is an error, so any ambiguity makes
+ * the parse fail.
  */
-export function parse(input: string): ParseResult {
+export function parse(input: string, options: ParseOptions = {}): ParseResult {
+  const strict = options.strict ?? false;
   const errors: ParseError[] = [];
   const warnings: ParseWarning[] = [];
-  const lines = input.split(/\r?\n/);
+  const report = (d: ParseWarning) => (strict ? errors : warnings).push(d);
 
   // Collected data
   let specVersion = "1.0";
   let generatedAt: string | undefined;
+  const validity: { validFrom?: string; expires?: string } = {};
   const site: Record<string, string> = {};
   const policies: Record<string, string> = {};
-  const trainingAllowPaths: string[] = [];
-  const trainingDenyPaths: string[] = [];
+  const pathRules: Record<PolicyField, PathRules> = {
+    training: { allow: [], deny: [] },
+    scraping: { allow: [], deny: [] },
+    indexing: { allow: [], deny: [] },
+    caching: { allow: [], deny: [] },
+  };
+  const purposes: Record<string, PolicyValue> = {};
+  const purposePaths: Record<string, PathRules> = {};
+  const scopes: Partial<Record<UsageScopeKey, UsageScope>> = {};
   const licensing: Record<string, string> = {};
   const agents: Record<string, AgentPolicy> = {};
+  const jurisdictions: Record<string, JurisdictionPolicy> = {};
+  let tdmReservation: boolean | undefined;
   const content: Record<string, string> = {};
+  let maxExcerptWords: number | undefined;
   const compliance: Record<string, string> = {};
   const metadata: Record<string, string> = {};
 
   let state: ParserState = "TOP_LEVEL";
-  let currentAgentName: string | null = null;
-  let currentAgentPolicy: AgentPolicy | null = null;
+  // Names in the open block: several for `Agent: A, B` or consecutive `Agent:` lines
+  let currentAgentNames: string[] = [];
+  let currentAgentPolicy: (AgentPolicy & JurisdictionPolicy) | null = null;
+  // Set while the open block is a `Jurisdiction:` section rather than an agent block
+  let currentJurisdiction: string | null = null;
+  // True until the block's first field or blank line; another `Agent:` line joins the group
+  let currentAgentGroupOpen = false;
+
+  // Strict-mode bookkeeping: where each key / agent / path was first seen
+  const topLevelKeyLines = new Map<string, number>();
+  const agentKeyLines = new Map<string, number>();
+  const agentLines = new Map<string, number>();
+  const pathRuleLines = new Map<string, { rule: string; kind: string; line: number }>();
+  const agentPathRuleLines = new Map<string, { rule: string; kind: string; line: number }>();
 
   function flushAgent() {
-    if (currentAgentName !== null && currentAgentPolicy !== null) {
-      agents[currentAgentName] = currentAgentPolicy;
+    if (currentAgentPolicy !== null && currentJurisdiction !== null) {
+      jurisdictions[currentJurisdiction] = currentAgentPolicy;
+    } else if (currentAgentPolicy !== null) {
+      // Each agent of a group gets its own copy of the shared fields
+      currentAgentNames.forEach((name, i) => {
+        agents[name] = i === 0 ? currentAgentPolicy! : structuredClone(currentAgentPolicy!);
+      });
     }
-    currentAgentName = null;
+    currentAgentNames = [];
     currentAgentPolicy = null;
+    currentJurisdiction = null;
+    currentAgentGroupOpen = false;
   }
 
-  for (let i = 0; i < lines.length; i++) {
-    const lineNum = i + 1;
-    const raw = lines[i];
-    const trimmed = raw.trim();
+  function checkDuplicate(line: CstLine, seen: Map<string, number>, key: string) {
+    const firstLine = seen.get(key);
+    if (firstLine !== undefined) {
+      report({
+        ...tokenLocation(line, line.key!),
+        field: line.key!.text,
+        code: "DUPLICATE_KEY",
+        message: `Duplicate key: ${line.key!.text} (already set on line ${firstLine})`,
+      });
+    } else {
+      seen.set(key, line.range.start.line);
+    }
+  }
+
+  function checkPathConflict(
+    line: CstLine,
+    rule: string,
+    purpose: string,
+    kind: "allow" | "deny",
+    seen: Map<string, { rule: string; kind: string; line: number }>,
+  ) {
+    const pattern = line.value!.text;
+    // Conflicts only exist between rules for the same policy (Training-Allow vs Training-Deny)
+    const slot = `${purpose} ${pattern}`;
+    const earlier = seen.get(slot);
+    if (earlier && earlier.kind !== kind) {
+      report({
+        ...tokenLocation(line, line.value!),
+        field: rule,
+        code: "CONFLICTING_PATH_RULE",
+        message: `Path "${pattern}" is listed under both ${earlier.rule} (line ${earlier.line}) and ${rule}`,
+      });
+    } else if (!earlier) {
+      seen.set(slot, { rule, kind, line: line.range.start.line });
+    }
+  }
+
+  /**
+   * Store a purpose key's value: `Train-GenAI: deny`, `AI-Input-Allow: /x`
+   * or `Training-Embargo: /news/** 7d`, or an AIPREF name for a policy
+   * field (`Train-AI`, `Search`).
+   */
+  function setPurpose(
+    line: CstLine,
+    target: { purpose: string; rule?: "allow" | "deny" | "embargo" },
+    into: { policies: Record<string, string>; paths: (purpose: string) => PathRules; purposes: () => Record<string, PolicyValue> },
+    seen: Map<string, { rule: string; kind: string; line: number }>,
+  ) {
+    const key = line.key!.text;
+    const value = line.value!.text;
+    if (target.rule === "embargo") {
+      const embargo = parseEmbargo(value);
+      if (embargo) {
+        (into.paths(target.purpose).embargo ??= []).push(embargo);
+      } else {
+        report(invalidValue(line, key, "INVALID_EMBARGO", `Invalid embargo: ${value} (expected "<pattern> <duration>", e.g. "/news/** 30d")`));
+      }
+    } else if (target.rule) {
+      if (strict) checkPathConflict(line, key, target.purpose, target.rule, seen);
+      into.paths(target.purpose)[target.rule].push(value);
+    } else if (!VALID_POLICY_VALUES.has(value)) {
+      report(invalidValue(line, key, "INVALID_POLICY_VALUE", `Invalid policy value: ${value}`));
+    } else if (isPolicyField(target.purpose)) {
+      into.policies[target.purpose] = value;
+    } else {
+      into.purposes()[target.purpose] = value as PolicyValue;
+    }
+  }
+
+  /** Store a `Training-Usage` / `Indexing-Distribution` list in the field's usage scope. */
+  function setScope(line: CstLine, keyLower: string, into: Partial<Record<UsageScopeKey, UsageScope>>) {
+    const [field, dimension] = keyLower.split("-") as ["training" | "indexing", "usage" | "distribution"];
+    const value = line.value!.text;
+    const list = dimension === "usage" ? parseScopeList(value, USAGE_TYPES) : parseScopeList(value, MODEL_DISTRIBUTIONS);
+    if (list) {
+      Object.assign(into[`${field}Scope`] ??= {}, { [dimension]: list });
+    } else {
+      const expected = (dimension === "usage" ? USAGE_TYPES : MODEL_DISTRIBUTIONS).join(", ");
+      report(invalidValue(line, line.key!.text, "INVALID_USAGE_SCOPE", `Invalid ${dimension} list: ${value} (expected any of ${expected})`));
+    }
+  }
+
+  /** Parse a `TDM-Reservation: yes|no` value. */
+  function parseTdmReservation(line: CstLine): boolean | undefined {
+    const value = line.value!.text.toLowerCase();
+    if (value in TDM_RESERVATION_VALUES) return TDM_RESERVATION_VALUES[value];
+    report(invalidValue(line, "TDM-Reservation", "INVALID_TDM_RESERVATION", `Invalid TDM-Reservation: ${line.value!.text} (expected yes or no)`));
+    return undefined;
+  }
+
+  for (const line of scanLines(input)) {
+    const trimmed = line.raw.trim();
 
     // Skip empty lines and comments (accept legacy # Spec-Version / # Generated for backward compat)
-    if (trimmed === "" || trimmed.startsWith("#")) {
+    if (line.kind === "blank" || line.kind === "comment") {
+      if (line.kind === "blank") currentAgentGroupOpen = false;
       const specMatch = trimmed.match(/^#\s*Spec-Version:\s*(.+)/i);
       if (specMatch) specVersion = specMatch[1].trim();
       const genMatch = trimmed.match(/^#\s*Generated(?:-At)?:\s*(.+)/i);
@@ -62,86 +263,152 @@ export function parse(input: string): ParseResult {
       continue;
     }
 
-    // Check if this is an indented line
-    const isIndented = raw.startsWith("  ") || raw.startsWith("\t");
-
     // Indented line outside a block - warn and skip
-    if (isIndented && state === "TOP_LEVEL") {
-      warnings.push({ line: lineNum, message: `Indented line outside of a block: "${trimmed}"` });
+    if (line.indented && state === "TOP_LEVEL") {
+      report({
+        ...contentLocation(line),
+        code: "INDENT_OUTSIDE_BLOCK",
+        message: `Indented line outside of a block: "${trimmed}"`,
+      });
       continue;
     }
 
-    if (isIndented && state === "IN_AGENT" && currentAgentPolicy) {
-      const colonIdx = trimmed.indexOf(":");
-      if (colonIdx === -1) {
-        warnings.push({ line: lineNum, message: `Unparseable indented line: "${trimmed}"` });
+    if (line.indented && state !== "TOP_LEVEL" && currentAgentPolicy) {
+      if (line.kind !== "field") {
+        report({
+          ...contentLocation(line),
+          code: "UNPARSEABLE_LINE",
+          message: `Unparseable indented line: "${trimmed}"`,
+        });
         continue;
       }
-      const key = trimmed.slice(0, colonIdx).trim();
+      const key = line.key!.text;
+      const value = line.value!.text;
+      currentAgentGroupOpen = false;
+
       const keyLower = key.toLowerCase();
-      const value = trimmed.slice(colonIdx + 1).trim();
+      const target = lookupPurposeKey(keyLower);
+      const inSection = state === "IN_JURISDICTION";
+      const blockKeys = inSection ? JURISDICTION_KEYS : AGENT_KEYS;
+      const known = blockKeys.some((k) => k.toLowerCase() === keyLower);
+      if (strict && !REPEATABLE_KEYS.has(keyLower) && !target?.rule && (target || known)) {
+        checkDuplicate(line, agentKeyLines, target?.purpose ?? keyLower);
+      }
 
-      switch (keyLower) {
+      // Keys the block does not accept (Rate-Limit in a jurisdiction section,
+      // TDM-Reservation in an agent block) fall through to the unknown-field warning
+      switch (known || target ? keyLower : "") {
         case "training":
-          if (VALID_POLICY_VALUES.has(value)) {
-            currentAgentPolicy.training = value as PolicyValue;
-          } else {
-            warnings.push({ line: lineNum, field: "Training", message: `Invalid policy value: ${value}` });
-          }
-          break;
         case "scraping":
-          if (VALID_POLICY_VALUES.has(value)) {
-            currentAgentPolicy.scraping = value as PolicyValue;
-          } else {
-            warnings.push({ line: lineNum, field: "Scraping", message: `Invalid policy value: ${value}` });
-          }
-          break;
         case "indexing":
+        case "caching": {
+          const field = keyLower as "training" | "scraping" | "indexing" | "caching";
           if (VALID_POLICY_VALUES.has(value)) {
-            currentAgentPolicy.indexing = value as PolicyValue;
+            currentAgentPolicy[field] = value as PolicyValue;
           } else {
-            warnings.push({ line: lineNum, field: "Indexing", message: `Invalid policy value: ${value}` });
+            report(invalidValue(line, POLICY_FIELD_NAMES[field], "INVALID_POLICY_VALUE", `Invalid policy value: ${value}`));
           }
           break;
-        case "caching":
-          if (VALID_POLICY_VALUES.has(value)) {
-            currentAgentPolicy.caching = value as PolicyValue;
-          } else {
-            warnings.push({ line: lineNum, field: "Caching", message: `Invalid policy value: ${value}` });
-          }
+        }
+        case "training-allow":
+        case "training-deny":
+        case "scraping-allow":
+        case "scraping-deny":
+        case "indexing-allow":
+        case "indexing-deny":
+        case "caching-allow":
+        case "caching-deny": {
+          const [field, kind] = pathRuleTarget(keyLower);
+          if (strict) checkPathConflict(line, key, field, kind, agentPathRuleLines);
+          const paths = currentAgentPolicy[`${field}Paths`] ??= { allow: [], deny: [] };
+          paths[kind].push(value);
+          break;
+        }
+        case "training-usage":
+        case "training-distribution":
+        case "indexing-usage":
+        case "indexing-distribution":
+          setScope(line, keyLower, currentAgentPolicy);
+          break;
+        case "tdm-reservation": {
+          const reserved = parseTdmReservation(line);
+          if (reserved !== undefined) currentAgentPolicy.tdmReservation = reserved;
           break;
+        }
         case "rate-limit": {
           const rl = parseRateLimit(value);
           if (rl) {
             currentAgentPolicy.rateLimit = { requests: rl.requests, window: rl.window as RateLimitWindow };
           } else {
-            warnings.push({ line: lineNum, field: "Rate-Limit", message: `Invalid rate limit: ${value}` });
+            report(invalidValue(line, "Rate-Limit", "INVALID_RATE_LIMIT", `Invalid rate limit: ${value}`));
           }
           break;
         }
-        default:
-          warnings.push({ line: lineNum, message: `Unknown agent field: ${key}` });
+        default: {
+          // Purposes (`Train-GenAI`, `AI-Input-Allow`) and AIPREF names of the fields (`Train-AI`)
+          if (target) {
+            const agent = currentAgentPolicy;
+            setPurpose(line, target, {
+              policies: agent as Record<string, string>,
+              paths: (purpose) => isPolicyField(purpose)
+                ? (agent[`${purpose}Paths`] ??= { allow: [], deny: [] })
+                : ((agent.purposePaths ??= {})[purpose] ??= { allow: [], deny: [] }),
+              purposes: () => (agent.purposes ??= {}),
+            }, agentPathRuleLines);
+            break;
+          }
+          const suggestion = suggestKey(key, [...blockKeys, ...purposeKeys()]);
+          const kind = inSection ? "jurisdiction" : "agent";
+          report({
+            ...tokenLocation(line, line.key!),
+            code: inSection ? "UNKNOWN_JURISDICTION_FIELD" : "UNKNOWN_AGENT_FIELD",
+            message: suggestion
+              ? `Unknown ${kind} field: ${key} (did you mean ${suggestion}?)`
+              : `Unknown ${kind} field: ${key}`,
+          });
+        }
       }
       continue;
     }
 
-    // Non-indented line - flush any open block
-    if (state === "IN_AGENT") { flushAgent(); state = "TOP_LEVEL"; }
+    // Non-indented line - flush any open block, unless it is another
+    // `Agent:` line directly below the block's header (robots.txt-style group)
+    const groupsWithOpenBlock = state === "IN_AGENT" && currentAgentGroupOpen &&
+      line.kind === "field" && line.key!.text.toLowerCase() === "agent" && line.value!.text !== "";
+    if (state !== "TOP_LEVEL" && !groupsWithOpenBlock) { flushAgent(); state = "TOP_LEVEL"; }
 
     // Parse top-level key: value
-    const colonIdx = trimmed.indexOf(":");
-    if (colonIdx === -1) {
-      warnings.push({ line: lineNum, message: `Unparseable line: "${trimmed}"` });
+    if (line.kind !== "field") {
+      report({
+        ...contentLocation(line),
+        code: "UNPARSEABLE_LINE",
+        message: `Unparseable line: "${trimmed}"`,
+      });
       continue;
     }
 
-    const key = trimmed.slice(0, colonIdx).trim();
+    const key = line.key!.text;
     const keyLower = key.toLowerCase();
-    const value = trimmed.slice(colonIdx + 1).trim();
+    const value = line.value!.text;
+
+    const target = lookupPurposeKey(keyLower);
+    if (strict && !REPEATABLE_KEYS.has(keyLower) && !target?.rule) {
+      checkDuplicate(line, topLevelKeyLines, KEY_ALIASES[keyLower] ?? target?.purpose ?? keyLower);
+    }
 
     switch (keyLower) {
       case "spec-version": specVersion = value; break;
       case "generated-at": generatedAt = value; break;
+      case "valid-from":
+      case "expires": {
+        const name = keyLower === "expires" ? "Expires" : "Valid-From";
+        if (isDateTime(value)) {
+          validity[keyLower === "expires" ? "expires" : "validFrom"] = value;
+        } else {
+          report(invalidValue(line, name, "INVALID_DATE", `Invalid date: ${value}`));
+        }
+        break;
+      }
 
       case "site-name": site.name = value; break;
       case "site-url": site.url = value; break;
@@ -153,55 +420,91 @@ export function parse(input: string): ParseResult {
 
       // Content policies
       case "training":
-        if (VALID_POLICY_VALUES.has(value)) {
-          policies.training = value;
-        } else {
-          warnings.push({ line: lineNum, field: "Training", message: `Invalid policy value: ${value}` });
-        }
-        break;
       case "scraping":
-        if (VALID_POLICY_VALUES.has(value)) {
-          policies.scraping = value;
-        } else {
-          warnings.push({ line: lineNum, field: "Scraping", message: `Invalid policy value: ${value}` });
-        }
-        break;
       case "indexing":
-        if (VALID_POLICY_VALUES.has(value)) {
-          policies.indexing = value;
-        } else {
-          warnings.push({ line: lineNum, field: "Indexing", message: `Invalid policy value: ${value}` });
-        }
-        break;
       case "caching":
         if (VALID_POLICY_VALUES.has(value)) {
-          policies.caching = value;
+          policies[keyLower] = value;
         } else {
-          warnings.push({ line: lineNum, field: "Caching", message: `Invalid policy value: ${value}` });
+          report(invalidValue(line, POLICY_FIELD_NAMES[keyLower], "INVALID_POLICY_VALUE", `Invalid policy value: ${value}`));
         }
         break;
 
-      // Training paths
-      case "training-allow": trainingAllowPaths.push(value); break;
-      case "training-deny": trainingDenyPaths.push(value); break;
+      // Path rules
+      case "training-allow":
+      case "training-deny":
+      case "scraping-allow":
+      case "scraping-deny":
+      case "indexing-allow":
+      case "indexing-deny":
+      case "caching-allow":
+      case "caching-deny": {
+        const [field, kind] = pathRuleTarget(keyLower);
+        if (strict) checkPathConflict(line, key, field, kind, pathRuleLines);
+        pathRules[field][kind].push(value);
+        break;
+      }
+
+      // Usage scopes
+      case "training-usage":
+      case "training-distribution":
+      case "indexing-usage":
+      case "indexing-distribution":
+        setScope(line, keyLower, scopes);
+        break;
 
       // Licensing
       case "training-license": licensing.license = value; break;
       case "training-fee": licensing.feeUrl = value; break;
 
+      case "tdm-reservation": {
+        const reserved = parseTdmReservation(line);
+        if (reserved !== undefined) tdmReservation = reserved;
+        break;
+      }
+
       // Content requirements
       case "attribution":
         if (VALID_REQUIREMENT_LEVELS.has(value)) {
           content.attribution = value;
         } else {
-          warnings.push({ line: lineNum, field: "Attribution", message: `Invalid requirement level: ${value}` });
+          report(invalidValue(line, "Attribution", "INVALID_REQUIREMENT_LEVEL", `Invalid requirement level: ${value}`));
         }
         break;
+      case "attribution-template": {
+        const unknown = unknownPlaceholders(value);
+        if (unknown.length > 0) {
+          report(invalidValue(line, "Attribution-Template", "INVALID_ATTRIBUTION_TEMPLATE", `Unknown placeholder in Attribution-Template: {${unknown[0]}}`));
+        }
+        content.attributionTemplate = value;
+        break;
+      }
       case "ai-disclosure":
         if (VALID_REQUIREMENT_LEVELS.has(value)) {
           content.aiDisclosure = value;
         } else {
-          warnings.push({ line: lineNum, field: "AI-Disclosure", message: `Invalid requirement level: ${value}` });
+          report(invalidValue(line, "AI-Disclosure", "INVALID_REQUIREMENT_LEVEL", `Invalid requirement level: ${value}`));
+        }
+        break;
+      case "max-excerpt-words":
+        if (/^\d+$/.test(value)) {
+          maxExcerptWords = parseInt(value, 10);
+        } else {
+          report(invalidValue(line, "Max-Excerpt-Words", "INVALID_OUTPUT_CONSTRAINT", `Invalid Max-Excerpt-Words: ${value} (expected a number of words)`));
+        }
+        break;
+      case "summarization":
+        if (value === "allow" || value === "deny") {
+          content.summarization = value;
+        } else {
+          report(invalidValue(line, "Summarization", "INVALID_OUTPUT_CONSTRAINT", `Invalid Summarization: ${value} (expected allow or deny)`));
+        }
+        break;
+      case "link-back":
+        if (VALID_REQUIREMENT_LEVELS.has(value)) {
+          content.linkBack = value;
+        } else {
+          report(invalidValue(line, "Link-Back", "INVALID_REQUIREMENT_LEVEL", `Invalid requirement level: ${value}`));
         }
         break;
 
@@ -210,7 +513,7 @@ export function parse(input: string): ParseResult {
         if (VALID_REQUIREMENT_LEVELS.has(value)) {
           compliance.audit = value;
         } else {
-          warnings.push({ line: lineNum, field: "Audit", message: `Invalid requirement level: ${value}` });
+          report(invalidValue(line, "Audit", "INVALID_REQUIREMENT_LEVEL", `Invalid requirement level: ${value}`));
         }
         break;
       case "audit-format": compliance.auditFormat = value; break;
@@ -219,28 +522,95 @@ export function parse(input: string): ParseResult {
       case "ai-json": metadata["AI-JSON"] = value; break;
       case "agents-txt": metadata["Agents-TXT"] = value; break;
 
+      // Signature envelope - covers the document, is not part of it (see signature.ts)
+      case "signature": break;
+
       // Agent block
-      case "agent":
-        if (!value) {
-          warnings.push({ line: lineNum, field: "Agent", message: "Agent name must not be empty" });
+      case "agent": {
+        const written = splitAgentNames(value);
+        const names = written.map((name) => name.toLowerCase());
+        if (names.length === 0) {
+          report({
+            ...tokenLocation(line, line.key!),
+            field: "Agent",
+            code: "EMPTY_AGENT_NAME",
+            message: "Agent name must not be empty",
+          });
         } else {
-          currentAgentName = value.toLowerCase();
-          currentAgentPolicy = {};
-          state = "IN_AGENT";
+          if (state !== "IN_AGENT") {
+            currentAgentPolicy = {};
+            state = "IN_AGENT";
+            agentKeyLines.clear();
+            agentPathRuleLines.clear();
+          }
+          currentAgentNames.push(...names);
+          currentAgentGroupOpen = true;
+          if (strict) {
+            names.forEach((name, i) => {
+              const firstLine = agentLines.get(name);
+              if (firstLine !== undefined) {
+                report({
+                  ...tokenLocation(line, line.value!),
+                  field: "Agent",
+                  code: "DUPLICATE_AGENT",
+                  message: `Agent block for "${written[i]}" repeats the block on line ${firstLine}`,
+                });
+              } else {
+                agentLines.set(name, line.range.start.line);
+              }
+            });
+          }
+        }
+        break;
+      }
+
+      // Jurisdiction section
+      case "jurisdiction": {
+        const code = normalizeJurisdiction(value);
+        if (!code) {
+          report(invalidValue(line, "Jurisdiction", "INVALID_JURISDICTION", `Invalid jurisdiction: ${value} (expected a code such as EU, DE or US-CA)`));
+          break;
         }
+        currentAgentPolicy = {};
+        currentJurisdiction = code;
+        state = "IN_JURISDICTION";
+        agentKeyLines.clear();
+        agentPathRuleLines.clear();
         break;
+      }
 
-      default:
-        metadata[key] = value;
+      default: {
+        // Purposes (`Train-GenAI`, `AI-Input-Allow`) and AIPREF names of the fields (`Train-AI`)
+        if (target) {
+          setPurpose(line, target, {
+            policies,
+            paths: (purpose) => isPolicyField(purpose) ? pathRules[purpose] : (purposePaths[purpose] ??= { allow: [], deny: [] }),
+            purposes: () => purposes,
+          }, pathRuleLines);
+          break;
+        }
+        // Unrecognized keys are metadata, unless strict mode thinks they are a misspelling
+        const suggestion = strict ? suggestKey(key, [...TOP_LEVEL_KEYS, ...purposeKeys()]) : undefined;
+        if (suggestion) {
+          report({
+            ...tokenLocation(line, line.key!),
+            field: key,
+            code: "LIKELY_TYPO",
+            message: `Unknown field: ${key} (did you mean ${suggestion}?)`,
+          });
+        } else {
+          metadata[key] = value;
+        }
+      }
     }
   }
 
   // Flush any remaining open block
-  if (state === "IN_AGENT") flushAgent();
+  if (state !== "TOP_LEVEL") flushAgent();
 
   // Validate required fields
-  if (!site.name) errors.push({ field: "Site-Name", message: "Site-Name is required" });
-  if (!site.url) errors.push({ field: "Site-URL", message: "Site-URL is required" });
+  if (!site.name) errors.push({ field: "Site-Name", code: "MISSING_REQUIRED_FIELD", message: "Site-Name is required" });
+  if (!site.url) errors.push({ field: "Site-URL", code: "MISSING_REQUIRED_FIELD", message: "Site-URL is required" });
 
   if (errors.length > 0) {
     return { success: false, errors, warnings };
@@ -249,6 +619,7 @@ export function parse(input: string): ParseResult {
   const document: AiTxtDocument = {
     specVersion,
     generatedAt,
+    ...validity,
     site: {
       name: site.name!,
       url: site.url!,
@@ -257,22 +628,32 @@ export function parse(input: string): ParseResult {
       policyUrl: site.policyUrl,
     },
     policies: {
-      training: (policies.training as PolicyValue) ?? "deny",
-      scraping: (policies.scraping as PolicyValue) ?? "allow",
-      indexing: (policies.indexing as PolicyValue) ?? "allow",
-      caching: (policies.caching as PolicyValue) ?? "allow",
+      training: (policies.training as PolicyValue) ?? DEFAULT_POLICIES.training,
+      scraping: (policies.scraping as PolicyValue) ?? DEFAULT_POLICIES.scraping,
+      indexing: (policies.indexing as PolicyValue) ?? DEFAULT_POLICIES.indexing,
+      caching: (policies.caching as PolicyValue) ?? DEFAULT_POLICIES.caching,
     },
-    trainingPaths: (trainingAllowPaths.length > 0 || trainingDenyPaths.length > 0)
-      ? { allow: trainingAllowPaths, deny: trainingDenyPaths }
-      : undefined,
+    trainingPaths: nonEmptyRules(pathRules.training),
+    scrapingPaths: nonEmptyRules(pathRules.scraping),
+    indexingPaths: nonEmptyRules(pathRules.indexing),
+    cachingPaths: nonEmptyRules(pathRules.caching),
+    purposes: Object.keys(purposes).length > 0 ? purposes : undefined,
+    purposePaths: Object.keys(purposePaths).length > 0 ? purposePaths : undefined,
+    ...scopes,
     licensing: (licensing.license || licensing.feeUrl)
       ? { license: licensing.license, feeUrl: licensing.feeUrl }
       : undefined,
     agents: Object.keys(agents).length > 0 ? agents : { "*": {} },
-    content: (content.attribution || content.aiDisclosure)
+    tdmReservation,
+    jurisdictions: Object.keys(jurisdictions).length > 0 ? jurisdictions : undefined,
+    content: (Object.keys(content).length > 0 || maxExcerptWords !== undefined)
       ? {
           attribution: content.attribution as RequirementLevel | undefined,
+          attributionTemplate: content.attributionTemplate,
           aiDisclosure: content.aiDisclosure as RequirementLevel | undefined,
+          maxExcerptWords,
+          summarization: content.summarization as "allow" | "deny" | undefined,
+          linkBack: content.linkBack as RequirementLevel | undefined,
         }
       : undefined,
     compliance: (compliance.audit || compliance.auditFormat)
@@ -284,5 +665,42 @@ export function parse(input: string): ParseResult {
     metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
   };
 
+  const defaulted = (Object.keys(DEFAULT_POLICIES) as PolicyField[]).filter((field) => policies[field] === undefined);
+  if (defaulted.length > 0) return { success: true, document, errors, warnings, defaulted };
+
   return { success: true, document, errors, warnings };
 }
+
+/** Text keys of the registered purposes beyond the four fields, with their path rule keys. */
+function purposeKeys(): string[] {
+  return listPurposes()
+    .filter((p) => p.field !== p.name)
+    .flatMap((p) => [p.key, `${p.key}-Allow`, `${p.key}-Deny`, `${p.key}-Embargo`]);
+}
+
+/** Split a path rule key such as "scraping-deny" into its policy field and list. */
+function pathRuleTarget(keyLower: string): [PolicyField, "allow" | "deny"] {
+  return keyLower.split("-") as [PolicyField, "allow" | "deny"];
+}
+
+function nonEmptyRules(rules: PathRules): PathRules | undefined {
+  return rules.allow.length > 0 || rules.deny.length > 0 || rules.embargo ? rules : undefined;
+}
+
+// -- Diagnostic helpers --
+
+function tokenLocation(line: CstLine, token: CstToken): DiagnosticLocation {
+  return { line: line.range.start.line, column: token.range.start.column, endColumn: token.range.end.column };
+}
+
+/** Location of a line's text, excluding indentation and trailing whitespace. */
+function contentLocation(line: CstLine): DiagnosticLocation {
+  const start = line.raw.length - line.raw.trimStart().length;
+  return { line: line.range.start.line, column: start + 1, endColumn: line.raw.trimEnd().length + 1 };
+}
+
+/** Warning pointing at a field's value (or at its key, if the value is empty). */
+function invalidValue(line: CstLine, field: string, code: ParseDiagnosticCode, message: string): ParseWarning {
+  const token = line.value!.text ? line.value! : line.key!;
+  return { ...tokenLocation(line, token), field, code, message };
+}
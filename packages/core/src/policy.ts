@@ -0,0 +1,171 @@
+/**
+ * ai.txt - Compiled Policies
+ *
+ * `canAccess()` resolves the agent's policy and scans every path pattern on
+ * each call. A crawler checking millions of URLs against one document can
+ * compile it once instead: every agent's policy is merged up front and
+ * each field's path rules are indexed in a trie keyed by the patterns'
+ * literal leading segments, so a lookup only tests the patterns that can
+ * possibly match.
+ *
+ * Decisions are identical to `canAccess()` - both share `checkResolved()`
+ * and `pickRule()` from the resolver.
+ */
+
+import type { AiTxtDocument, PathRules, Purpose } from "./types.js";
+import type { AccessOptions, AccessResult, PathRuleMatch, ResolveOptions, ResolvedPolicy } from "./resolver.js";
+import { resolve, checkResolved, pickRule, POLICY_FIELDS } from "./resolver.js";
+import { compileGlob, normalizePath } from "./glob.js";
+import { matchAgent } from "./user-agent.js";
+import { matchJurisdiction } from "./jurisdiction.js";
+import { canonicalPurpose } from "./purposes.js";
+import type { CompiledGlob } from "./glob.js";
+
+// -- Types --
+
+/** An ai.txt document compiled for fast, repeated access checks. Immutable. */
+export interface CompiledPolicy {
+  /** Agent names with their own block (lowercase), excluding `*`. */
+  readonly agents: readonly string[];
+  /** The effective policy for an agent, as `resolve()` would return it. */
+  policyFor(agentName: string, options?: ResolveOptions): Readonly<ResolvedPolicy>;
+  /**
+   * Same answer as `canAccess(doc, agentName, field, url, options)`. Purposes
+   * registered after compiling are not known to the compiled policy.
+   */
+  decide(agentName: string, field: Purpose, url?: string, options?: AccessOptions): AccessResult;
+  /** Decide many URLs for one agent and field, in order. */
+  decideAll(agentName: string, field: Purpose, urls: readonly string[], options?: AccessOptions): AccessResult[];
+}
+
+interface IndexedRule {
+  type: "allow" | "deny";
+  pattern: string;
+  glob: CompiledGlob;
+  /** Position in the order `matchPath()` checks rules: deny first, then allow. */
+  order: number;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  rules: IndexedRule[];
+}
+
+interface CompiledAgent {
+  resolved: Readonly<ResolvedPolicy>;
+  /** Path trie per field or purpose (canonical name), for those that have path rules. */
+  tries: Map<string, TrieNode>;
+}
+
+// -- Compilation --
+
+/**
+ * Compile a document for repeated `decide()` calls. The document is copied,
+ * so later changes to it do not affect the compiled policy. Every agent is
+ * compiled once per jurisdiction section, and once without.
+ */
+export function compilePolicy(doc: AiTxtDocument): CompiledPolicy {
+  const snapshot = deepFreeze(structuredClone(doc));
+  // Agents that inherit the same rules share one trie
+  const tries = new Map<PathRules, TrieNode>();
+
+  const compileAgent = (name: string, jurisdiction?: string): CompiledAgent => {
+    const resolved = deepFreeze(resolve(snapshot, name, { jurisdiction }));
+    const agent: CompiledAgent = { resolved, tries: new Map() };
+    const fieldRules = POLICY_FIELDS.map((field) => [field, resolved[`${field}Paths`]] as const);
+    for (const [purpose, rules] of [...fieldRules, ...Object.entries(resolved.purposePaths ?? {})]) {
+      if (!rules) continue;
+      if (!tries.has(rules)) tries.set(rules, buildTrie(rules));
+      agent.tries.set(purpose, tries.get(rules)!);
+    }
+    return agent;
+  };
+
+  const names = Object.keys(snapshot.agents).filter((name) => name !== "*");
+  const sections = Object.keys(snapshot.jurisdictions ?? {});
+  const compileTable = (jurisdiction?: string) => ({
+    agents: new Map(names.map((name) => [name, compileAgent(name, jurisdiction)])),
+    // An agent without a block of its own resolves exactly like `*`
+    fallback: compileAgent("*", jurisdiction),
+  });
+  const tables = new Map(sections.map((code) => [code, compileTable(code)]));
+  const base = compileTable();
+
+  const lookup = (agentName: string, jurisdiction?: string) => {
+    const section = jurisdiction !== undefined ? matchJurisdiction(jurisdiction, sections) : undefined;
+    const { agents, fallback } = (section && tables.get(section)) || base;
+    const exact = agents.get(agentName.toLowerCase());
+    if (exact) return exact;
+    const key = matchAgent(agentName, names);
+    return (key && agents.get(key)) || fallback;
+  };
+
+  const decide = (agent: CompiledAgent, field: Purpose, url: string | undefined, options?: AccessOptions) =>
+    checkResolved(agent.resolved, field, url, (path) => matchTrie(agent.tries.get(canonicalPurpose(field))!, path, field), options);
+
+  return Object.freeze({
+    agents: Object.freeze(names),
+    policyFor: (agentName: string, options?: ResolveOptions) => lookup(agentName, options?.jurisdiction).resolved,
+    decide: (agentName: string, field: Purpose, url?: string, options?: AccessOptions) =>
+      decide(lookup(agentName, options?.jurisdiction), field, url, options),
+    decideAll: (agentName: string, field: Purpose, urls: readonly string[], options?: AccessOptions) => {
+      const agent = lookup(agentName, options?.jurisdiction);
+      return urls.map((url) => decide(agent, field, url, options));
+    },
+  });
+}
+
+// -- Path trie --
+
+/** Characters that make a pattern segment something other than a literal. */
+const SPECIAL = /[*?[\]{}\\$%]/;
+
+function buildTrie(rules: PathRules): TrieNode {
+  const root: TrieNode = { children: new Map(), rules: [] };
+  const ordered = [
+    ...rules.deny.map((pattern) => ["deny", pattern] as const),
+    ...rules.allow.map((pattern) => ["allow", pattern] as const),
+  ];
+
+  ordered.forEach(([type, pattern], order) => {
+    // Index under the literal segments a matching path must start with
+    let node = root;
+    const segments = pattern.startsWith("/") ? pattern.split("/").slice(1) : [];
+    for (const segment of segments) {
+      if (segment === "" || SPECIAL.test(segment)) break;
+      let child = node.children.get(segment);
+      if (!child) node.children.set(segment, (child = { children: new Map(), rules: [] }));
+      node = child;
+    }
+    node.rules.push({ type, pattern, glob: compileGlob(pattern), order });
+  });
+
+  return root;
+}
+
+function matchTrie(root: TrieNode, path: string, field: Purpose): AccessResult {
+  const normalized = normalizePath(path);
+  const candidates: IndexedRule[] = [...root.rules];
+
+  let node: TrieNode | undefined = root;
+  for (const segment of normalized.split("/").slice(1)) {
+    node = node.children.get(segment);
+    if (!node) break;
+    candidates.push(...node.rules);
+  }
+
+  const matches: PathRuleMatch[] = candidates
+    .filter((rule) => rule.glob.test(normalized))
+    .sort((a, b) => a.order - b.order)
+    .map(({ type, pattern, glob }) => ({ type, pattern, specificity: glob.specificity }));
+
+  return pickRule(path, matches, field);
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) deepFreeze(child);
+  }
+  return value;
+}
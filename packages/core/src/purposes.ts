@@ -0,0 +1,194 @@
+/**
+ * ai.txt - Purpose Vocabulary
+ *
+ * The four policy fields (training, scraping, indexing, caching) predate
+ * the IETF AIPREF vocabulary (draft-ietf-aipref-vocab), which names usage
+ * purposes such as `train-ai`, `train-genai`, `search` and `ai-input`.
+ * This module keeps a registry of purposes and maps between the two:
+ *
+ *   - A purpose with a `field` is another name for a legacy field:
+ *     `Train-AI: deny` and `Training: deny` set the same policy.
+ *   - A purpose with a `parent` is narrower than its parent: when a file
+ *     does not mention `Train-GenAI`, the `train-ai` (= training) policy
+ *     applies to it.
+ *
+ * Further purposes can be registered at runtime with `registerPurpose()`;
+ * the parsers, generators and resolver then accept them like built-ins.
+ */
+
+import type { PolicyField } from "./types.js";
+
+// -- Types --
+
+/** A usage purpose that policies can be declared and checked for. */
+export interface PurposeDefinition {
+  /** Lowercase name, e.g. "train-genai". */
+  readonly name: string;
+  /** Field name in ai.txt text, e.g. "Train-GenAI". Path rules use `<Key>-Allow`, `<Key>-Deny` and `<Key>-Embargo`. */
+  readonly key: string;
+  /** The legacy field this purpose is another name for ("train-ai" is "training"). */
+  readonly field?: PolicyField;
+  /** The broader purpose that applies when this one is not declared. */
+  readonly parent?: string;
+  /** What the purpose covers. */
+  readonly description: string;
+}
+
+export interface RegisterPurposeOptions {
+  /** Lowercase name: letters, digits and `-`, starting with a letter. */
+  name: string;
+  /** The broader purpose that applies when this one is not declared. Must be registered. */
+  parent: string;
+  /** Field name in ai.txt text. Default: the name with each word capitalized ("my-use" -> "My-Use"). */
+  key?: string;
+  description?: string;
+}
+
+/** A text-format key that refers to a purpose. */
+export interface PurposeKey {
+  /** The purpose the key sets - a legacy field for `Train-AI` or `Search`. */
+  purpose: string;
+  /** Set for `<Key>-Allow`, `<Key>-Deny` and `<Key>-Embargo` path rules. */
+  rule?: "allow" | "deny" | "embargo";
+}
+
+// -- Registry --
+
+const registry = new Map<string, PurposeDefinition>();
+
+function define(definition: PurposeDefinition): PurposeDefinition {
+  const frozen = Object.freeze({ ...definition });
+  registry.set(frozen.name, frozen);
+  return frozen;
+}
+
+define({ name: "training", key: "Training", field: "training", description: "Using content to train AI models." });
+define({ name: "scraping", key: "Scraping", field: "scraping", description: "Fetching and reading content." });
+define({ name: "indexing", key: "Indexing", field: "indexing", description: "Indexing content for retrieval." });
+define({ name: "caching", key: "Caching", field: "caching", description: "Storing copies of content." });
+
+/** The AIPREF vocabulary terms built into the registry. */
+export const AIPREF_PURPOSES = [
+  define({ name: "train-ai", key: "Train-AI", field: "training", description: "Training AI models (AIPREF train-ai)." }),
+  define({
+    name: "train-genai",
+    key: "Train-GenAI",
+    parent: "train-ai",
+    description: "Training generative AI models (AIPREF train-genai).",
+  }),
+  define({
+    name: "search",
+    key: "Search",
+    field: "indexing",
+    description: "Building a search index that links back to the content (AIPREF search).",
+  }),
+  define({
+    name: "ai-input",
+    key: "AI-Input",
+    parent: "scraping",
+    description: "Using content as input to a model at inference time, e.g. retrieval-augmented generation (AIPREF ai-input).",
+  }),
+] as const;
+
+const PURPOSE_NAME = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Register a purpose so documents can declare policies for it and
+ * `canAccess()` can check it. Throws a RangeError if the name or key is
+ * taken or malformed, or the parent is unknown.
+ *
+ * ```ts
+ * registerPurpose({ name: "train-code", parent: "train-genai", description: "Training code models" });
+ * // ai.txt: Train-Code: deny
+ * canAccess(doc, "GPTBot", "train-code");
+ * ```
+ */
+export function registerPurpose(options: RegisterPurposeOptions): PurposeDefinition {
+  const name = options.name;
+  if (!PURPOSE_NAME.test(name)) {
+    throw new RangeError(`Invalid purpose name: "${name}" (use lowercase letters, digits and "-")`);
+  }
+  if (registry.has(name)) {
+    throw new RangeError(`Purpose "${name}" is already registered`);
+  }
+  if (!registry.has(options.parent)) {
+    throw new RangeError(`Unknown parent purpose: "${options.parent}"`);
+  }
+
+  const key = options.key ?? purposeKey(name);
+  const taken = lookupPurposeKey(key.toLowerCase()) ?? lookupPurposeKey(`${key}-allow`.toLowerCase());
+  if (!/^[A-Za-z][A-Za-z0-9-]*$/.test(key) || taken) {
+    throw new RangeError(`Invalid or conflicting purpose key: "${key}"`);
+  }
+
+  return define({ name, key, parent: options.parent, description: options.description ?? "" });
+}
+
+/** The definition of a registered purpose (case-insensitive), or undefined. */
+export function getPurpose(name: string): PurposeDefinition | undefined {
+  return registry.get(name.toLowerCase());
+}
+
+/** Every registered purpose, legacy fields first, in registration order. */
+export function listPurposes(): PurposeDefinition[] {
+  return [...registry.values()];
+}
+
+// -- Mapping --
+
+/**
+ * The name a purpose's policy is stored under: the legacy field for
+ * `train-ai` and `search`, the lowercase name otherwise. Throws a
+ * RangeError for unregistered purposes.
+ */
+export function canonicalPurpose(name: string): string {
+  const definition = getPurpose(name);
+  if (!definition) throw new RangeError(`Unknown purpose: "${name}"`);
+  return definition.field ?? definition.name;
+}
+
+/**
+ * The purposes whose policy applies to `name`, most specific first, ending
+ * with a legacy field: `purposeChain("train-genai")` is
+ * `["train-genai", "training"]`. Names are canonical (see `canonicalPurpose()`).
+ */
+export function purposeChain(name: string): string[] {
+  const chain: string[] = [];
+  let definition = getPurpose(name);
+  if (!definition) throw new RangeError(`Unknown purpose: "${name}"`);
+  while (definition) {
+    chain.push(definition.field ?? definition.name);
+    if (definition.field) break;
+    definition = registry.get(definition.parent!);
+  }
+  return chain;
+}
+
+/** Whether a canonical purpose name is one of the four legacy fields. */
+export function isPolicyField(name: string): name is PolicyField {
+  return registry.get(name)?.field === name;
+}
+
+/**
+ * Find the purpose a text-format key refers to: `Train-GenAI`,
+ * `Train-GenAI-Allow`, `AI-Input-Deny`, `Training-Embargo`, or an AIPREF
+ * alias such as `Search`.
+ *
+ * @param keyLower - The key, lowercased.
+ */
+export function lookupPurposeKey(keyLower: string): PurposeKey | undefined {
+  for (const definition of registry.values()) {
+    const key = definition.key.toLowerCase();
+    const purpose = definition.field ?? definition.name;
+    if (keyLower === key) return { purpose };
+    if (keyLower === `${key}-allow`) return { purpose, rule: "allow" };
+    if (keyLower === `${key}-deny`) return { purpose, rule: "deny" };
+    if (keyLower === `${key}-embargo`) return { purpose, rule: "embargo" };
+  }
+  return undefined;
+}
+
+/** The text-format key for a canonical purpose; unregistered names are capitalized word by word. */
+export function purposeKey(name: string): string {
+  return getPurpose(name)?.key ?? name.split("-").map((word) => word && word[0].toUpperCase() + word.slice(1)).join("-");
+}
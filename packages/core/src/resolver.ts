@@ -2,7 +2,8 @@
  * ai.txt - Policy Resolver
  *
  * Resolves the effective policy for a specific AI agent by merging
- * agent-specific overrides -> wildcard defaults -> site-wide policies.
+ * agent-specific overrides -> the caller's jurisdiction section ->
+ * wildcard defaults -> site-wide policies.
  *
  * This is the module agents actually use to answer:
  * "Am I allowed to do this?"
@@ -14,7 +15,22 @@ import type {
   PolicyValue,
   RateLimit,
   ContentRequirements,
+  PathRules,
+  EmbargoRule,
+  PolicyField,
+  Purpose,
+  TrainingPaths,
+  UsageProfile,
+  UsageScopeKey,
+  UsageScope,
 } from "./types.js";
+import { compileGlob, normalizePath } from "./glob.js";
+import { matchAgent } from "./user-agent.js";
+import { canonicalPurpose, isPolicyField, listPurposes, purposeChain } from "./purposes.js";
+import { documentValidity, findEmbargo, parseDuration, toTime } from "./time.js";
+import type { DocumentValidity, EmbargoMatch } from "./time.js";
+import { SCOPED_FIELDS, scopeViolation } from "./usage.js";
+import { matchJurisdiction } from "./jurisdiction.js";
 
 // -- Types --
 
@@ -28,10 +44,44 @@ export interface ResolvedPolicy {
   indexing: PolicyValue;
   /** Effective caching policy. */
   caching: PolicyValue;
+  /** Effective training path rules (from agent block, wildcard, or site-wide). */
+  trainingPaths?: TrainingPaths;
+  /** Effective scraping path rules. */
+  scrapingPaths?: PathRules;
+  /** Effective indexing path rules. */
+  indexingPaths?: PathRules;
+  /** Effective caching path rules. */
+  cachingPaths?: PathRules;
+  /**
+   * Effective policy for every registered purpose beyond the four fields
+   * (e.g. "train-genai", "ai-input"), inherited from the broader purpose
+   * when the document does not declare it.
+   */
+  purposes: Record<string, PolicyValue>;
+  /** Effective path rules for purposes that have any. */
+  purposePaths?: Record<string, PathRules>;
+  /** Effective training usage scope (from agent block, wildcard, or site-wide). */
+  trainingScope?: UsageScope;
+  /** Effective indexing usage scope. */
+  indexingScope?: UsageScope;
   /** Effective rate limit (from agent block or wildcard). */
   rateLimit?: RateLimit;
-  /** Content requirements (site-wide, not per-agent). */
+  /** Content requirements and output constraints (site-wide, not per-agent). See `checkOutput()`. */
   content?: ContentRequirements;
+  /** The jurisdiction section that applied (e.g. "EU"), if any. */
+  jurisdiction?: string;
+  /** Effective TDM rights reservation (from the jurisdiction section or site-wide). */
+  tdmReservation?: boolean;
+  /** The document's `Valid-From` date, outside whose window every check is denied. */
+  validFrom?: string;
+  /** The document's `Expires` date. */
+  expires?: string;
+}
+
+/** Where the caller is, for jurisdiction sections. */
+export interface ResolveOptions {
+  /** The caller's jurisdiction: a country code ("DE"), subdivision code ("US-CA") or "EU". */
+  jurisdiction?: string;
 }
 
 /** Result of a canAccess check. */
@@ -40,59 +90,218 @@ export interface AccessResult {
   allowed: boolean;
   /** Why - useful for logging/debugging. */
   reason: string;
+  /** The path rule that decided the result, when one matched. */
+  rule?: PathRuleMatch;
+  /** Other matching rules that lost to `rule`, most specific first. */
+  overridden?: PathRuleMatch[];
+  /** The embargo that denied an otherwise allowed path. */
+  embargo?: EmbargoMatch;
+  /** The usage scope that denied an otherwise allowed action. */
+  scope?: UsageScope;
+  /** Set when the check fell outside the document's `Valid-From` / `Expires` window. */
+  validity?: Exclude<DocumentValidity, "valid">;
+}
+
+/** Who is asking, when, and about which content - for the checks beyond allow/deny. */
+export interface AccessOptions extends ResolveOptions {
+  /**
+   * The caller's usage and model distribution, for usage scopes. Without
+   * it, a field limited by a scope is denied.
+   */
+  profile?: UsageProfile;
+  /** Time of the check. Default: the current time. */
+  now?: Date;
+  /**
+   * Publication date of the content at `path`, for embargo rules. Without
+   * it, a path under an embargo is denied.
+   */
+  publishedAt?: Date | string;
 }
 
+/** A path pattern that matched, with its specificity. */
+export interface PathRuleMatch {
+  type: "allow" | "deny";
+  pattern: string;
+  /** Number of literal (non-wildcard) characters in the pattern. */
+  specificity: number;
+}
+
+export const POLICY_FIELDS: readonly PolicyField[] = ["training", "scraping", "indexing", "caching"];
+
 // -- Resolver --
 
 /**
- * Resolve the effective policy for a named agent.
+ * Resolve the effective policy for a named agent. `agentName` may be a bare
+ * name ("ClaudeBot") or a raw User-Agent header - see `matchAgent()`.
  *
  * Resolution order (first defined wins):
  *   1. Agent-specific override (`agents["ClaudeBot"]`)
- *   2. Wildcard override (`agents["*"]`)
- *   3. Site-wide policy (`policies`)
+ *   2. The section for `options.jurisdiction` (`jurisdictions["EU"]`), see `matchJurisdiction()`
+ *   3. Wildcard override (`agents["*"]`)
+ *   4. Site-wide policy (`policies`)
  */
-export function resolve(doc: AiTxtDocument, agentName: string): ResolvedPolicy {
-  const agentBlock: AgentPolicy = doc.agents[agentName.toLowerCase()] ?? {};
+export function resolve(doc: AiTxtDocument, agentName: string, options: ResolveOptions = {}): ResolvedPolicy {
+  const agentKey = matchAgent(agentName, Object.keys(doc.agents));
+  const agentBlock: AgentPolicy = (agentKey && doc.agents[agentKey]) || {};
   const wildcardBlock: AgentPolicy = doc.agents["*"] ?? {};
+  const jurisdiction = options.jurisdiction !== undefined
+    ? matchJurisdiction(options.jurisdiction, Object.keys(doc.jurisdictions ?? {}))
+    : undefined;
+  const section = jurisdiction ? doc.jurisdictions![jurisdiction] : {};
+
+  const site: AgentPolicy = { ...doc.policies, purposes: doc.purposes, purposePaths: doc.purposePaths };
+  for (const field of POLICY_FIELDS) site[`${field}Paths`] = doc[`${field}Paths`];
+  for (const field of SCOPED_FIELDS) site[`${field}Scope`] = doc[`${field}Scope`];
+  const layers: AgentPolicy[] = [agentBlock, section, wildcardBlock, site];
+  const pick = <K extends keyof AgentPolicy>(key: K): AgentPolicy[K] => layers.find((layer) => layer[key] !== undefined)?.[key];
 
   const resolved: ResolvedPolicy = {
-    training: agentBlock.training ?? wildcardBlock.training ?? doc.policies.training,
-    scraping: agentBlock.scraping ?? wildcardBlock.scraping ?? doc.policies.scraping,
-    indexing: agentBlock.indexing ?? wildcardBlock.indexing ?? doc.policies.indexing,
-    caching: agentBlock.caching ?? wildcardBlock.caching ?? doc.policies.caching,
+    training: pick("training")!,
+    scraping: pick("scraping")!,
+    indexing: pick("indexing")!,
+    caching: pick("caching")!,
+    purposes: {},
   };
 
-  // Rate limit: agent-specific > wildcard (no site-wide rate limit exists)
-  const rateLimit = agentBlock.rateLimit ?? wildcardBlock.rateLimit;
+  // Path rules: the same layers. A block's path lists replace the lists
+  // below it rather than merging with them.
+  for (const field of POLICY_FIELDS) {
+    const rules = pick(`${field}Paths`);
+    if (rules) resolved[`${field}Paths`] = rules;
+  }
+
+  // Usage scopes: the same layers, replacing rather than merging
+  for (const field of SCOPED_FIELDS) {
+    const scope = pick(`${field}Scope`);
+    if (scope) resolved[`${field}Scope`] = scope;
+  }
+
+  // Purposes: the same layers, and within each layer the most specific
+  // purpose declared - so an agent block's `Training: allow` outranks a
+  // site-wide `Train-GenAI: deny` for that agent.
+  for (const { name, field } of listPurposes()) {
+    if (field) continue;
+    const chain = purposeChain(name);
+    resolved.purposes[name] = firstDeclared(layers, chain, (layer, p) => isPolicyField(p) ? layer[p] : layer.purposes?.[p])!;
+    const rules = firstDeclared(layers, chain, (layer, p) => isPolicyField(p) ? layer[`${p}Paths`] : layer.purposePaths?.[p]);
+    if (rules) (resolved.purposePaths ??= {})[name] = rules;
+  }
+
+  // Rate limit: agent-specific > wildcard (no site-wide or jurisdiction rate limit exists)
+  const rateLimit = pick("rateLimit");
   if (rateLimit) resolved.rateLimit = rateLimit;
 
   // Content requirements are site-wide, pass through
   if (doc.content) resolved.content = doc.content;
 
+  // TDM reservation: jurisdiction section > site-wide (not per agent)
+  if (jurisdiction) resolved.jurisdiction = jurisdiction;
+  const tdmReservation = section.tdmReservation ?? doc.tdmReservation;
+  if (tdmReservation !== undefined) resolved.tdmReservation = tdmReservation;
+
+  // Validity window: document-wide
+  if (doc.validFrom !== undefined) resolved.validFrom = doc.validFrom;
+  if (doc.expires !== undefined) resolved.expires = doc.expires;
+
   return resolved;
 }
 
+function firstDeclared<T>(
+  layers: AgentPolicy[],
+  chain: string[],
+  get: (layer: AgentPolicy, purpose: string) => T | undefined,
+): T | undefined {
+  for (const layer of layers) {
+    for (const purpose of chain) {
+      const value = get(layer, purpose);
+      if (value !== undefined) return value;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Check whether a specific action is allowed for an agent.
  *
- * For "conditional" training policies, pass a `path` to match against
- * the document's trainingPaths globs.
+ * For "conditional" policies, pass a `path` to match against the field's
+ * effective path rules (e.g. `scrapingPaths` for scraping) - the agent's own
+ * block if it declares any, otherwise the wildcard block's, otherwise the
+ * site-wide ones.
+ *
+ * Outside the document's `Valid-From` / `Expires` window (checked at
+ * `options.now`) everything is denied - the file is not authoritative then.
+ * An allowed result can still be denied by the field's usage scope (pass
+ * `options.profile`) or by an embargo on the path (pass `options.publishedAt`).
  *
  * @param doc       - The parsed ai.txt document.
- * @param agentName - The agent's User-Agent name (e.g., "ClaudeBot").
- * @param field     - Which policy to check: "training", "scraping", "indexing", or "caching".
- * @param path      - Optional URL path for conditional training path matching.
+ * @param agentName - The agent's name ("ClaudeBot") or full User-Agent header.
+ * @param field     - Which policy to check: "training", "scraping", "indexing", "caching",
+ *                    or any registered purpose ("train-genai", "ai-input", ...).
+ *                    Throws a RangeError for an unregistered purpose.
+ * @param path      - Optional URL path for conditional path matching and embargoes.
+ * @param options   - The caller's jurisdiction and usage profile, the evaluation time
+ *                    and the content's publication date.
  */
 export function canAccess(
   doc: AiTxtDocument,
   agentName: string,
-  field: "training" | "scraping" | "indexing" | "caching",
+  field: Purpose,
   path?: string,
+  options: AccessOptions = {},
+): AccessResult {
+  return checkResolved(
+    resolve(doc, agentName, options),
+    field,
+    path,
+    (p, rules) => matchPath(p, rules.allow, rules.deny, field),
+    options,
+  );
+}
+
+/**
+ * The decision behind `canAccess()`, given an already resolved policy and
+ * a path matcher. Shared with `compilePolicy()` so both always agree.
+ */
+export function checkResolved(
+  resolved: ResolvedPolicy,
+  field: Purpose,
+  path: string | undefined,
+  match: (path: string, rules: PathRules) => AccessResult,
+  options: AccessOptions = {},
 ): AccessResult {
-  const resolved = resolve(doc, agentName);
-  const value = resolved[field];
+  const purpose = canonicalPurpose(field);
+  const value = isPolicyField(purpose) ? resolved[purpose] : resolved.purposes[purpose];
+
+  // SPEC: agents should not act on a file outside its validity window
+  const validity = documentValidity(resolved, options.now);
+  if (validity === "expired") {
+    return { allowed: false, reason: `the policy expired at ${resolved.expires}`, validity };
+  }
+  if (validity === "not-yet-valid") {
+    return { allowed: false, reason: `the policy is not valid until ${resolved.validFrom}`, validity };
+  }
 
+  const rules = isPolicyField(purpose) ? resolved[`${purpose}Paths`] : resolved.purposePaths?.[purpose];
+
+  const result = decideValue(value, field, path, rules, match);
+  if (!result.allowed) return result;
+
+  // Usage scopes belong to the field a purpose narrows (train-genai -> training);
+  // fields without scopes (scraping, caching) read as undefined
+  const scope = resolved[`${purposeChain(purpose).at(-1)}Scope` as UsageScopeKey];
+  const violation = scope && scopeViolation(scope, options.profile);
+  if (violation) return { allowed: false, reason: `${field} is ${violation}`, scope };
+
+  return path && rules?.embargo ? applyEmbargo(result, field, path, rules.embargo, options) : result;
+}
+
+function decideValue(
+  value: PolicyValue,
+  field: Purpose,
+  path: string | undefined,
+  rules: PathRules | undefined,
+  match: (path: string, rules: PathRules) => AccessResult,
+): AccessResult {
   if (value === "allow") {
     return { allowed: true, reason: `${field} is allowed` };
   }
@@ -101,22 +310,17 @@ export function canAccess(
     return { allowed: false, reason: `${field} is denied` };
   }
 
-  // "conditional" - only training supports path-based resolution
+  // "conditional" - resolved against the field's path rules
   if (value === "conditional") {
-    if (field !== "training") {
-      // Conditional on non-training fields has no path mechanism - treat as deny
-      return { allowed: false, reason: `${field} is conditional but path-based rules only apply to training` };
-    }
-
     if (!path) {
-      return { allowed: false, reason: "training is conditional but no path provided to check" };
+      return { allowed: false, reason: `${field} is conditional but no path provided to check` };
     }
 
-    if (!doc.trainingPaths) {
-      return { allowed: false, reason: "training is conditional but no trainingPaths defined" };
+    if (!rules) {
+      return { allowed: false, reason: `${field} is conditional but no ${field}Paths defined` };
     }
 
-    return matchPath(path, doc.trainingPaths.allow, doc.trainingPaths.deny);
+    return match(path, rules);
   }
 
   // Shouldn't happen with valid documents, but be safe
@@ -124,58 +328,90 @@ export function canAccess(
 }
 
 /**
- * Match a URL path against allow/deny glob patterns.
+ * Deny an allowed path that is still under embargo: the content's
+ * publication date plus the most specific matching rule's duration has
+ * not passed yet, or the publication date is unknown.
+ */
+function applyEmbargo(
+  result: AccessResult,
+  field: Purpose,
+  path: string,
+  rules: EmbargoRule[],
+  options: AccessOptions,
+): AccessResult {
+  const rule = findEmbargo(rules, normalizePath(path));
+  if (!rule) return result;
+
+  const published = options.publishedAt !== undefined ? toTime(options.publishedAt) : null;
+  if (published === null) {
+    return {
+      allowed: false,
+      reason: `path "${path}" is under a ${rule.duration} ${field} embargo ("${rule.pattern}") and its publication date is unknown`,
+      embargo: { ...rule },
+    };
+  }
+
+  const until = published + parseDuration(rule.duration)!;
+  const now = (options.now ?? new Date()).getTime();
+  if (now >= until) return result;
+  const embargo = { ...rule, until: new Date(until).toISOString() };
+  return {
+    allowed: false,
+    reason: `path "${path}" is under a ${rule.duration} ${field} embargo ("${rule.pattern}") until ${embargo.until}`,
+    embargo,
+  };
+}
+
+/**
+ * Match a URL path against allow/deny glob patterns. The path is
+ * normalized first (see `normalizePath()`), so a full URL works too.
  *
- * Rules:
- *   - Explicit deny takes precedence over allow.
- *   - If a path matches an allow pattern and no deny pattern, it's allowed.
+ * Rules (robots.txt-style longest match):
+ *   - Of all matching patterns, the most specific one wins. Specificity is
+ *     the number of literal characters in the pattern; wildcards count zero.
+ *   - On a tie, deny wins over allow. Between equal rules of the same type,
+ *     the first one listed wins.
  *   - If a path matches neither, it's denied (default-deny for conditional).
+ *
+ * So `Training-Deny: /blog/**` with `Training-Allow: /blog/open/*` allows
+ * `/blog/open/post` and denies every other path under `/blog/`.
  */
 export function matchPath(
   path: string,
   allowPatterns: string[],
   denyPatterns: string[],
+  field: Purpose = "training",
 ): AccessResult {
-  // Check deny first - deny takes precedence
-  for (const pattern of denyPatterns) {
-    if (globMatch(path, pattern)) {
-      return { allowed: false, reason: `path "${path}" matches deny pattern "${pattern}"` };
-    }
-  }
-
-  // Check allow
-  for (const pattern of allowPatterns) {
-    if (globMatch(path, pattern)) {
-      return { allowed: true, reason: `path "${path}" matches allow pattern "${pattern}"` };
+  const normalized = normalizePath(path);
+  const matches: PathRuleMatch[] = [];
+  for (const [type, patterns] of [["deny", denyPatterns], ["allow", allowPatterns]] as const) {
+    for (const pattern of patterns) {
+      const glob = compileGlob(pattern);
+      if (glob.test(normalized)) matches.push({ type, pattern, specificity: glob.specificity });
     }
   }
 
-  // No match - default deny for conditional
-  return { allowed: false, reason: `path "${path}" does not match any training path pattern` };
+  return pickRule(path, matches, field);
 }
 
 /**
- * Simple glob matcher for URL paths.
- *
- * Supports:
- *   - `*`  - matches any characters within a single path segment (no `/`)
- *   - `**` - matches any characters including `/` (recursive)
- *   - Literal path segments
- *
- * Examples:
- *   - `/blog/*`       matches `/blog/post-1` but not `/blog/2024/post-1`
- *   - `/blog/**`      matches `/blog/post-1` and `/blog/2024/post-1`
- *   - `/public/*.html` matches `/public/index.html`
+ * Pick the deciding rule among the rules that matched `path`. `matches`
+ * must list deny rules before allow rules, each in declaration order.
  */
-export function globMatch(path: string, pattern: string): boolean {
-  const regexStr = pattern
-    .replace(/([.+?^${}()|[\]\\])/g, "\\$1")  // escape regex chars (not *)
-    .replace(/\/\*\*\//g, "\u0001")             // /**/ -> placeholder (zero or more segments)
-    .replace(/\*\*/g, "\u0002")                 // ** -> placeholder (anything including /)
-    .replace(/\*/g, "[^/]*")                    // * = anything except /
-    .replace(/\u0001/g, "(?:/.+)?/")            // restore /**/ as optional segments
-    .replace(/\u0002/g, ".*");                  // restore ** as any chars
-
-  const regex = new RegExp(`^${regexStr}$`);
-  return regex.test(path);
+export function pickRule(path: string, matches: PathRuleMatch[], field: Purpose): AccessResult {
+  if (matches.length === 0) {
+    // No match - default deny for conditional
+    return { allowed: false, reason: `path "${path}" does not match any ${field} path pattern` };
+  }
+
+  // Stable sort: deny entries precede allow entries, so ties go to deny
+  matches.sort((a, b) => b.specificity - a.specificity);
+  const [rule, ...overridden] = matches;
+
+  let reason = `path "${path}" matches ${rule.type} pattern "${rule.pattern}"`;
+  if (overridden.length > 0) {
+    reason += ` (overrides ${overridden.map((m) => `${m.type} "${m.pattern}"`).join(", ")})`;
+  }
+
+  return { allowed: rule.type === "allow", reason, rule, overridden };
 }
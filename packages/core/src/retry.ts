@@ -0,0 +1,122 @@
+/**
+ * ai.txt - Retries and Circuit Breaking
+ *
+ * `AiTxtClient` retries failed fetches (timeouts, connection errors, 5xx,
+ * 429) with jittered exponential backoff, waiting as long as a 429 or 503
+ * asks in `Retry-After`. A per-host circuit breaker stops it from hammering
+ * a site that keeps failing: after `threshold` failed fetches in a row the
+ * host is skipped for `cooldown` ms, then one trial request decides whether
+ * it recovered.
+ */
+
+// -- Types --
+
+export interface RetryOptions {
+  /** Retries after the first attempt. Default: 2. Set to 0 to disable. */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each further one. Default: 500. */
+  baseDelay?: number;
+  /**
+   * Longest wait before a retry in ms. A `Retry-After` asking for longer
+   * ends retrying. Default: 10000.
+   */
+  maxDelay?: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Failed fetches in a row that open the circuit for a host. Default: 5. */
+  threshold?: number;
+  /** How long an open circuit refuses requests, in ms. Default: 30000. */
+  cooldown?: number;
+}
+
+// -- Backoff --
+
+/**
+ * Delay before retry number `attempt` (0 for the first retry):
+ * `baseDelay * 2^attempt`, capped at `maxDelay`, with jitter so that
+ * many clients do not retry in step - a random value from half the delay
+ * to the full delay.
+ */
+export function backoffDelay(attempt: number, options: Required<RetryOptions>, random: () => number = Math.random): number {
+  const delay = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
+
+/**
+ * Read a `Retry-After` header - delay-seconds or an HTTP date - as ms
+ * from `now`. Undefined if absent or malformed.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// -- Circuit breaker --
+
+interface HostState {
+  failures: number;
+  openUntil: number;
+  /** A trial request is in flight after the cooldown (half-open). */
+  probing: boolean;
+}
+
+/** Tracks consecutive failures per host and refuses requests to failing ones. */
+export class CircuitBreaker {
+  private hosts = new Map<string, HostState>();
+  private threshold: number;
+  private cooldown: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.threshold = options.threshold ?? 5;
+    this.cooldown = options.cooldown ?? 30_000;
+    if (!Number.isInteger(this.threshold) || this.threshold < 1) {
+      throw new RangeError(`threshold must be a positive integer: ${options.threshold}`);
+    }
+    if (!(this.cooldown >= 0)) {
+      throw new RangeError(`cooldown must not be negative: ${options.cooldown}`);
+    }
+  }
+
+  /**
+   * Whether a request to `host` may go ahead. Once the cooldown has passed
+   * one request is let through to probe the host; the others are refused
+   * until it succeeds or fails.
+   */
+  allow(host: string, now = Date.now()): boolean {
+    const state = this.hosts.get(host);
+    if (!state || state.failures < this.threshold) return true;
+    if (now < state.openUntil || state.probing) return false;
+    state.probing = true;
+    return true;
+  }
+
+  /**
+   * Epoch ms until which requests to `host` are refused, or undefined if its
+   * circuit is closed. Past once the cooldown ends - see `probing()`.
+   */
+  openUntil(host: string): number | undefined {
+    const state = this.hosts.get(host);
+    return state && state.failures >= this.threshold ? state.openUntil : undefined;
+  }
+
+  /** Whether the trial request after the cooldown is in flight, refusing all others to `host`. */
+  probing(host: string): boolean {
+    return this.hosts.get(host)?.probing ?? false;
+  }
+
+  success(host: string): void {
+    this.hosts.delete(host);
+  }
+
+  failure(host: string, now = Date.now()): void {
+    const state = this.hosts.get(host) ?? { failures: 0, openUntil: 0, probing: false };
+    state.failures++;
+    state.probing = false;
+    if (state.failures >= this.threshold) state.openUntil = now + this.cooldown;
+    this.hosts.set(host, state);
+  }
+}
@@ -26,9 +26,29 @@ export const ContentPoliciesSchema = z.object({
   caching: PolicyValueSchema,
 });
 
-export const TrainingPathsSchema = z.object({
+/** `Valid-From` / `Expires`: an ISO 8601 date, or a date-time with a UTC offset. */
+const DateOrDateTimeSchema = z.union([z.string().date(), z.string().datetime({ offset: true })]);
+
+export const EmbargoRuleSchema = z.object({
+  pattern: z.string().min(1),
+  duration: z.string().regex(/^[1-9]\d*[mhdw]$/, "Must be <N><unit> with unit m, h, d or w"),
+});
+
+export const PathRulesSchema = z.object({
   allow: z.array(z.string()),
   deny: z.array(z.string()),
+  embargo: z.array(EmbargoRuleSchema).optional(),
+});
+
+export const TrainingPathsSchema = PathRulesSchema;
+
+export const UsageTypeSchema = z.enum(["commercial", "non-commercial", "research"]);
+
+export const ModelDistributionSchema = z.enum(["open-weights", "proprietary"]);
+
+export const UsageScopeSchema = z.object({
+  usage: z.array(UsageTypeSchema).min(1).optional(),
+  distribution: z.array(ModelDistributionSchema).min(1).optional(),
 });
 
 export const LicensingInfoSchema = z.object({
@@ -36,17 +56,37 @@ export const LicensingInfoSchema = z.object({
   feeUrl: z.string().url().optional(),
 });
 
+export const PurposePoliciesSchema = z.record(z.string().min(1), PolicyValueSchema);
+
+export const PurposePathsSchema = z.record(z.string().min(1), PathRulesSchema);
+
 export const AgentPolicySchema = z.object({
   training: PolicyValueSchema.optional(),
   scraping: PolicyValueSchema.optional(),
   indexing: PolicyValueSchema.optional(),
   caching: PolicyValueSchema.optional(),
+  trainingPaths: TrainingPathsSchema.optional(),
+  scrapingPaths: PathRulesSchema.optional(),
+  indexingPaths: PathRulesSchema.optional(),
+  cachingPaths: PathRulesSchema.optional(),
+  purposes: PurposePoliciesSchema.optional(),
+  purposePaths: PurposePathsSchema.optional(),
+  trainingScope: UsageScopeSchema.optional(),
+  indexingScope: UsageScopeSchema.optional(),
   rateLimit: RateLimitSchema.optional(),
 });
 
+export const JurisdictionPolicySchema = AgentPolicySchema.omit({ rateLimit: true }).extend({
+  tdmReservation: z.boolean().optional(),
+});
+
 export const ContentRequirementsSchema = z.object({
   attribution: RequirementLevelSchema.optional(),
+  attributionTemplate: z.string().max(500).optional(),
   aiDisclosure: RequirementLevelSchema.optional(),
+  maxExcerptWords: z.number().int().nonnegative().optional(),
+  summarization: z.enum(["allow", "deny"]).optional(),
+  linkBack: RequirementLevelSchema.optional(),
 });
 
 export const ComplianceConfigSchema = z.object({
@@ -57,11 +97,25 @@ export const ComplianceConfigSchema = z.object({
 export const AiTxtDocumentSchema = z.object({
   specVersion: z.string().regex(/^\d+\.\d+$/, "Must be major.minor format"),
   generatedAt: z.string().datetime().optional(),
+  validFrom: DateOrDateTimeSchema.optional(),
+  expires: DateOrDateTimeSchema.optional(),
   site: SiteInfoSchema,
   policies: ContentPoliciesSchema,
   trainingPaths: TrainingPathsSchema.optional(),
+  scrapingPaths: PathRulesSchema.optional(),
+  indexingPaths: PathRulesSchema.optional(),
+  cachingPaths: PathRulesSchema.optional(),
+  purposes: PurposePoliciesSchema.optional(),
+  purposePaths: PurposePathsSchema.optional(),
+  trainingScope: UsageScopeSchema.optional(),
+  indexingScope: UsageScopeSchema.optional(),
   licensing: LicensingInfoSchema.optional(),
   agents: z.record(z.string().min(1), AgentPolicySchema),
+  tdmReservation: z.boolean().optional(),
+  jurisdictions: z.record(
+    z.string().regex(/^[A-Za-z]{2}(?:-[A-Za-z0-9]{1,3})?$/, "Must be a country, subdivision or EU code"),
+    JurisdictionPolicySchema,
+  ).optional(),
   content: ContentRequirementsSchema.optional(),
   compliance: ComplianceConfigSchema.optional(),
   metadata: z.record(z.string(), z.string()).optional(),
@@ -0,0 +1,212 @@
+/**
+ * ai.txt - Signed Documents
+ *
+ * HTTPS protects a policy file in transit from the server that sent it -
+ * which may be a CDN, or whoever controls DNS. A signature lets agents
+ * check the file against keys the site publishes:
+ *
+ *   - ai.json is signed with a detached JWS (RFC 7515, Appendix F) over its
+ *     canonical JSON (keys sorted at every level), served at
+ *     `/.well-known/ai.json.sig`.
+ *   - ai.txt carries the same kind of JWS inline, on a `Signature:` line,
+ *     over the file with its `Signature:` lines removed.
+ *
+ * Public keys are published as a JWK Set at `/.well-known/ai-txt-jwks.json`.
+ * Supported algorithms: ES256, EdDSA (Ed25519) and RS256. Signing and
+ * verification use the Web Crypto API and are asynchronous.
+ */
+
+import type { AiTxtDocument } from "./types.js";
+import { base64url, canonicalJSON, fromBase64url } from "./encoding.js";
+
+// -- Types --
+
+export type SignatureAlgorithm = "ES256" | "EdDSA" | "RS256";
+
+/** A JWK Set (RFC 7517, section 5). */
+export interface JsonWebKeySet {
+  keys: JsonWebKey[];
+}
+
+/** Result of a verify call. */
+export interface SignatureVerification {
+  /** True if the signature is valid for the content under one of the keys. */
+  valid: boolean;
+  /** Why the signature was rejected. */
+  reason?: string;
+  /** The `kid` of the key that verified the signature, if it has one. */
+  kid?: string;
+  alg?: SignatureAlgorithm;
+}
+
+/** The content a signature covers: an ai.json document (or its parsed JSON), or ai.txt text. */
+export type SignedContent = AiTxtDocument | Record<string, unknown> | string;
+
+/** Where agents find a site's public keys. */
+export const JWKS_PATH = "/.well-known/ai-txt-jwks.json";
+
+/** Where a site serves the detached signature of its ai.json. */
+export const JSON_SIGNATURE_PATH = "/.well-known/ai.json.sig";
+
+// -- Algorithms --
+
+type AlgorithmParams = {
+  import: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  sign: EcdsaParams | Algorithm;
+};
+
+const ALGORITHMS: Record<SignatureAlgorithm, AlgorithmParams> = {
+  ES256: { import: { name: "ECDSA", namedCurve: "P-256" }, sign: { name: "ECDSA", hash: "SHA-256" } },
+  EdDSA: { import: { name: "Ed25519" }, sign: { name: "Ed25519" } },
+  RS256: { import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, sign: { name: "RSASSA-PKCS1-v1_5" } },
+};
+
+/** The algorithm a key is for: its `alg`, else what its key type implies. Undefined if unsupported. */
+export function keyAlgorithm(key: JsonWebKey): SignatureAlgorithm | undefined {
+  if (key.alg) return key.alg in ALGORITHMS ? (key.alg as SignatureAlgorithm) : undefined;
+  if (key.kty === "EC" && key.crv === "P-256") return "ES256";
+  if (key.kty === "OKP" && key.crv === "Ed25519") return "EdDSA";
+  if (key.kty === "RSA") return "RS256";
+  return undefined;
+}
+
+const PRIVATE_MEMBERS = ["d", "p", "q", "dp", "dq", "qi", "oth", "k"] as const;
+
+/** The public half of a JWK, safe to publish in a JWK Set. */
+export function publicKey(key: JsonWebKey): JsonWebKey {
+  const copy: JsonWebKey & { kid?: string } = { ...key };
+  for (const member of PRIVATE_MEMBERS) delete copy[member];
+  delete copy.key_ops;
+  return copy;
+}
+
+/** The RFC 7638 SHA-256 thumbprint of a JWK, base64url-encoded - the usual key ID when there is no `kid`. */
+export async function jwkThumbprint(key: JsonWebKey): Promise<string> {
+  const required: Record<string, readonly (keyof JsonWebKey)[]> = {
+    EC: ["crv", "kty", "x", "y"],
+    OKP: ["crv", "kty", "x"],
+    RSA: ["e", "kty", "n"],
+  };
+  const members = required[key.kty ?? ""];
+  if (!members) throw new RangeError(`Unsupported key type: ${key.kty}`);
+  const json = canonicalJSON(Object.fromEntries(members.map((name) => [name, key[name]])));
+  return base64url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(json))));
+}
+
+// -- Payloads --
+
+const SIGNATURE_LINE = /^Signature:[^\r\n]*(?:\r?\n|$)/gim;
+
+/** ai.txt text with its `Signature:` lines removed - the bytes the inline signature covers. */
+export function unsignedText(text: string): string {
+  return text.replace(SIGNATURE_LINE, "");
+}
+
+/** The JWS on an ai.txt `Signature:` line, or undefined if the text has none. */
+export function inlineSignature(text: string): string | undefined {
+  return text.match(/^Signature:[ \t]*([^\r\n]*?)[ \t]*$/im)?.[1];
+}
+
+function payloadOf(content: SignedContent): string {
+  return typeof content === "string" ? unsignedText(content) : canonicalJSON(content);
+}
+
+// -- Signing --
+
+/**
+ * Sign ai.json content or ai.txt text with a private JWK. Returns a
+ * detached JWS (`header..signature`): serve it at `/.well-known/ai.json.sig`,
+ * or use `signText()` to embed it in ai.txt. The key's `kid`, if any, is
+ * put in the header. Throws a RangeError for an unsupported key.
+ *
+ * ```ts
+ * const { privateKey } = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"]);
+ * const jwk = { ...(await crypto.subtle.exportKey("jwk", privateKey)), kid: "2026-01" };
+ * const sig = await sign(doc, jwk);
+ * ```
+ */
+export async function sign(content: SignedContent, key: JsonWebKey & { kid?: string }): Promise<string> {
+  const alg = keyAlgorithm(key);
+  if (!alg || !key.d) throw new RangeError("Signing needs a private ES256, EdDSA or RS256 JWK");
+  const params = ALGORITHMS[alg];
+
+  const header = base64url(JSON.stringify(key.kid ? { alg, kid: key.kid } : { alg }));
+  const input = `${header}.${base64url(payloadOf(content))}`;
+  const cryptoKey = await crypto.subtle.importKey("jwk", { ...key, key_ops: ["sign"] }, params.import, false, ["sign"]);
+  const signature = await crypto.subtle.sign(params.sign, cryptoKey, new TextEncoder().encode(input));
+  return `${header}..${base64url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Sign ai.txt text and append the signature as a `Signature:` line.
+ * Existing `Signature:` lines are removed first.
+ */
+export async function signText(text: string, key: JsonWebKey & { kid?: string }): Promise<string> {
+  let body = unsignedText(text);
+  if (body !== "" && !body.endsWith("\n")) body += "\n";
+  return `${body}Signature: ${await sign(body, key)}\n`;
+}
+
+// -- Verification --
+
+/**
+ * Verify a detached JWS over ai.json content or ai.txt text against a
+ * site's public keys. For ai.txt text, omit `jws` to use its `Signature:`
+ * line. The key is chosen by the header's `kid`, or every key for the
+ * algorithm is tried.
+ *
+ * Never throws: problems are reported in `reason`.
+ */
+export async function verify(
+  content: SignedContent,
+  jws: string | undefined,
+  keys: JsonWebKeySet | JsonWebKey[],
+): Promise<SignatureVerification> {
+  const signature = jws ?? (typeof content === "string" ? inlineSignature(content) : undefined);
+  if (!signature) return { valid: false, reason: "Document is not signed" };
+
+  const parts = signature.trim().split(".");
+  if (parts.length !== 3 || parts[1] !== "") {
+    return { valid: false, reason: "Signature is not a detached compact JWS" };
+  }
+  const [encodedHeader, , encodedSignature] = parts;
+
+  let header: { alg?: string; kid?: string; crit?: unknown };
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    header = JSON.parse(new TextDecoder().decode(fromBase64url(encodedHeader)));
+    bytes = fromBase64url(encodedSignature);
+  } catch {
+    return { valid: false, reason: "Signature header or value is malformed" };
+  }
+  if (typeof header !== "object" || header === null || Array.isArray(header)) {
+    return { valid: false, reason: "Signature header is not a JSON object" };
+  }
+  const alg = header.alg as SignatureAlgorithm;
+  if (!(alg in ALGORITHMS)) return { valid: false, reason: `Unsupported signature algorithm: ${header.alg}` };
+  if (header.crit !== undefined) return { valid: false, reason: "Signature uses unsupported critical header parameters" };
+
+  // Published key sets are untrusted: skip entries that are not objects
+  const published: unknown[] = Array.isArray(keys) ? keys : Array.isArray(keys?.keys) ? keys.keys : [];
+  const candidates = published.filter((key): key is JsonWebKey & { kid?: string } =>
+    typeof key === "object" && key !== null
+    && keyAlgorithm(key) === alg && (header.kid === undefined || (key as { kid?: unknown }).kid === header.kid),
+  );
+  if (candidates.length === 0) {
+    return { valid: false, reason: header.kid ? `No ${alg} key with kid "${header.kid}"` : `No ${alg} key` };
+  }
+
+  const input = new TextEncoder().encode(`${encodedHeader}.${base64url(payloadOf(content))}`);
+  const params = ALGORITHMS[alg];
+  for (const key of candidates) {
+    try {
+      const cryptoKey = await crypto.subtle.importKey("jwk", { ...publicKey(key), key_ops: ["verify"] }, params.import, false, ["verify"]);
+      if (await crypto.subtle.verify(params.sign, cryptoKey, bytes, input)) {
+        return key.kid ? { valid: true, kid: key.kid, alg } : { valid: true, alg };
+      }
+    } catch {
+      // A key that does not import cannot have made the signature
+    }
+  }
+  return { valid: false, reason: "Signature does not match the document" };
+}
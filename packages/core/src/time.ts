@@ -0,0 +1,111 @@
+/**
+ * ai.txt - Time-Bound Policies
+ *
+ * Two kinds of time limits:
+ *
+ *   - Document validity: `Valid-From` / `Expires` bound the period in which
+ *     the whole file is authoritative. Outside it, agents should refetch
+ *     rather than act on the file.
+ *   - Embargoes: `Training-Embargo: /articles/** 30d` keeps matching content
+ *     off-limits until 30 days after its publication, on top of the
+ *     field's allow/deny decision.
+ */
+
+import type { AiTxtDocument, EmbargoRule } from "./types.js";
+import { compileGlob } from "./glob.js";
+
+// -- Types --
+
+/** Whether a document is authoritative at a given time. */
+export type DocumentValidity = "valid" | "not-yet-valid" | "expired";
+
+/** The embargo rule that applied to a path, and when it lifts. */
+export interface EmbargoMatch extends EmbargoRule {
+  /** ISO 8601 time the embargo ends, when the publication date is known. */
+  until?: string;
+}
+
+// -- Durations --
+
+const DURATION = /^([1-9]\d*)([mhdw])$/;
+
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse an embargo duration such as "30d" into milliseconds. Units are
+ * `m` (minutes), `h` (hours), `d` (days) and `w` (weeks).
+ * Returns null for anything else, including zero.
+ */
+export function parseDuration(value: string): number | null {
+  const match = value.match(DURATION);
+  return match ? parseInt(match[1], 10) * UNIT_MS[match[2]] : null;
+}
+
+/**
+ * Parse the value of an `*-Embargo` line: a path pattern followed by a
+ * duration ("/articles/** 30d"). Returns null if either part is missing.
+ */
+export function parseEmbargo(value: string): EmbargoRule | null {
+  const match = value.match(/^(\S+)\s+(\S+)$/);
+  if (!match || parseDuration(match[2]) === null) return null;
+  return { pattern: match[1], duration: match[2] };
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2}))?$/;
+
+/**
+ * Whether a `Valid-From` / `Expires` value is an ISO 8601 date
+ * ("2026-01-01", midnight UTC) or date-time with a UTC offset
+ * ("2026-01-01T09:00:00+01:00").
+ */
+export function isDateTime(value: string): boolean {
+  return ISO_DATE_TIME.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Parse a date-time, accepting `Date` objects, ISO 8601 strings and epoch milliseconds. Null if invalid. */
+export function toTime(value: Date | string | number): number | null {
+  const time = value instanceof Date ? value.getTime() : typeof value === "number" ? value : Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+// -- Document validity --
+
+/**
+ * Check a document's `Valid-From` / `Expires` window at `now`.
+ * Dates that do not parse are ignored.
+ */
+export function documentValidity(
+  doc: Pick<AiTxtDocument, "validFrom" | "expires">,
+  now: Date = new Date(),
+): DocumentValidity {
+  const at = now.getTime();
+  const from = doc.validFrom !== undefined ? toTime(doc.validFrom) : null;
+  const expires = doc.expires !== undefined ? toTime(doc.expires) : null;
+  if (from !== null && at < from) return "not-yet-valid";
+  if (expires !== null && at >= expires) return "expired";
+  return "valid";
+}
+
+// -- Embargoes --
+
+/**
+ * Find the embargo rule for a normalized path: the most specific matching
+ * pattern, and on a tie the longest duration. Undefined if none match.
+ */
+export function findEmbargo(rules: readonly EmbargoRule[], normalizedPath: string): EmbargoRule | undefined {
+  let best: { rule: EmbargoRule; specificity: number; ms: number } | undefined;
+  for (const rule of rules) {
+    const glob = compileGlob(rule.pattern);
+    if (!glob.test(normalizedPath)) continue;
+    const ms = parseDuration(rule.duration) ?? 0;
+    if (!best || glob.specificity > best.specificity || (glob.specificity === best.specificity && ms > best.ms)) {
+      best = { rule, specificity: glob.specificity, ms };
+    }
+  }
+  return best?.rule;
+}
@@ -13,16 +13,47 @@ export interface AiTxtDocument {
   specVersion: string;
   /** ISO 8601 timestamp of when this file was generated. */
   generatedAt?: string;
+  /** ISO 8601 date-time from which the file applies. Before it, agents should not rely on it. */
+  validFrom?: string;
+  /** ISO 8601 date-time at which the file stops being authoritative and should be refetched. */
+  expires?: string;
   /** Site identity and metadata. */
   site: SiteInfo;
   /** Site-wide content policies. */
   policies: ContentPolicies;
   /** Path-based training control (when training is "conditional"). */
   trainingPaths?: TrainingPaths;
+  /** Path-based scraping control (when scraping is "conditional"). */
+  scrapingPaths?: PathRules;
+  /** Path-based indexing control (when indexing is "conditional"). */
+  indexingPaths?: PathRules;
+  /** Path-based caching control (when caching is "conditional"). */
+  cachingPaths?: PathRules;
+  /**
+   * Site-wide policies for registered purposes other than the four fields,
+   * keyed by purpose name (e.g. "train-genai", "ai-input"). See purposes.ts.
+   */
+  purposes?: Record<string, PolicyValue>;
+  /** Path rules for conditional purposes, keyed by purpose name. */
+  purposePaths?: Record<string, PathRules>;
+  /** Uses and model distributions that training is limited to. */
+  trainingScope?: UsageScope;
+  /** Uses and model distributions that indexing is limited to. */
+  indexingScope?: UsageScope;
   /** Licensing information for AI training use. */
   licensing?: LicensingInfo;
   /** Per-agent policy overrides (keyed by agent name, "*" = default). */
   agents: Record<string, AgentPolicy>;
+  /**
+   * Whether the site reserves text-and-data-mining rights (EU Directive
+   * 2019/790, Article 4). Jurisdiction sections may override it.
+   */
+  tdmReservation?: boolean;
+  /**
+   * Policies for callers in a jurisdiction, keyed by upper-case code
+   * ("EU", "DE", "US-CA"). See jurisdiction.ts.
+   */
+  jurisdictions?: Record<string, JurisdictionPolicy>;
   /** Content attribution and disclosure requirements. */
   content?: ContentRequirements;
   /** Compliance and audit requirements. */
@@ -50,6 +81,21 @@ export interface SiteInfo {
 
 export type PolicyValue = "allow" | "deny" | "conditional";
 
+/** The content policies that can be checked with `canAccess()`. */
+export type PolicyField = "training" | "scraping" | "indexing" | "caching";
+
+/** AIPREF vocabulary terms built into the purpose registry. */
+export type AiprefPurpose = "train-ai" | "train-genai" | "search" | "ai-input";
+
+/**
+ * Anything `canAccess()` can check: a policy field, an AIPREF term, or a
+ * purpose added with `registerPurpose()`.
+ */
+export type Purpose = PolicyField | AiprefPurpose | (string & {});
+
+/** Document/agent key holding the path rules for a policy field (e.g. "scrapingPaths"). */
+export type PathRulesKey = `${PolicyField}Paths`;
+
 export interface ContentPolicies {
   /** Whether AI systems may use content for model training. Default: "deny". */
   training: PolicyValue;
@@ -61,13 +107,62 @@ export interface ContentPolicies {
   caching: PolicyValue;
 }
 
-// -- Training Paths --
+// -- Path Rules --
 
-export interface TrainingPaths {
-  /** Glob patterns for paths where training is permitted. */
+/** Allow/deny glob lists that resolve a "conditional" policy for a given URL path. */
+export interface PathRules {
+  /** Glob patterns for paths where the action is permitted. */
   allow: string[];
-  /** Glob patterns for paths where training is denied. */
+  /** Glob patterns for paths where the action is denied. */
   deny: string[];
+  /**
+   * Paths that stay off-limits until a period after the content's
+   * publication, even where the action is otherwise allowed.
+   */
+  embargo?: EmbargoRule[];
+}
+
+/** `Training-Embargo: /articles/** 30d` - matching content is embargoed for 30 days after publication. */
+export interface EmbargoRule {
+  /** Glob pattern, as in allow/deny rules. */
+  pattern: string;
+  /** `<N><unit>` with unit m (minutes), h (hours), d (days) or w (weeks), e.g. "30d". */
+  duration: string;
+}
+
+/** Path rules for training. */
+export type TrainingPaths = PathRules;
+
+// -- Usage Scopes --
+
+/** What the caller uses content for. */
+export type UsageType = "commercial" | "non-commercial" | "research";
+
+/** How the resulting model is distributed. */
+export type ModelDistribution = "open-weights" | "proprietary";
+
+/** The policy fields that accept a usage scope. */
+export type ScopedField = "training" | "indexing";
+
+/** Document/agent key holding the usage scope of a field (e.g. "trainingScope"). */
+export type UsageScopeKey = `${ScopedField}Scope`;
+
+/**
+ * Limits an allowed field to certain callers: `Training: allow` with
+ * `Training-Usage: research, non-commercial` denies commercial training.
+ * An omitted list does not restrict.
+ */
+export interface UsageScope {
+  /** Uses the field is allowed for. */
+  usage?: UsageType[];
+  /** Model distributions the field is allowed for. */
+  distribution?: ModelDistribution[];
+}
+
+/** The usage a caller declares when checking access. */
+export interface UsageProfile {
+  usage?: UsageType;
+  distribution?: ModelDistribution;
 }
 
 // -- Licensing --
@@ -90,10 +185,35 @@ export interface AgentPolicy {
   indexing?: PolicyValue;
   /** Override caching policy for this agent. */
   caching?: PolicyValue;
+  /** Path-based training control for this agent. Replaces the site-wide trainingPaths. */
+  trainingPaths?: TrainingPaths;
+  /** Path-based scraping control for this agent. Replaces the site-wide scrapingPaths. */
+  scrapingPaths?: PathRules;
+  /** Path-based indexing control for this agent. Replaces the site-wide indexingPaths. */
+  indexingPaths?: PathRules;
+  /** Path-based caching control for this agent. Replaces the site-wide cachingPaths. */
+  cachingPaths?: PathRules;
+  /** Override purpose policies for this agent, keyed by purpose name. */
+  purposes?: Record<string, PolicyValue>;
+  /** Path rules for this agent's conditional purposes. Replace the site-wide purposePaths entry. */
+  purposePaths?: Record<string, PathRules>;
+  /** Training usage scope for this agent. Replaces the site-wide trainingScope. */
+  trainingScope?: UsageScope;
+  /** Indexing usage scope for this agent. Replaces the site-wide indexingScope. */
+  indexingScope?: UsageScope;
   /** Advisory rate limit for this agent. */
   rateLimit?: RateLimit;
 }
 
+/**
+ * A jurisdiction section: the fields of an agent block, except the rate
+ * limit, for callers in that jurisdiction.
+ */
+export interface JurisdictionPolicy extends Omit<AgentPolicy, "rateLimit"> {
+  /** TDM rights reservation for this jurisdiction. Replaces the site-wide flag. */
+  tdmReservation?: boolean;
+}
+
 export interface RateLimit {
   /** Number of allowed requests per window. */
   requests: number;
@@ -110,8 +230,20 @@ export type RequirementLevel = "required" | "recommended" | "optional" | "none";
 export interface ContentRequirements {
   /** Whether AI outputs must attribute the source. */
   attribution?: RequirementLevel;
+  /** Wording for citations, with {title}, {author}, {site}, {url} and {license} placeholders. See `attribution()`. */
+  attributionTemplate?: string;
   /** Whether AI-generated content must be disclosed. */
   aiDisclosure?: RequirementLevel;
+  /**
+   * Longest verbatim excerpt an AI output may reproduce, in words. 0 forbids
+   * verbatim quoting. Shared runs of three words or fewer are incidental and
+   * allowed under any limit (see `INCIDENTAL_RUN_WORDS`).
+   */
+  maxExcerptWords?: number;
+  /** Whether AI outputs may summarize the content. */
+  summarization?: "allow" | "deny";
+  /** Whether AI outputs must link back to the source URL. */
+  linkBack?: RequirementLevel;
 }
 
 // -- Compliance --
@@ -125,23 +257,90 @@ export interface ComplianceConfig {
 
 // -- Parse/Validate Results --
 
+export interface ParseOptions {
+  /**
+   * Reject ambiguous documents: report duplicate keys, repeated agent
+   * blocks, conflicting path rules and likely typos, and treat every
+   * diagnostic as an error. Default: false.
+   */
+  strict?: boolean;
+}
+
 export interface ParseResult {
   success: boolean;
   document?: AiTxtDocument;
   errors: ParseError[];
   warnings: ParseWarning[];
+  /**
+   * Site-wide policy fields missing from the input and filled with their
+   * default (training: deny; scraping, indexing, caching: allow).
+   */
+  defaulted?: PolicyField[];
 }
 
-export interface ParseError {
+/**
+ * Stable identifiers for parser diagnostics. See `DIAGNOSTIC_CODES` for
+ * descriptions. Codes are never renamed or reused once published.
+ */
+export type ParseDiagnosticCode =
+  | "MISSING_REQUIRED_FIELD"
+  | "INVALID_JSON"
+  | "SCHEMA_VIOLATION"
+  | "UNPARSEABLE_LINE"
+  | "INDENT_OUTSIDE_BLOCK"
+  | "UNKNOWN_AGENT_FIELD"
+  | "EMPTY_AGENT_NAME"
+  | "INVALID_POLICY_VALUE"
+  | "INVALID_REQUIREMENT_LEVEL"
+  | "INVALID_RATE_LIMIT"
+  | "DUPLICATE_KEY"
+  | "DUPLICATE_AGENT"
+  | "CONFLICTING_PATH_RULE"
+  | "LIKELY_TYPO"
+  | "UNKNOWN_PURPOSE"
+  | "INVALID_DATE"
+  | "INVALID_EMBARGO"
+  | "DOCUMENT_EXPIRED"
+  | "DOCUMENT_NOT_YET_VALID"
+  | "INVALID_USAGE_SCOPE"
+  | "INVALID_JURISDICTION"
+  | "INVALID_TDM_RESERVATION"
+  | "UNKNOWN_JURISDICTION_FIELD"
+  | "INVALID_OUTPUT_CONSTRAINT"
+  | "INVALID_ATTRIBUTION_TEMPLATE"
+  | "MISSING_SIGNATURE"
+  | "INVALID_SIGNATURE"
+  | "STALE_DOCUMENT"
+  | "NOT_FOUND"
+  | "FETCH_TIMEOUT"
+  | "CONNECTION_ERROR"
+  | "HTTP_ERROR"
+  | "CIRCUIT_OPEN"
+  | "UNSAFE_URL"
+  | "TOO_MANY_REDIRECTS"
+  | "BODY_TOO_LARGE"
+  | "UNEXPECTED_CONTENT_TYPE";
+
+/** Source location shared by parse and validation diagnostics. */
+export interface DiagnosticLocation {
+  /** 1-based line number. */
   line?: number;
+  /** 1-based column where the offending text starts. */
+  column?: number;
+  /** 1-based column just past the offending text (exclusive). */
+  endColumn?: number;
+}
+
+export interface ParseError extends DiagnosticLocation {
   field?: string;
   message: string;
+  code?: ParseDiagnosticCode;
 }
 
-export interface ParseWarning {
-  line?: number;
+export interface ParseWarning extends DiagnosticLocation {
   field?: string;
   message: string;
+  code?: ParseDiagnosticCode;
 }
 
 export interface ValidationResult {
@@ -150,13 +349,13 @@ export interface ValidationResult {
   warnings: ValidationWarning[];
 }
 
-export interface ValidationError {
+export interface ValidationError extends DiagnosticLocation {
   path: string;
   message: string;
   code: string;
 }
 
-export interface ValidationWarning {
+export interface ValidationWarning extends DiagnosticLocation {
   path: string;
   message: string;
   code: string;
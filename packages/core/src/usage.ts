@@ -0,0 +1,59 @@
+/**
+ * ai.txt - Usage Scopes
+ *
+ * `Training: allow` says nothing about who trains, or on what terms. A usage
+ * scope narrows an allowed field to certain uses and model distributions:
+ *
+ *   Training: allow
+ *   Training-Usage: research, non-commercial
+ *   Training-Distribution: open-weights
+ *
+ * Callers declare their usage profile to `canAccess()`. A profile outside the
+ * scope - or one that does not say what the scope restricts - is denied.
+ */
+
+import type { ModelDistribution, ScopedField, UsageProfile, UsageScope, UsageType } from "./types.js";
+
+// -- Vocabulary --
+
+export const USAGE_TYPES: readonly UsageType[] = ["commercial", "non-commercial", "research"];
+
+export const MODEL_DISTRIBUTIONS: readonly ModelDistribution[] = ["open-weights", "proprietary"];
+
+/** The policy fields that accept a usage scope. */
+export const SCOPED_FIELDS: readonly ScopedField[] = ["training", "indexing"];
+
+// -- Parsing --
+
+/**
+ * Parse a comma-separated `-Usage` or `-Distribution` value against its
+ * vocabulary ("research, Non-Commercial" -> ["research", "non-commercial"]).
+ * Returns null if the list is empty or has an unknown entry.
+ */
+export function parseScopeList<T extends string>(value: string, vocabulary: readonly T[]): T[] | null {
+  const entries = value.split(",").map((entry) => entry.trim().toLowerCase());
+  if (entries.some((entry) => !vocabulary.includes(entry as T))) return null;
+  return entries as T[];
+}
+
+// -- Matching --
+
+/**
+ * Why a usage profile falls outside a scope, or undefined if it is inside.
+ *
+ * ```ts
+ * scopeViolation({ usage: ["research"] }, { usage: "commercial" });
+ * // -> "limited to research use"
+ * ```
+ */
+export function scopeViolation(scope: UsageScope, profile: UsageProfile = {}): string | undefined {
+  if (scope.usage && !(profile.usage && scope.usage.includes(profile.usage))) {
+    const limit = `limited to ${scope.usage.join(", ")} use`;
+    return profile.usage ? limit : `${limit} and no usage was declared`;
+  }
+  if (scope.distribution && !(profile.distribution && scope.distribution.includes(profile.distribution))) {
+    const limit = `limited to ${scope.distribution.join(", ")} models`;
+    return profile.distribution ? limit : `${limit} and no model distribution was declared`;
+  }
+  return undefined;
+}
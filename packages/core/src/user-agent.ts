@@ -0,0 +1,155 @@
+/**
+ * ai.txt - User-Agent Matching
+ *
+ * Agent blocks are keyed by a bare product name (`ClaudeBot`), but crawlers
+ * send full User-Agent headers:
+ *
+ *   ClaudeBot/1.0 (+https://www.anthropic.com)
+ *   Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)
+ *
+ * This module splits a header into product tokens (RFC 9110 section 10.1.5),
+ * strips versions, and finds the agent block the header refers to.
+ */
+
+// -- Types --
+
+/** A product token from a User-Agent header. */
+export interface UserAgentProduct {
+  /** Product name as written, e.g. "ClaudeBot". */
+  name: string;
+  /** Version after the `/`, if any, e.g. "1.0". */
+  version?: string;
+  /** Whether the product appeared inside a `(...)` comment. */
+  inComment: boolean;
+}
+
+// -- Parsing --
+
+const PRODUCT = /^([!#$%&'*+.^_`|~\w-]+)(?:\/(\S*))?$/;
+
+/**
+ * Split a User-Agent header into its product tokens, in order.
+ *
+ * Products inside comments are included when written as `Name/version`
+ * (`compatible; GPTBot/1.2`), or as a bare name in a comment that also
+ * says `compatible` (`compatible; Bytespider; ...`). URLs, e-mail
+ * addresses and platform descriptions such as `Windows NT 10.0` are skipped.
+ */
+export function parseUserAgent(header: string): UserAgentProduct[] {
+  const products: UserAgentProduct[] = [];
+  let i = 0;
+
+  while (i < header.length) {
+    if (/\s/.test(header[i])) {
+      i++;
+      continue;
+    }
+
+    if (header[i] === "(") {
+      const end = commentEnd(header, i);
+      products.push(...commentProducts(header.slice(i + 1, end)));
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < header.length && !/[\s(]/.test(header[end])) end++;
+    const product = toProduct(header.slice(i, end), false);
+    if (product) products.push(product);
+    i = end;
+  }
+
+  return products;
+}
+
+/** Index of the `)` closing the comment opened at `start`, or the header length. */
+function commentEnd(header: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < header.length; i++) {
+    if (header[i] === "\\") i++;
+    else if (header[i] === "(") depth++;
+    else if (header[i] === ")" && --depth === 0) return i;
+  }
+  return header.length;
+}
+
+function commentProducts(body: string): UserAgentProduct[] {
+  const entries = body.split(";").map((entry) => entry.trim());
+  const compatible = entries.some((entry) => entry.toLowerCase() === "compatible");
+
+  const products: UserAgentProduct[] = [];
+  for (const entry of entries) {
+    if (entry.toLowerCase() === "compatible") continue;
+    const product = toProduct(entry, true);
+    if (product && (product.version !== undefined || compatible)) products.push(product);
+  }
+  return products;
+}
+
+function toProduct(text: string, inComment: boolean): UserAgentProduct | undefined {
+  const match = text.match(PRODUCT);
+  if (!match) return undefined;
+  return match[2] ? { name: match[1], version: match[2], inComment } : { name: match[1], inComment };
+}
+
+// -- Matching --
+
+/**
+ * Find the agent block a User-Agent refers to.
+ *
+ * Candidate names, in order:
+ *   1. The whole value, lowercased (so plain names like "ClaudeBot" work)
+ *   2. Products inside comments (`compatible; GPTBot/1.2`) - usually the
+ *      crawler's real name behind a browser-style prefix
+ *   3. The remaining products, in header order
+ *
+ * An exact agent name for any candidate wins over a family pattern such
+ * as `google-*`. Among patterns, the first candidate that matches any
+ * pattern picks its most specific one (most literal characters). `*` is
+ * never returned unless the header is literally "*".
+ *
+ * @param userAgent  - An agent name or a raw User-Agent header.
+ * @param agentNames - The document's agent keys (lowercase).
+ * @returns The matching key from `agentNames`, or undefined.
+ */
+export function matchAgent(userAgent: string, agentNames: readonly string[]): string | undefined {
+  const whole = userAgent.trim().toLowerCase();
+  if (agentNames.includes(whole)) return whole;
+
+  const products = parseUserAgent(userAgent);
+  const candidates = [...products.filter((p) => p.inComment), ...products.filter((p) => !p.inComment)]
+    .map((product) => product.name.toLowerCase());
+
+  for (const name of candidates) {
+    if (agentNames.includes(name)) return name;
+  }
+
+  const patterns = agentNames.filter(isAgentPattern);
+  if (patterns.length === 0) return undefined;
+  if (candidates.length === 0 && whole) candidates.push(whole);
+
+  for (const name of candidates) {
+    let best: string | undefined;
+    for (const pattern of patterns) {
+      if (agentPatternMatches(pattern, name) && (!best || literalLength(pattern) > literalLength(best))) {
+        best = pattern;
+      }
+    }
+    if (best) return best;
+  }
+  return undefined;
+}
+
+/** Whether an agent key is a family pattern such as `google-*` (not the `*` wildcard). */
+export function isAgentPattern(name: string): boolean {
+  return name !== "*" && name.includes("*");
+}
+
+function agentPatternMatches(pattern: string, name: string): boolean {
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(name);
+}
+
+function literalLength(pattern: string): number {
+  return pattern.replace(/\*/g, "").length;
+}
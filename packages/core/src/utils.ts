@@ -28,3 +28,49 @@ export function parseRateLimit(value: string): { requests: number; window: strin
 export function formatRateLimit(requests: number, window: string): string {
   return `${requests}/${window}`;
 }
+
+/**
+ * Split an `Agent:` header value into agent names: "GPTBot, ChatGPT-User"
+ * -> ["GPTBot", "ChatGPT-User"]. Empty entries are dropped.
+ */
+export function splitAgentNames(value: string): string[] {
+  return value.split(",").map((name) => name.trim()).filter(Boolean);
+}
+
+/**
+ * Case-insensitive Levenshtein distance between two strings.
+ */
+export function editDistance(a: string, b: string): number {
+  const s = a.toLowerCase();
+  const t = b.toLowerCase();
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = row;
+  }
+  return prev[t.length];
+}
+
+/**
+ * Find the candidate a misspelled key was most likely meant to be.
+ * Allows one edit for short keys and two for keys of six or more characters.
+ * Returns undefined when nothing is close enough (or the key is an exact match).
+ */
+export function suggestKey(key: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(key, candidate);
+    if (distance === 0) return undefined;
+    const limit = candidate.length >= 6 ? 2 : 1;
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
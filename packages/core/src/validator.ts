@@ -1,7 +1,24 @@
-import type { AiTxtDocument, ValidationResult, ValidationError, ValidationWarning } from "./types.js";
+import type {
+  AiTxtDocument,
+  AgentPolicy,
+  PathRules,
+  PathRulesKey,
+  ParseError,
+  ParseOptions,
+  ParseResult,
+  ParseWarning,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning,
+} from "./types.js";
 import { AiTxtDocumentSchema } from "./schema.js";
 import { parse } from "./parser.js";
 import { parseJSON } from "./parser-json.js";
+import { getPurpose, isPolicyField, purposeChain, purposeKey } from "./purposes.js";
+import { toTime } from "./time.js";
+import { isEuJurisdiction } from "./jurisdiction.js";
+import { compileGlob } from "./glob.js";
+import { POLICY_FIELDS } from "./resolver.js";
 
 /**
  * Validate an AiTxtDocument object against the spec.
@@ -22,9 +39,18 @@ export function validate(doc: AiTxtDocument): ValidationResult {
     }
   }
 
+  // Path patterns that cannot be compiled would never match
+  checkPathPatterns(doc, "", errors);
+  for (const [agentName, policy] of Object.entries(doc.agents)) {
+    checkPathPatterns(policy, `agents.${agentName}.`, errors);
+  }
+  for (const [code, section] of Object.entries(doc.jurisdictions ?? {})) {
+    checkPathPatterns(section, `jurisdictions.${code}.`, errors);
+  }
+
   // Training is "conditional" but no training paths defined
   if (doc.policies.training === "conditional") {
-    if (!doc.trainingPaths || (doc.trainingPaths.allow.length === 0 && doc.trainingPaths.deny.length === 0)) {
+    if (!hasPaths(doc.trainingPaths)) {
       warnings.push({
         path: "policies.training",
         message: "Training is 'conditional' but no Training-Allow or Training-Deny paths are defined",
@@ -33,6 +59,55 @@ export function validate(doc: AiTxtDocument): ValidationResult {
     }
   }
 
+  // Scraping, indexing or caching is "conditional" but has no path rules
+  for (const field of ["scraping", "indexing", "caching"] as const) {
+    if (doc.policies[field] === "conditional" && !hasPaths(doc[`${field}Paths`])) {
+      const name = field[0].toUpperCase() + field.slice(1);
+      warnings.push({
+        path: `policies.${field}`,
+        message: `${name} is 'conditional' but no ${name}-Allow or ${name}-Deny paths are defined`,
+        code: "MISSING_PATH_RULES",
+      });
+    }
+  }
+
+  // A "conditional" purpose needs path rules of its own or of a broader purpose
+  const site: AgentPolicy = { ...doc, purposes: doc.purposes, purposePaths: doc.purposePaths };
+  for (const [purpose, value] of Object.entries(doc.purposes ?? {})) {
+    if (value === "conditional" && !purposeHasPaths([site], purpose)) {
+      const name = purposeKey(purpose);
+      warnings.push({
+        path: `purposes.${purpose}`,
+        message: `${name} is 'conditional' but no ${name}-Allow or ${name}-Deny paths are defined`,
+        code: "MISSING_PATH_RULES",
+      });
+    }
+  }
+
+  // Valid-From must come before Expires
+  const validFrom = doc.validFrom !== undefined ? toTime(doc.validFrom) : null;
+  const expires = doc.expires !== undefined ? toTime(doc.expires) : null;
+  if (validFrom !== null && expires !== null && validFrom >= expires) {
+    warnings.push({
+      path: "expires",
+      message: `Expires (${doc.expires}) is not after Valid-From (${doc.validFrom}); the document is never valid`,
+      code: "EMPTY_VALIDITY_WINDOW",
+    });
+  }
+
+  // An EU section that opens training should say whether TDM rights are reserved
+  for (const [code, section] of Object.entries(doc.jurisdictions ?? {})) {
+    const training = section.training ?? doc.policies.training;
+    const reservation = section.tdmReservation ?? doc.tdmReservation;
+    if (isEuJurisdiction(code) && training !== "deny" && reservation === undefined) {
+      warnings.push({
+        path: `jurisdictions.${code}.tdmReservation`,
+        message: `Jurisdiction ${code} allows training but does not declare TDM-Reservation`,
+        code: "MISSING_TDM_RESERVATION",
+      });
+    }
+  }
+
   // Training is "allow" but no license specified
   if (doc.policies.training === "allow" && !doc.licensing?.license) {
     warnings.push({
@@ -63,11 +138,24 @@ export function validate(doc: AiTxtDocument): ValidationResult {
           code: "INVALID_POLICY_VALUE",
         });
       }
-      // "conditional" doesn't make sense at agent level (no per-agent training paths)
-      if (val === "conditional") {
+      // "conditional" needs path rules (agent, wildcard or site-wide) to resolve against
+      const key = `${field}Paths` as const;
+      if (val === "conditional" && !hasPaths(policy[key]) && !hasPaths(doc.agents["*"]?.[key]) && !hasPaths(doc[key])) {
+        const name = field[0].toUpperCase() + field.slice(1);
         warnings.push({
           path: `agents.${agentName}.${field}`,
-          message: `Agent "${agentName}" uses "conditional" for ${field}, but per-agent conditional paths are not supported. Use "allow" or "deny" instead.`,
+          message: `Agent "${agentName}" uses "conditional" for ${field}, but no ${name}-Allow or ${name}-Deny paths apply to it.`,
+          code: "AGENT_CONDITIONAL_POLICY",
+        });
+      }
+    }
+
+    for (const [purpose, value] of Object.entries(policy.purposes ?? {})) {
+      if (value === "conditional" && !purposeHasPaths([policy, doc.agents["*"] ?? {}, site], purpose)) {
+        const name = purposeKey(purpose);
+        warnings.push({
+          path: `agents.${agentName}.purposes.${purpose}`,
+          message: `Agent "${agentName}" uses "conditional" for ${purpose}, but no ${name}-Allow or ${name}-Deny paths apply to it.`,
           code: "AGENT_CONDITIONAL_POLICY",
         });
       }
@@ -83,38 +171,77 @@ export function validate(doc: AiTxtDocument): ValidationResult {
 
 /**
  * Parse and validate an ai.txt text string.
+ * Pass `{ strict: true }` to reject ambiguous documents (see `parse()`).
  */
-export function validateText(text: string): ValidationResult {
-  const parseResult = parse(text);
-  if (!parseResult.success || !parseResult.document) {
-    return {
-      valid: false,
-      errors: parseResult.errors.map((e) => ({
-        path: e.field ?? "",
-        message: e.message,
-        code: "PARSE_ERROR",
-      })),
-      warnings: [],
-    };
-  }
-  return validate(parseResult.document);
+export function validateText(text: string, options: ParseOptions = {}): ValidationResult {
+  return validateParsed(parse(text, options));
 }
 
 /**
  * Parse and validate an ai.json string.
  */
 export function validateJSON(json: string): ValidationResult {
-  const parseResult = parseJSON(json);
+  return validateParsed(parseJSON(json));
+}
+
+/**
+ * Validate a parse result, carrying parser errors and warnings through
+ * with their codes and source locations.
+ */
+function validateParsed(parseResult: ParseResult): ValidationResult {
+  const parseWarnings = parseResult.warnings.map(fromParseDiagnostic);
   if (!parseResult.success || !parseResult.document) {
     return {
       valid: false,
-      errors: parseResult.errors.map((e) => ({
-        path: e.field ?? "",
-        message: e.message,
-        code: "PARSE_ERROR",
-      })),
-      warnings: [],
+      errors: parseResult.errors.map(fromParseDiagnostic),
+      warnings: parseWarnings,
     };
   }
-  return validate(parseResult.document);
+  const result = validate(parseResult.document);
+  return { ...result, warnings: [...parseWarnings, ...result.warnings] };
+}
+
+function fromParseDiagnostic(d: ParseError | ParseWarning): ValidationError {
+  const out: ValidationError = {
+    path: d.field ?? "",
+    message: d.message,
+    code: d.code ?? "PARSE_ERROR",
+  };
+  if (d.line !== undefined) out.line = d.line;
+  if (d.column !== undefined) out.column = d.column;
+  if (d.endColumn !== undefined) out.endColumn = d.endColumn;
+  return out;
+}
+
+/** Report every invalid glob in a layer's path rules (allow, deny and embargo, per field and purpose). */
+function checkPathPatterns(
+  layer: Pick<AgentPolicy, PathRulesKey | "purposePaths">,
+  prefix: string,
+  errors: ValidationError[],
+): void {
+  const rules: Array<[string, PathRules | undefined]> = [
+    ...POLICY_FIELDS.map((field): [string, PathRules | undefined] => [`${prefix}${field}Paths`, layer[`${field}Paths`]]),
+    ...Object.entries(layer.purposePaths ?? {}).map(([purpose, r]): [string, PathRules] => [`${prefix}purposePaths.${purpose}`, r]),
+  ];
+  const check = (path: string, pattern: string) => {
+    const error = compileGlob(pattern).error;
+    if (error) errors.push({ path, message: `Invalid path pattern "${pattern}": ${error}`, code: "INVALID_PATH_PATTERN" });
+  };
+  for (const [path, rule] of rules) {
+    rule?.allow?.forEach((pattern, i) => check(`${path}.allow.${i}`, pattern));
+    rule?.deny?.forEach((pattern, i) => check(`${path}.deny.${i}`, pattern));
+    rule?.embargo?.forEach((embargo, i) => check(`${path}.embargo.${i}.pattern`, embargo.pattern));
+  }
+}
+
+/** Whether any layer declares path rules for the purpose or a broader one it inherits from. */
+function purposeHasPaths(layers: AgentPolicy[], purpose: string): boolean {
+  const chain = getPurpose(purpose) ? purposeChain(purpose) : [purpose];
+  return layers.some((layer) =>
+    chain.some((p) => hasPaths(isPolicyField(p) ? layer[`${p}Paths`] : layer.purposePaths?.[p])),
+  );
+}
+
+function hasPaths(rules?: PathRules): boolean {
+  return !!rules && (rules.allow.length > 0 || rules.deny.length > 0);
 }
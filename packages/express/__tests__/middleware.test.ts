@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
 import express from "express";
 import { aiTxt } from "../src/middleware.js";
-import { parse, parseJSON } from "@ai-txt/core";
+import { parse, parseJSON, AiTxtClient } from "@ai-txt/core";
+import { generateKeyPairSync } from "node:crypto";
 import type { Server } from "http";
 
 let app: ReturnType<typeof express>;
@@ -27,9 +28,17 @@ beforeAll(async () => {
         allow: ["/blog/public/*"],
         deny: ["/blog/premium/*"],
       },
+      purposes: {
+        "ai-input": "deny",
+      },
+      indexingScope: { usage: ["research", "non-commercial"] },
       licensing: {
         license: "CC-BY-4.0",
       },
+      tdmReservation: true,
+      jurisdictions: {
+        EU: { caching: "deny" },
+      },
       agents: {
         "*": { rateLimit: { requests: 60, window: "minute" } },
         "ClaudeBot": { training: "allow" },
@@ -41,6 +50,10 @@ beforeAll(async () => {
   );
 
   app.get("/", (_req, res) => res.send("ok"));
+  app.get("/blog/:section/:post", (_req, res) => {
+    const { userAgent, policy, canAccess } = res.locals.aiTxt;
+    res.json({ userAgent, training: policy.training, access: canAccess("training"), aiInput: canAccess("ai-input").allowed });
+  });
 
   await new Promise<void>((resolve) => {
     server = app.listen(0, () => {
@@ -126,9 +139,147 @@ describe("aiTxt middleware", () => {
     expect(text).toContain("Training-Deny: /blog/premium/*");
   });
 
+  it("exposes the requesting agent's policy from a raw User-Agent header", async () => {
+    const res = await fetch(`http://127.0.0.1:${port}/blog/premium/post`, {
+      headers: { "User-Agent": "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; ClaudeBot/1.0; +claudebot@anthropic.com)" },
+    });
+    const body = await res.json();
+    expect(body.training).toBe("allow");
+    expect(body.access.allowed).toBe(true);
+  });
+
+  it("checks the request path for agents without their own block", async () => {
+    const res = await fetch(`http://127.0.0.1:${port}/blog/premium/post`, {
+      headers: { "User-Agent": "SomeBot/2.0 (+https://somebot.example)" },
+    });
+    const body = await res.json();
+    expect(body.training).toBe("conditional");
+    expect(body.access).toMatchObject({ allowed: false, rule: { type: "deny", pattern: "/blog/premium/*" } });
+  });
+
+  it("serves purpose policies in both formats", async () => {
+    const text = await (await fetch(`http://127.0.0.1:${port}/.well-known/ai.txt`)).text();
+    expect(text).toContain("AI-Input: deny");
+    expect(parse(text).document?.purposes).toEqual({ "ai-input": "deny" });
+
+    const json = await (await fetch(`http://127.0.0.1:${port}/.well-known/ai.json`)).json();
+    expect(json.purposes).toEqual({ "ai-input": "deny" });
+
+    const body = await (await fetch(`http://127.0.0.1:${port}/blog/a/b`, { headers: { "User-Agent": "ClaudeBot/1.0" } })).json();
+    expect(body.aiInput).toBe(false);
+  });
+
+  it("serves usage scopes in both formats", async () => {
+    const text = await (await fetch(`http://127.0.0.1:${port}/.well-known/ai.txt`)).text();
+    expect(text).toContain("Indexing-Usage: research, non-commercial\n");
+
+    const json = await (await fetch(`http://127.0.0.1:${port}/.well-known/ai.json`)).json();
+    expect(parseJSON(JSON.stringify(json)).document?.indexingScope).toEqual({ usage: ["research", "non-commercial"] });
+  });
+
+  it("serves jurisdiction sections and the TDM reservation", async () => {
+    const text = await (await fetch(`http://127.0.0.1:${port}/.well-known/ai.txt`)).text();
+    expect(text).toContain("TDM-Reservation: yes\n");
+    expect(text).toContain("Jurisdiction: EU\n  Caching: deny\n");
+
+    const json = await (await fetch(`http://127.0.0.1:${port}/.well-known/ai.json`)).json();
+    const doc = parseJSON(JSON.stringify(json)).document!;
+    expect(doc.tdmReservation).toBe(true);
+    expect(doc.jurisdictions).toEqual({ EU: { caching: "deny" } });
+  });
+
   it("includes content requirements", async () => {
     const res = await fetch(`http://127.0.0.1:${port}/.well-known/ai.txt`);
     const text = await res.text();
     expect(text).toContain("Attribution: required");
   });
 });
+
+describe("aiTxt middleware with a signing key", () => {
+  let signedServer: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    const signingKey = { ...generateKeyPairSync("ed25519").privateKey.export({ format: "jwk" }), kid: "site-1" } as JsonWebKey;
+    const signedApp = express();
+    signedApp.use(aiTxt({
+      site: { name: "Signed", url: "https://signed.example" },
+      policies: { training: "deny", scraping: "allow", indexing: "allow", caching: "allow" },
+      signingKey,
+    }));
+    await new Promise<void>((resolve) => {
+      signedServer = signedApp.listen(0, () => resolve());
+    });
+    base = `http://localhost:${(signedServer.address() as { port: number }).port}`;
+  });
+
+  afterAll(() => {
+    signedServer?.close();
+  });
+
+  it("serves the signature and the public key", async () => {
+    const sig = await fetch(`${base}/.well-known/ai.json.sig`);
+    expect(sig.headers.get("content-type")).toContain("application/jose");
+    expect(await sig.text()).toMatch(/^[\w-]+\.\.[\w-]+$/);
+
+    const jwks = await (await fetch(`${base}/.well-known/ai-txt-jwks.json`)).json();
+    expect(jwks.keys).toHaveLength(1);
+    expect(jwks.keys[0].kid).toBe("site-1");
+    expect(jwks.keys[0].d).toBeUndefined();
+
+    expect(await (await fetch(`${base}/.well-known/ai.txt`)).text()).toMatch(/\nSignature: \S+\n$/);
+  });
+
+  it("is accepted by a client that requires signatures", async () => {
+    const client = new AiTxtClient({ requireSignature: true, cacheTtl: 0, devHosts: ["localhost"] });
+    expect((await client.discoverJSON(base)).success).toBe(true);
+    expect((await client.discover(base)).success).toBe(true);
+
+    const txt = await (await fetch(`${base}/.well-known/ai.txt`)).text();
+    expect(parse(txt).document?.site.name).toBe("Signed");
+  });
+});
+
+describe("aiTxt middleware with crawler verification", () => {
+  let verifyingServer: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    const verifyingApp = express();
+    verifyingApp.use(aiTxt({
+      site: { name: "Verified", url: "https://verified.example" },
+      policies: { training: "deny", scraping: "allow", indexing: "allow", caching: "allow" },
+      agents: { "*": {}, LocalBot: { training: "allow" }, RemoteBot: { training: "allow" } },
+      verifyAgents: {
+        identities: [
+          { agent: "LocalBot", ipRanges: ["127.0.0.0/8", "::1"] },
+          { agent: "RemoteBot", ipRanges: ["192.0.2.0/24"] },
+        ],
+      },
+    }));
+    verifyingApp.get("/page", (_req, res) => {
+      const { policy, verification } = res.locals.aiTxt;
+      res.json({ training: policy.training, verification });
+    });
+    await new Promise<void>((resolve) => {
+      verifyingServer = verifyingApp.listen(0, () => resolve());
+    });
+    base = `http://127.0.0.1:${(verifyingServer.address() as { port: number }).port}`;
+  });
+
+  afterAll(() => {
+    verifyingServer?.close();
+  });
+
+  it("applies agent blocks only to verified claimants", async () => {
+    const page = async (userAgent: string) => (await fetch(`${base}/page`, { headers: { "User-Agent": userAgent } })).json();
+
+    const local = await page("LocalBot/1.0");
+    expect(local.training).toBe("allow");
+    expect(local.verification).toMatchObject({ verified: true, method: "ip-range" });
+
+    const spoofed = await page("RemoteBot/1.0");
+    expect(spoofed.training).toBe("deny");
+    expect(spoofed.verification).toMatchObject({ agent: "*", claimed: "remotebot", verified: false });
+  });
+});
@@ -1,2 +1,2 @@
 export { aiTxt } from "./middleware.js";
-export type { AiTxtOptions } from "./middleware.js";
+export type { AiTxtOptions, AiTxtRequestPolicy } from "./middleware.js";
@@ -1,5 +1,5 @@
-import { generate, generateJSON } from "@ai-txt/core";
-import type { AiTxtDocument, SiteInfo, ContentPolicies, AgentPolicy, TrainingPaths, LicensingInfo, ContentRequirements, ComplianceConfig } from "@ai-txt/core";
+import { generate, generateJSON, parseJSON, compilePolicy, sign, signText, publicKey, verifyAgent, JWKS_PATH } from "@ai-txt/core";
+import type { AiTxtDocument, SiteInfo, ContentPolicies, AgentPolicy, TrainingPaths, PathRules, LicensingInfo, ContentRequirements, ComplianceConfig, PolicyValue, Purpose, ResolvedPolicy, AccessResult, UsageScope, JurisdictionPolicy, VerifyAgentOptions, AgentVerification } from "@ai-txt/core";
 import type { Request, Response, NextFunction } from "express";
 
 export interface AiTxtOptions {
@@ -9,10 +9,28 @@ export interface AiTxtOptions {
   policies: ContentPolicies;
   /** Training path restrictions. */
   trainingPaths?: TrainingPaths;
+  /** Scraping path restrictions. */
+  scrapingPaths?: PathRules;
+  /** Indexing path restrictions. */
+  indexingPaths?: PathRules;
+  /** Caching path restrictions. */
+  cachingPaths?: PathRules;
+  /** Policies for registered purposes such as "train-genai" or "ai-input". */
+  purposes?: Record<string, PolicyValue>;
+  /** Purpose path restrictions. */
+  purposePaths?: Record<string, PathRules>;
+  /** Uses and model distributions training is limited to. */
+  trainingScope?: UsageScope;
+  /** Uses and model distributions indexing is limited to. */
+  indexingScope?: UsageScope;
   /** Licensing info. */
   licensing?: LicensingInfo;
+  /** Whether text-and-data-mining rights are reserved (EU Directive 2019/790, Art. 4). */
+  tdmReservation?: boolean;
   /** Per-agent policies. Default: wildcard. */
   agents?: Record<string, AgentPolicy>;
+  /** Policies for callers in a jurisdiction, keyed by code ("EU", "DE", "US-CA"). */
+  jurisdictions?: Record<string, JurisdictionPolicy>;
   /** Content requirements. */
   content?: ContentRequirements;
   /** Compliance config. */
@@ -21,6 +39,36 @@ export interface AiTxtOptions {
   corsOrigins?: string[];
   /** Serve paths. Default: /.well-known/ai.txt and /.well-known/ai.json */
   paths?: { txt?: string; json?: string };
+  /**
+   * Private JWK (ES256, EdDSA or RS256) to sign the served files with:
+   * ai.txt gets a `Signature:` line, ai.json a detached signature at its
+   * path plus `.sig`, and the public key is served at
+   * /.well-known/ai-txt-jwks.json. Give it a `kid` to allow key rotation.
+   */
+  signingKey?: JsonWebKey & { kid?: string };
+  /**
+   * Verify crawler identities before applying agent blocks: a request that
+   * claims a named agent but fails verification (IP range, reverse DNS or
+   * HTTP Message Signature) gets the `*` policy. Uses `req.ip`, so set
+   * Express's "trust proxy" behind a proxy.
+   */
+  verifyAgents?: Omit<VerifyAgentOptions, "now">;
+}
+
+/**
+ * The policy that applies to the agent making a request, available to later
+ * handlers as `res.locals.aiTxt`. The agent is identified from the raw
+ * User-Agent header, e.g. "Mozilla/5.0 (compatible; GPTBot/1.2; +https://openai.com/gptbot)".
+ */
+export interface AiTxtRequestPolicy {
+  /** The request's User-Agent header ("" if absent). */
+  userAgent: string;
+  /** Effective policy for the requesting agent. */
+  policy: Readonly<ResolvedPolicy>;
+  /** Check an action for the requesting agent. `path` defaults to the request path. */
+  canAccess(field: Purpose, path?: string): AccessResult;
+  /** How the agent's claimed identity was checked, when `verifyAgents` is set. */
+  verification?: AgentVerification;
 }
 
 export function aiTxt(options: AiTxtOptions) {
@@ -30,8 +78,17 @@ export function aiTxt(options: AiTxtOptions) {
     site: options.site,
     policies: options.policies,
     trainingPaths: options.trainingPaths,
+    scrapingPaths: options.scrapingPaths,
+    indexingPaths: options.indexingPaths,
+    cachingPaths: options.cachingPaths,
+    purposes: options.purposes,
+    purposePaths: options.purposePaths,
+    trainingScope: options.trainingScope,
+    indexingScope: options.indexingScope,
     licensing: options.licensing,
+    tdmReservation: options.tdmReservation,
     agents: options.agents ?? { "*": {} },
+    jurisdictions: options.jurisdictions,
     content: options.content,
     compliance: options.compliance,
   };
@@ -41,12 +98,48 @@ export function aiTxt(options: AiTxtOptions) {
 
   const txtPath = options.paths?.txt ?? "/.well-known/ai.txt";
   const jsonPath = options.paths?.json ?? "/.well-known/ai.json";
+  const sigPath = `${jsonPath}.sig`;
+
+  // Signed once, on creation; a bad key fails the requests for these files
+  const signingKey = options.signingKey;
+  const signed = signingKey
+    ? Promise.all([signText(txtContent, signingKey), sign(JSON.parse(jsonContent), signingKey)])
+    : undefined;
+  signed?.catch(() => {});
+  const jwksContent = signingKey ? JSON.stringify({ keys: [publicKey(signingKey)] }, null, 2) : undefined;
+  const servedPaths = signingKey ? [txtPath, jsonPath, sigPath, JWKS_PATH] : [txtPath, jsonPath];
 
   const corsOrigins = options.corsOrigins ?? ["*"];
 
+  // Enforce exactly what is served: agent keys lowercased, as agents see them
+  const served = parseJSON(jsonContent).document ?? doc;
+  const compiled = compilePolicy(served);
+
   return function aiTxtMiddleware(req: Request, res: Response, next: NextFunction): void {
-    if (req.path !== txtPath && req.path !== jsonPath) {
-      next();
+    if (!servedPaths.includes(req.path)) {
+      const userAgent = req.get("user-agent") ?? "";
+      const expose = (agent: string, verification?: AgentVerification) => {
+        const requestPolicy: AiTxtRequestPolicy = {
+          userAgent,
+          policy: compiled.policyFor(agent),
+          canAccess: (field, path = req.path) => compiled.decide(agent, field, path),
+        };
+        if (verification) requestPolicy.verification = verification;
+        res.locals.aiTxt = requestPolicy;
+        next();
+      };
+
+      if (!options.verifyAgents) {
+        expose(userAgent);
+        return;
+      }
+      verifyAgent(served, {
+        ip: req.ip ?? "",
+        userAgent,
+        method: req.method,
+        url: `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+        headers: req.headers,
+      }, options.verifyAgents).then((verification) => expose(verification.agent, verification), next);
       return;
     }
 
@@ -71,14 +164,34 @@ export function aiTxt(options: AiTxtOptions) {
     }
 
     // Serve content
-    if (req.path === txtPath) {
+    if (!signed) {
+      serve(res, req.path, txtContent, jsonContent);
+      return;
+    }
+    signed.then(([signedTxt, jsonSignature]) => {
+      if (req.path === sigPath) {
+        res.setHeader("Content-Type", "application/jose; charset=utf-8");
+        res.setHeader("Cache-Control", "public, max-age=300");
+        res.send(jsonSignature);
+      } else if (req.path === JWKS_PATH) {
+        res.setHeader("Content-Type", "application/jwk-set+json; charset=utf-8");
+        res.setHeader("Cache-Control", "public, max-age=300");
+        res.send(jwksContent);
+      } else {
+        serve(res, req.path, signedTxt, jsonContent);
+      }
+    }, next);
+  };
+
+  function serve(res: Response, path: string, txt: string, json: string): void {
+    if (path === txtPath) {
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
       res.setHeader("Cache-Control", "public, max-age=300");
-      res.send(txtContent);
+      res.send(txt);
     } else {
       res.setHeader("Content-Type", "application/json; charset=utf-8");
       res.setHeader("Cache-Control", "public, max-age=300");
-      res.send(jsonContent);
+      res.send(json);
     }
-  };
+  }
 }